@@ -8,6 +8,8 @@ import LoadingOverlay from '@components/Layout/LoadingOverlay';
 import DeidentificationSettings from '@components/Controls/DeidentificationSettings';
 import MetadataDrawer from '@components/Metadata/MetadataDrawer';
 import ExportDrawer from '@components/Export/ExportDrawer';
+import VerificationDrawer from '@components/Verification/VerificationDrawer';
+import VaultDrawer from '@components/Vault/VaultDrawer';
 import ShortcutsModal from '@components/Help/ShortcutsModal';
 import ErrorBoundary from '@components/ErrorBoundary/ErrorBoundary';
 import { useKeyboardShortcuts } from '@hooks/useKeyboardShortcuts';
@@ -36,6 +38,8 @@ function App() {
         <DeidentificationSettings />
         <MetadataDrawer />
         <ExportDrawer />
+        <VerificationDrawer />
+        <VaultDrawer />
         <ShortcutsModal open={shortcutsModalOpen} onClose={() => setShortcutsModalOpen(false)} />
         <NotificationHandler />
         <NotificationDrawer />
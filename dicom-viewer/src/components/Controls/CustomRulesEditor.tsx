@@ -0,0 +1,165 @@
+/**
+ * Custom Rules Editor Component
+ * Table editor for per-tag deidentification rules, with a preview of the loaded files each rule matches
+ */
+
+import { Table, Input, Select, Button, Space, Tooltip, Tag, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { PlusOutlined, DeleteOutlined, ArrowUpOutlined, ArrowDownOutlined } from '@ant-design/icons';
+import { useAppDispatch, useAppSelector } from '@store';
+import { updateDeidentificationOptions } from '@store/slices/dicomSlice';
+import { getRuleMatches, validateRule } from '@services/dicom/ruleEngine';
+import type { DeidentificationRule } from '@store/types';
+
+const { Text } = Typography;
+
+const ACTION_OPTIONS: { value: DeidentificationRule['action']; label: string }[] = [
+  { value: 'remove', label: 'Remove' },
+  { value: 'replace', label: 'Replace' },
+  { value: 'keep', label: 'Keep' },
+  { value: 'hash', label: 'Hash' },
+];
+
+const CustomRulesEditor = () => {
+  const dispatch = useAppDispatch();
+  const { deidentificationOptions, originalFiles } = useAppSelector((state) => state.dicom);
+  const rules = deidentificationOptions.customRules ?? [];
+
+  const saveRules = (nextRules: DeidentificationRule[]) => {
+    dispatch(updateDeidentificationOptions({ customRules: nextRules }));
+  };
+
+  const updateRule = (index: number, changes: Partial<DeidentificationRule>) => {
+    saveRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) {
+      return;
+    }
+    const nextRules = [...rules];
+    [nextRules[index], nextRules[target]] = [nextRules[target], nextRules[index]];
+    saveRules(nextRules);
+  };
+
+  const columns: ColumnsType<DeidentificationRule> = [
+    {
+      title: 'Tag',
+      dataIndex: 'tag',
+      width: 120,
+      render: (tag: string, rule, index) => (
+        <Input
+          size="small"
+          value={tag}
+          placeholder="(0010,0010)"
+          status={tag && validateRule({ ...rule, replacement: '' }) ? 'error' : undefined}
+          onChange={(e) => updateRule(index, { tag: e.target.value })}
+        />
+      ),
+    },
+    {
+      title: 'Action',
+      dataIndex: 'action',
+      width: 95,
+      render: (action: DeidentificationRule['action'], rule, index) => (
+        <Select
+          size="small"
+          value={action}
+          options={ACTION_OPTIONS}
+          style={{ width: '100%' }}
+          onChange={(value) =>
+            updateRule(index, {
+              action: value,
+              replacement: value === 'replace' ? (rule.replacement ?? '') : rule.replacement,
+            })
+          }
+        />
+      ),
+    },
+    {
+      title: 'Replacement',
+      dataIndex: 'replacement',
+      render: (replacement: string | undefined, rule, index) => (
+        <Input
+          size="small"
+          value={replacement}
+          disabled={rule.action !== 'replace'}
+          onChange={(e) => updateRule(index, { replacement: e.target.value })}
+        />
+      ),
+    },
+    {
+      title: 'Matches',
+      key: 'matches',
+      width: 70,
+      render: (_, rule) => {
+        const matches = getRuleMatches(rule, originalFiles);
+        return (
+          <Tooltip
+            title={
+              matches.length > 0
+                ? matches.map((file) => <div key={file.id}>{file.fileName}</div>)
+                : 'No loaded file contains this tag'
+            }
+          >
+            <Tag color={matches.length > 0 ? 'blue' : 'default'}>
+              {matches.length}/{originalFiles.length}
+            </Tag>
+          </Tooltip>
+        );
+      },
+    },
+    {
+      key: 'order',
+      width: 90,
+      render: (_, __, index) => (
+        <Space size={0}>
+          <Button
+            type="text"
+            size="small"
+            icon={<ArrowUpOutlined />}
+            disabled={index === 0}
+            onClick={() => moveRule(index, -1)}
+          />
+          <Button
+            type="text"
+            size="small"
+            icon={<ArrowDownOutlined />}
+            disabled={index === rules.length - 1}
+            onClick={() => moveRule(index, 1)}
+          />
+          <Button
+            type="text"
+            size="small"
+            danger
+            icon={<DeleteOutlined />}
+            onClick={() => saveRules(rules.filter((_, i) => i !== index))}
+          />
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Table
+        size="small"
+        columns={columns}
+        dataSource={rules.map((rule, index) => ({ ...rule, key: index }))}
+        pagination={false}
+        locale={{ emptyText: <Text type="secondary">No custom rules</Text> }}
+      />
+      <Button
+        type="dashed"
+        block
+        icon={<PlusOutlined />}
+        onClick={() => saveRules([...rules, { tag: '', action: 'remove' }])}
+      >
+        Add Rule
+      </Button>
+    </Space>
+  );
+};
+
+export default CustomRulesEditor;
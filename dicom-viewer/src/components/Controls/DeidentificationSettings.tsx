@@ -3,24 +3,143 @@
  * Allows users to configure DICOM deidentification options
  */
 
-import { Drawer, Form, Switch, InputNumber, Divider, Typography, Space, Alert, Tag, Button } from 'antd';
-import { SafetyOutlined, InfoCircleOutlined } from '@ant-design/icons';
+import { Drawer, Form, Switch, Input, InputNumber, Divider, Typography, Space, Alert, Tag, Button, Tooltip, Upload, Radio, Select, List } from 'antd';
+import { SafetyOutlined, InfoCircleOutlined, ReloadOutlined, DeleteOutlined } from '@ant-design/icons';
 import { useAppDispatch, useAppSelector } from '@store';
-import { closeSettingsDrawer } from '@store/slices/uiSlice';
-import { updateDeidentificationOptions } from '@store/slices/dicomSlice';
+import { closeSettingsDrawer, addNotification } from '@store/slices/uiSlice';
+import { updateDeidentificationOptions, setMaskTemplates } from '@store/slices/dicomSlice';
+import { saveMaskTemplates } from '@services/dicom/maskTemplates';
+import { NON_IMAGE_OBJECT_LABELS } from '@services/dicom/nonImageObjects';
 import { getModifiedTags } from '@services/dicom/deidentifier';
-import type { DeidentifyOptions } from '@store/types';
-import { useEffect, useRef } from 'react';
+import { generateProjectSecret, loadProjectSecret, saveProjectSecret } from '@services/dicom/pseudonymizer';
+import {
+  clearUIDMappings,
+  countUIDMappings,
+  exportUIDMappings,
+  importUIDMappings,
+} from '@services/dicom/uidMapper';
+import type {
+  BirthDateHandling,
+  BurnedInAnnotationPolicy,
+  DeidentifyOptions,
+  NonImageObjectKind,
+  NonImageObjectPolicy,
+  PrivateTagPolicy,
+  TimeHandling,
+} from '@store/types';
+import { formatTag, groupPrivateTags } from '@utils/dicomTags';
+import { DEFAULT_DATE_SHIFT_MAX_DAYS, DEFAULT_DATE_SHIFT_MIN_DAYS } from '@utils/constants';
+import { PROFILE_ACTION_LABELS } from '@utils/confidentialityProfile';
+import type { ProfileAction } from '@utils/confidentialityProfile';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import CustomRulesEditor from './CustomRulesEditor';
 
 const { Title, Text, Paragraph } = Typography;
 
+// Annex E options with a switch of their own
+const PROFILE_OPTION_SWITCHES: {
+  name: 'retainPatientCharacteristics' | 'retainDeviceIdentity' | 'cleanDescriptors' | 'cleanStructuredContent' | 'cleanGraphics';
+  label: string;
+  tooltip: string;
+}[] = [
+  {
+    name: 'retainPatientCharacteristics',
+    label: 'Retain Patient Characteristics',
+    tooltip: 'Keep sex, age, size, weight and similar attributes; clean allergies, alerts and history',
+  },
+  {
+    name: 'retainDeviceIdentity',
+    label: 'Retain Device Identity',
+    tooltip: 'Keep station names, serial numbers and other device identifiers',
+  },
+  {
+    name: 'cleanDescriptors',
+    label: 'Clean Descriptors',
+    tooltip: "Keep descriptions and comments, redacting the patient's names, IDs and dates and anything phone- or MRN-like",
+  },
+  {
+    name: 'cleanStructuredContent',
+    label: 'Clean Structured Content',
+    tooltip: 'Keep content and acquisition context sequences, cleaning the attributes inside them',
+  },
+  {
+    name: 'cleanGraphics',
+    label: 'Clean Graphics',
+    tooltip: 'Keep the shapes of graphic annotations but remove their text objects, and strip overlay planes (including overlays in unused pixel bits) and curves',
+  },
+];
+
+const BIRTH_DATE_OPTIONS: { value: BirthDateHandling; label: string }[] = [
+  { value: 'year', label: 'Keep birth year only' },
+  { value: 'remove', label: 'Remove birth date' },
+];
+
+const TIME_HANDLING_OPTIONS: { value: TimeHandling; label: string }[] = [
+  { value: 'keep', label: 'Keep times' },
+  { value: 'shift', label: 'Shift times' },
+  { value: 'truncate', label: 'Truncate times to the hour' },
+];
+
+const PRIVATE_TAG_POLICIES: { value: PrivateTagPolicy; label: string; description: string }[] = [
+  {
+    value: 'removeAll',
+    label: 'Remove all private tags',
+    description: 'Vendor blocks such as CSA headers can hold patient names',
+  },
+  {
+    value: 'retainSafe',
+    label: 'Keep safe-listed private tags',
+    description: 'Retain Safe Private option: known safe elements by private creator and offset, such as diffusion b-values',
+  },
+  {
+    value: 'keepCreators',
+    label: 'Keep listed private creators',
+    description: 'Keep every element of the creators listed below; review them for identifying information first',
+  },
+];
+
+const NON_IMAGE_OBJECT_POLICIES: { value: NonImageObjectPolicy; label: string }[] = [
+  { value: 'strip', label: 'Strip document' },
+  { value: 'reject', label: 'Reject' },
+  { value: 'allow', label: 'Allow' },
+];
+
+const BURNED_IN_ANNOTATION_POLICIES: { value: BurnedInAnnotationPolicy; label: string; description: string }[] = [
+  {
+    value: 'quarantine',
+    label: 'Quarantine flagged files',
+    description: 'ZIP export puts them in a quarantine/ folder for review',
+  },
+  {
+    value: 'block',
+    label: 'Block flagged files',
+    description: 'ZIP export leaves them out; metadata.json still lists them',
+  },
+  {
+    value: 'include',
+    label: 'Export flagged files',
+    description: 'Only when the pixels have been checked for patient details',
+  },
+];
+
+const ACTION_COLORS: Record<ProfileAction, string> = {
+  X: 'red',
+  Z: 'orange',
+  D: 'gold',
+  U: 'blue',
+  C: 'purple',
+  K: 'green',
+};
+
 const DeidentificationSettings = () => {
   const dispatch = useAppDispatch();
   const { settingsDrawerOpen } = useAppSelector((state) => state.ui);
-  const { deidentificationOptions } = useAppSelector((state) => state.dicom);
+  const { deidentificationOptions, originalFiles, maskTemplates } = useAppSelector((state) => state.dicom);
   const [form] = Form.useForm();
   const isInitializingRef = useRef(false);
   const lastDrawerStateRef = useRef(false);
+  const [projectSecret, setProjectSecret] = useState(() => loadProjectSecret());
+  const [uidMappingCount, setUIDMappingCount] = useState(0);
 
   // Sync form with Redux state when drawer opens
   useEffect(() => {
@@ -40,11 +159,22 @@ const DeidentificationSettings = () => {
             removePatientID: deidentificationOptions.removePatientID ?? false,
             removeDates: deidentificationOptions.removeDates ?? false,
             shiftDates: deidentificationOptions.shiftDates ?? false,
-            dateShiftDays: deidentificationOptions.dateShiftDays ?? 365,
+            dateShiftMinDays: deidentificationOptions.dateShiftMinDays ?? DEFAULT_DATE_SHIFT_MIN_DAYS,
+            dateShiftMaxDays: deidentificationOptions.dateShiftMaxDays ?? DEFAULT_DATE_SHIFT_MAX_DAYS,
+            timeHandling: deidentificationOptions.timeHandling ?? 'keep',
+            timeShiftMinutes: deidentificationOptions.timeShiftMinutes,
             removeInstitution: deidentificationOptions.removeInstitution ?? false,
             removePhysicians: deidentificationOptions.removePhysicians ?? false,
             anonymizeUIDs: deidentificationOptions.anonymizeUIDs ?? false,
             keepSeriesInfo: deidentificationOptions.keepSeriesInfo ?? false,
+            safeHarbor: deidentificationOptions.safeHarbor ?? false,
+            safeHarborBirthDate: deidentificationOptions.safeHarborBirthDate ?? 'year',
+            retainPatientCharacteristics: deidentificationOptions.retainPatientCharacteristics ?? false,
+            retainDeviceIdentity: deidentificationOptions.retainDeviceIdentity ?? false,
+            cleanDescriptors: deidentificationOptions.cleanDescriptors ?? false,
+            cleanStructuredContent: deidentificationOptions.cleanStructuredContent ?? false,
+            cleanGraphics: deidentificationOptions.cleanGraphics ?? false,
+            persistUIDMappings: deidentificationOptions.persistUIDMappings ?? false,
           };
           
           console.log('Setting form values:', formValues);
@@ -112,11 +242,26 @@ const DeidentificationSettings = () => {
         removePatientID: formValues.removePatientID ?? false,
         removeDates: formValues.removeDates ?? false,
         shiftDates: formValues.shiftDates ?? false,
-        dateShiftDays: formValues.dateShiftDays,
+        dateShiftMinDays: formValues.dateShiftMinDays,
+        dateShiftMaxDays: formValues.dateShiftMaxDays,
+        timeHandling: formValues.timeHandling ?? 'keep',
+        timeShiftMinutes: formValues.timeShiftMinutes,
         removeInstitution: formValues.removeInstitution ?? false,
         removePhysicians: formValues.removePhysicians ?? false,
         anonymizeUIDs: formValues.anonymizeUIDs ?? false,
         keepSeriesInfo: formValues.keepSeriesInfo ?? false,
+        safeHarbor: formValues.safeHarbor ?? false,
+        safeHarborBirthDate: formValues.safeHarborBirthDate ?? 'year',
+        retainPatientCharacteristics: formValues.retainPatientCharacteristics ?? false,
+        retainDeviceIdentity: formValues.retainDeviceIdentity ?? false,
+        cleanDescriptors: formValues.cleanDescriptors ?? false,
+        cleanStructuredContent: formValues.cleanStructuredContent ?? false,
+        cleanGraphics: formValues.cleanGraphics ?? false,
+        persistUIDMappings: formValues.persistUIDMappings ?? false,
+        privateTagPolicy: deidentificationOptions.privateTagPolicy,
+        burnedInAnnotationPolicy: deidentificationOptions.burnedInAnnotationPolicy,
+        nonImageObjectPolicies: deidentificationOptions.nonImageObjectPolicies,
+        recordCrosswalk: deidentificationOptions.recordCrosswalk,
       };
 
       // Prevent both removeDates and shiftDates from being true
@@ -128,10 +273,14 @@ const DeidentificationSettings = () => {
         form.setFieldValue('removeDates', false);
       }
 
-      // Ensure dateShiftDays is set if shiftDates is enabled
-      if (finalValues.shiftDates === true && !finalValues.dateShiftDays) {
-        finalValues.dateShiftDays = deidentificationOptions.dateShiftDays || 365;
-        form.setFieldValue('dateShiftDays', finalValues.dateShiftDays);
+      // Ensure the date shift range is set if shiftDates is enabled
+      if (finalValues.shiftDates === true) {
+        finalValues.dateShiftMinDays ??= deidentificationOptions.dateShiftMinDays ?? DEFAULT_DATE_SHIFT_MIN_DAYS;
+        finalValues.dateShiftMaxDays ??= deidentificationOptions.dateShiftMaxDays ?? DEFAULT_DATE_SHIFT_MAX_DAYS;
+        form.setFieldsValue({
+          dateShiftMinDays: finalValues.dateShiftMinDays,
+          dateShiftMaxDays: finalValues.dateShiftMaxDays,
+        });
       }
 
       console.log('Final values to save to Redux:', finalValues);
@@ -164,10 +313,14 @@ const DeidentificationSettings = () => {
       form.setFieldValue('removeDates', false);
     }
 
-    // Ensure dateShiftDays is set if shiftDates is enabled
-    if (mergedValues.shiftDates === true && !mergedValues.dateShiftDays) {
-      mergedValues.dateShiftDays = deidentificationOptions.dateShiftDays || 365;
-      form.setFieldValue('dateShiftDays', mergedValues.dateShiftDays);
+    // Ensure the date shift range is set if shiftDates is enabled
+    if (mergedValues.shiftDates === true) {
+      mergedValues.dateShiftMinDays ??= deidentificationOptions.dateShiftMinDays ?? DEFAULT_DATE_SHIFT_MIN_DAYS;
+      mergedValues.dateShiftMaxDays ??= deidentificationOptions.dateShiftMaxDays ?? DEFAULT_DATE_SHIFT_MAX_DAYS;
+      form.setFieldsValue({
+        dateShiftMinDays: mergedValues.dateShiftMinDays,
+        dateShiftMaxDays: mergedValues.dateShiftMaxDays,
+      });
     }
 
     // Build final values
@@ -176,11 +329,26 @@ const DeidentificationSettings = () => {
       removePatientID: mergedValues.removePatientID ?? false,
       removeDates: mergedValues.removeDates ?? false,
       shiftDates: mergedValues.shiftDates ?? false,
-      dateShiftDays: mergedValues.dateShiftDays,
+      dateShiftMinDays: mergedValues.dateShiftMinDays,
+      dateShiftMaxDays: mergedValues.dateShiftMaxDays,
+      timeHandling: mergedValues.timeHandling ?? 'keep',
+      timeShiftMinutes: mergedValues.timeShiftMinutes,
       removeInstitution: mergedValues.removeInstitution ?? false,
       removePhysicians: mergedValues.removePhysicians ?? false,
       anonymizeUIDs: mergedValues.anonymizeUIDs ?? false,
       keepSeriesInfo: mergedValues.keepSeriesInfo ?? false,
+      safeHarbor: mergedValues.safeHarbor ?? false,
+      safeHarborBirthDate: mergedValues.safeHarborBirthDate ?? 'year',
+      retainPatientCharacteristics: mergedValues.retainPatientCharacteristics ?? false,
+      retainDeviceIdentity: mergedValues.retainDeviceIdentity ?? false,
+      cleanDescriptors: mergedValues.cleanDescriptors ?? false,
+      cleanStructuredContent: mergedValues.cleanStructuredContent ?? false,
+      cleanGraphics: mergedValues.cleanGraphics ?? false,
+      persistUIDMappings: mergedValues.persistUIDMappings ?? false,
+      privateTagPolicy: deidentificationOptions.privateTagPolicy,
+      burnedInAnnotationPolicy: deidentificationOptions.burnedInAnnotationPolicy,
+      nonImageObjectPolicies: deidentificationOptions.nonImageObjectPolicies,
+      recordCrosswalk: deidentificationOptions.recordCrosswalk,
     };
 
     console.log('Final values to save to Redux:', finalValues);
@@ -190,8 +358,71 @@ const DeidentificationSettings = () => {
   // Note: We don't need to sync form values when Redux changes because
   // the Switches are now controlled directly from Redux state via the `checked` prop
 
+  const refreshUIDMappingCount = () => {
+    countUIDMappings()
+      .then(setUIDMappingCount)
+      .catch((error) => console.error('Error reading UID mappings:', error));
+  };
+
+  useEffect(() => {
+    if (settingsDrawerOpen) {
+      refreshUIDMappingCount();
+    }
+  }, [settingsDrawerOpen]);
+
+  const handleExportUIDMappings = async () => {
+    try {
+      const count = await exportUIDMappings();
+      dispatch(addNotification({ type: 'success', message: 'UID mappings exported', description: `${count} mappings` }));
+    } catch (error) {
+      dispatch(addNotification({ type: 'error', message: 'Export failed', description: (error as Error).message }));
+    }
+  };
+
+  const handleImportUIDMappings = (file: File) => {
+    importUIDMappings(file)
+      .then((count) => {
+        refreshUIDMappingCount();
+        dispatch(addNotification({ type: 'success', message: 'UID mappings imported', description: `${count} mappings` }));
+      })
+      .catch((error) => {
+        dispatch(addNotification({ type: 'error', message: 'Import failed', description: error.message }));
+      });
+    // Read the file ourselves instead of uploading it
+    return false;
+  };
+
+  const handleClearUIDMappings = async () => {
+    await clearUIDMappings();
+    refreshUIDMappingCount();
+  };
+
+  const handleSaveSecret = () => {
+    saveProjectSecret(projectSecret);
+    dispatch(
+      addNotification({
+        type: 'success',
+        message: 'Project secret saved',
+        description: 'Pseudonyms from now on are keyed with the new secret',
+      })
+    );
+  };
+
   const modifiedTags = getModifiedTags(deidentificationOptions);
 
+  // Private creators found in the loaded files, offered when listing creators to keep
+  const loadedPrivateCreators = useMemo(() => {
+    const creators = new Set<string>();
+    originalFiles.forEach((file) => {
+      groupPrivateTags(file.metadata?.allTags ?? {}).forEach(({ creator }) => {
+        if (creator) {
+          creators.add(creator);
+        }
+      });
+    });
+    return [...creators].sort();
+  }, [originalFiles]);
+
   return (
     <Drawer
       title={
@@ -238,7 +469,7 @@ const DeidentificationSettings = () => {
           <Form.Item
             name="removePatientID"
             // valuePropName="checked"
-            tooltip="Replace patient ID with anonymous ID"
+            tooltip="Replace patient ID with a pseudonym keyed by the project secret"
           >
             <Space>
               <Switch checked={deidentificationOptions.removePatientID} defaultChecked={deidentificationOptions.removePatientID} onChange={(checked) => handleSwitchChange('removePatientID', checked)} />
@@ -246,6 +477,26 @@ const DeidentificationSettings = () => {
             </Space>
           </Form.Item>
 
+          <Form.Item
+            name="safeHarbor"
+            valuePropName="checked"
+            tooltip="HIPAA Safe Harbor: compute Patient Age with ages over 89 reported as 090Y, and put size and weight into 10 cm and 10 kg bands"
+          >
+            <Space>
+              <Switch checked={deidentificationOptions.safeHarbor} onChange={(checked) => handleSwitchChange('safeHarbor', checked)} />
+              <Text>Safe Harbor Generalisation</Text>
+            </Space>
+          </Form.Item>
+
+          <Form.Item
+            name="safeHarborBirthDate"
+            label="Birth Date"
+            tooltip="Keep only the birth year (as January 1st), or remove the birth date; over 89 it is always removed"
+            hidden={!deidentificationOptions.safeHarbor}
+          >
+            <Select options={BIRTH_DATE_OPTIONS} disabled={!deidentificationOptions.safeHarbor} />
+          </Form.Item>
+
           <Divider />
 
           {/* Date Handling */}
@@ -253,7 +504,7 @@ const DeidentificationSettings = () => {
           <Form.Item
             name="removeDates"
             // valuePropName="checked"
-            tooltip="Completely remove all dates from DICOM metadata"
+            tooltip="Completely remove all dates from DICOM metadata (with shifting also off: Retain Longitudinal Temporal Information, Full Dates option)"
           >
             <Space>
               <Switch checked={deidentificationOptions.removeDates} onChange={(checked) => handleSwitchChange('removeDates', checked)} />
@@ -264,7 +515,7 @@ const DeidentificationSettings = () => {
           <Form.Item
             name="shiftDates"
             valuePropName="checked"
-            tooltip="Shift dates by specified number of days while maintaining relative intervals"
+            tooltip="Shift each patient's dates by a keyed offset while maintaining relative intervals (Retain Longitudinal Temporal Information, Modified Dates option)"
           >
             <Space>
               <Switch checked={deidentificationOptions.shiftDates} onChange={(checked) => handleSwitchChange('shiftDates', checked)} />
@@ -273,19 +524,51 @@ const DeidentificationSettings = () => {
           </Form.Item>
 
           <Form.Item
-            name="dateShiftDays"
-            label="Date Shift (days)"
-            tooltip="Number of days to shift dates backward"
+            name="dateShiftMinDays"
+            label="Date Shift From (days)"
+            tooltip="Each patient gets one offset in this range, derived from the Patient ID and project secret; negative moves dates earlier"
             hidden={!deidentificationOptions.shiftDates}
           >
             <InputNumber
-              min={1}
+              min={-3650}
               max={3650}
               style={{ width: '100%' }}
               disabled={!deidentificationOptions.shiftDates}
             />
           </Form.Item>
 
+          <Form.Item
+            name="dateShiftMaxDays"
+            label="Date Shift To (days)"
+            tooltip="Upper end of the offset range; a range spanning zero never gives a zero offset"
+            hidden={!deidentificationOptions.shiftDates}
+          >
+            <InputNumber
+              min={-3650}
+              max={3650}
+              style={{ width: '100%' }}
+              disabled={!deidentificationOptions.shiftDates}
+            />
+          </Form.Item>
+
+          <Form.Item
+            name="timeHandling"
+            label="Times of Day"
+            tooltip="Whole-day shifts leave times unchanged; shift them too, or keep only the hour"
+            hidden={!deidentificationOptions.shiftDates}
+          >
+            <Select options={TIME_HANDLING_OPTIONS} disabled={!deidentificationOptions.shiftDates} />
+          </Form.Item>
+
+          <Form.Item
+            name="timeShiftMinutes"
+            label="Time Shift (minutes)"
+            tooltip="Number of minutes to shift times backward; date times and paired dates such as Study Date carry the crossed day"
+            hidden={!deidentificationOptions.shiftDates || deidentificationOptions.timeHandling !== 'shift'}
+          >
+            <InputNumber min={1} max={1439} style={{ width: '100%' }} />
+          </Form.Item>
+
           <Divider />
 
           {/* Institution & Staff */}
@@ -293,7 +576,7 @@ const DeidentificationSettings = () => {
           <Form.Item
             name="removeInstitution"
             valuePropName="checked"
-            tooltip="Remove institution name and address"
+            tooltip="Remove institution name and address (off: Retain Institution Identity option)"
           >
             <Space>
               <Switch checked={deidentificationOptions.removeInstitution} onChange={(checked) => handleSwitchChange('removeInstitution', checked)} />
@@ -319,7 +602,7 @@ const DeidentificationSettings = () => {
           <Form.Item
             name="anonymizeUIDs"
             valuePropName="checked"
-            tooltip="Generate new UIDs while maintaining relationships"
+            tooltip="Generate new UIDs while maintaining relationships (off: Retain UIDs option)"
           >
             <Space>
               <Switch checked={deidentificationOptions.anonymizeUIDs} onChange={(checked) => handleSwitchChange('anonymizeUIDs', checked)} />
@@ -327,6 +610,31 @@ const DeidentificationSettings = () => {
             </Space>
           </Form.Item>
 
+          <Form.Item
+            name="persistUIDMappings"
+            valuePropName="checked"
+            tooltip="Keep the original-to-new UID table in this browser so later batches reuse it"
+            hidden={!deidentificationOptions.anonymizeUIDs}
+          >
+            <Space direction="vertical" style={{ width: '100%' }}>
+              <Space>
+                <Switch checked={deidentificationOptions.persistUIDMappings} onChange={(checked) => handleSwitchChange('persistUIDMappings', checked)} />
+                <Text>Persist UID Mappings ({uidMappingCount} stored)</Text>
+              </Space>
+              <Space>
+                <Button size="small" onClick={handleExportUIDMappings} disabled={uidMappingCount === 0}>
+                  Export
+                </Button>
+                <Upload accept=".json" showUploadList={false} beforeUpload={handleImportUIDMappings}>
+                  <Button size="small">Import</Button>
+                </Upload>
+                <Button size="small" danger onClick={handleClearUIDMappings} disabled={uidMappingCount === 0}>
+                  Clear
+                </Button>
+              </Space>
+            </Space>
+          </Form.Item>
+
           <Form.Item
             name="keepSeriesInfo"
             valuePropName="checked"
@@ -337,21 +645,196 @@ const DeidentificationSettings = () => {
               <Text>Keep Series Information</Text>
             </Space>
           </Form.Item>
+          <Divider />
+
+          {/* Annex E Options */}
+          <Title level={5}>Profile Options</Title>
+          <Paragraph type="secondary" style={{ fontSize: 12 }}>
+            DICOM PS3.15 Annex E options, recorded in the Deidentification Method Code Sequence.
+            Keeping dates, institution information or UIDs above selects the matching Retain option.
+          </Paragraph>
+          {PROFILE_OPTION_SWITCHES.map(({ name, label, tooltip }) => (
+            <Form.Item key={name} name={name} valuePropName="checked" tooltip={tooltip}>
+              <Space>
+                <Switch checked={deidentificationOptions[name]} onChange={(checked) => handleSwitchChange(name, checked)} />
+                <Text>{label}</Text>
+              </Space>
+            </Form.Item>
+          ))}
         </Form>
 
         <Divider />
 
+        {/* Private Tags */}
+        <div>
+          <Title level={5}>Private Tags</Title>
+          <Radio.Group
+            value={deidentificationOptions.privateTagPolicy}
+            onChange={(e) => dispatch(updateDeidentificationOptions({ privateTagPolicy: e.target.value }))}
+          >
+            <Space direction="vertical">
+              {PRIVATE_TAG_POLICIES.map(({ value, label, description }) => (
+                <Radio key={value} value={value}>
+                  <Text>{label}</Text>
+                  <Paragraph type="secondary" style={{ fontSize: 12, margin: 0 }}>
+                    {description}
+                  </Paragraph>
+                </Radio>
+              ))}
+            </Space>
+          </Radio.Group>
+          {deidentificationOptions.privateTagPolicy === 'keepCreators' && (
+            <Select
+              mode="tags"
+              style={{ width: '100%', marginTop: 12 }}
+              placeholder="Private creators, e.g. SIEMENS MR HEADER"
+              value={deidentificationOptions.keptPrivateCreators ?? []}
+              options={loadedPrivateCreators.map((creator) => ({ value: creator, label: creator }))}
+              onChange={(creators: string[]) =>
+                dispatch(updateDeidentificationOptions({ keptPrivateCreators: creators }))
+              }
+            />
+          )}
+        </div>
+
+        <Divider />
+
+        {/* Burned-in Annotation */}
+        <div>
+          <Title level={5}>Burned-in Annotation</Title>
+          <Paragraph type="secondary" style={{ fontSize: 12 }}>
+            Files are flagged when Burned In Annotation or Recognizable Visual Features is YES, or when
+            their modality (US, SC, OT, XA) or SOP Class often has patient details in the pixels.
+          </Paragraph>
+          <Radio.Group
+            value={deidentificationOptions.burnedInAnnotationPolicy}
+            onChange={(e) => dispatch(updateDeidentificationOptions({ burnedInAnnotationPolicy: e.target.value }))}
+          >
+            <Space direction="vertical">
+              {BURNED_IN_ANNOTATION_POLICIES.map(({ value, label, description }) => (
+                <Radio key={value} value={value}>
+                  <Text>{label}</Text>
+                  <Paragraph type="secondary" style={{ fontSize: 12, margin: 0 }}>
+                    {description}
+                  </Paragraph>
+                </Radio>
+              ))}
+            </Space>
+          </Radio.Group>
+
+          <Title level={5} style={{ marginTop: 16 }}>
+            Non-image Objects
+          </Title>
+          <Paragraph type="secondary" style={{ fontSize: 12 }}>
+            Encapsulated documents, raw data and video can't be displayed, and their payload isn't
+            reached by header deidentification. Stripping empties the embedded document, video or
+            private raw data; rejected files are left out of deidentification and export.
+          </Paragraph>
+          <Space direction="vertical" style={{ width: '100%' }}>
+            {(Object.keys(NON_IMAGE_OBJECT_LABELS) as NonImageObjectKind[]).map((kind) => (
+              <div key={kind} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <Text>{NON_IMAGE_OBJECT_LABELS[kind]}</Text>
+                <Select
+                  size="small"
+                  style={{ width: 160 }}
+                  value={deidentificationOptions.nonImageObjectPolicies[kind]}
+                  options={NON_IMAGE_OBJECT_POLICIES}
+                  onChange={(policy: NonImageObjectPolicy) =>
+                    dispatch(
+                      updateDeidentificationOptions({
+                        nonImageObjectPolicies: { ...deidentificationOptions.nonImageObjectPolicies, [kind]: policy },
+                      })
+                    )
+                  }
+                />
+              </div>
+            ))}
+          </Space>
+
+          <Paragraph type="secondary" style={{ fontSize: 12, marginTop: 12 }}>
+            Mask templates blank the same regions of every file with a matching manufacturer, model, rows
+            and columns. Draw masks with the Redact tool on the original image, then save them as a template.
+          </Paragraph>
+          <List
+            size="small"
+            bordered
+            dataSource={maskTemplates}
+            locale={{ emptyText: 'No mask templates saved' }}
+            renderItem={(template) => (
+              <List.Item
+                actions={[
+                  <Button
+                    key="delete"
+                    type="text"
+                    danger
+                    size="small"
+                    icon={<DeleteOutlined />}
+                    onClick={() => {
+                      const templates = maskTemplates.filter(({ id }) => id !== template.id);
+                      saveMaskTemplates(templates);
+                      dispatch(setMaskTemplates(templates));
+                    }}
+                  />,
+                ]}
+              >
+                <Space direction="vertical" size={0}>
+                  <Text>{template.name}</Text>
+                  <Text type="secondary" style={{ fontSize: 12 }}>
+                    {template.masks.length} mask(s)
+                  </Text>
+                </Space>
+              </List.Item>
+            )}
+          />
+        </div>
+
+        <Divider />
+
+        {/* Project Secret */}
+        <div>
+          <Title level={5}>Project Secret</Title>
+          <Paragraph type="secondary" style={{ fontSize: 12 }}>
+            Keys the pseudonyms for Patient ID, Accession Number and hash rules. Use the same secret
+            everywhere to link a cohort across sessions. It is stored in this browser only and never exported.
+          </Paragraph>
+          <Space.Compact style={{ width: '100%' }}>
+            <Input.Password value={projectSecret} onChange={(e) => setProjectSecret(e.target.value)} />
+            <Tooltip title="Generate a new random secret">
+              <Button icon={<ReloadOutlined />} onClick={() => setProjectSecret(generateProjectSecret())} />
+            </Tooltip>
+            <Button onClick={handleSaveSecret} disabled={!projectSecret}>
+              Save
+            </Button>
+          </Space.Compact>
+        </div>
+
+        <Divider />
+
+        {/* Custom Rules */}
+        <div>
+          <Title level={5}>Custom Rules</Title>
+          <Paragraph type="secondary" style={{ fontSize: 12 }}>
+            Rules run in order after the profile actions. A Keep rule restores an attribute the profile removed.
+          </Paragraph>
+          <CustomRulesEditor />
+        </div>
+
+        <Divider />
+
         {/* Preview of Changes */}
         <div>
           <Title level={5}>Tags to be Modified</Title>
           <Paragraph type="secondary" style={{ fontSize: 12 }}>
-            The following DICOM tags will be removed or modified:
+            The following {modifiedTags.length} DICOM attributes will be removed or modified
+            (hover a tag for its action):
           </Paragraph>
-          <div style={{ marginTop: 12 }}>
-            {modifiedTags.map((tag) => (
-              <Tag key={tag} color="orange" style={{ marginBottom: 8 }}>
-                {tag}
-              </Tag>
+          <div style={{ marginTop: 12, maxHeight: 240, overflowY: 'auto' }}>
+            {modifiedTags.map(({ tag, name, action }) => (
+              <Tooltip key={tag} title={`${formatTag(tag)} · ${PROFILE_ACTION_LABELS[action]}`}>
+                <Tag color={ACTION_COLORS[action]} style={{ marginBottom: 8 }}>
+                  {name}
+                </Tag>
+              </Tooltip>
             ))}
           </div>
         </div>
@@ -369,11 +852,26 @@ const DeidentificationSettings = () => {
                 removePatientID: formValues.removePatientID ?? false,
                 removeDates: formValues.removeDates ?? false,
                 shiftDates: formValues.shiftDates ?? false,
-                dateShiftDays: formValues.dateShiftDays,
+                dateShiftMinDays: formValues.dateShiftMinDays,
+                dateShiftMaxDays: formValues.dateShiftMaxDays,
+                timeHandling: formValues.timeHandling ?? 'keep',
+                timeShiftMinutes: formValues.timeShiftMinutes,
                 removeInstitution: formValues.removeInstitution ?? false,
                 removePhysicians: formValues.removePhysicians ?? false,
                 anonymizeUIDs: formValues.anonymizeUIDs ?? false,
                 keepSeriesInfo: formValues.keepSeriesInfo ?? false,
+                safeHarbor: formValues.safeHarbor ?? false,
+                safeHarborBirthDate: formValues.safeHarborBirthDate ?? 'year',
+                retainPatientCharacteristics: formValues.retainPatientCharacteristics ?? false,
+                retainDeviceIdentity: formValues.retainDeviceIdentity ?? false,
+                cleanDescriptors: formValues.cleanDescriptors ?? false,
+                cleanStructuredContent: formValues.cleanStructuredContent ?? false,
+                cleanGraphics: formValues.cleanGraphics ?? false,
+                persistUIDMappings: formValues.persistUIDMappings ?? false,
+                privateTagPolicy: deidentificationOptions.privateTagPolicy,
+                burnedInAnnotationPolicy: deidentificationOptions.burnedInAnnotationPolicy,
+                nonImageObjectPolicies: deidentificationOptions.nonImageObjectPolicies,
+                recordCrosswalk: deidentificationOptions.recordCrosswalk,
               };
               console.log('Saving deidentification settings:', finalValues);
               dispatch(updateDeidentificationOptions(finalValues));
@@ -398,7 +896,7 @@ const DeidentificationSettings = () => {
           description={
             <div>
               <Paragraph style={{ fontSize: 12, margin: 0 }}>
-                • Patient Address, Telephone, and Accession Number are always removed
+                • Attributes not covered by these options follow the DICOM PS3.15 Annex E Basic Profile
               </Paragraph>
               <Paragraph style={{ fontSize: 12, margin: 0 }}>
                 • Deidentification notes are added to the metadata
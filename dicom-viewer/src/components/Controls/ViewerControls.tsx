@@ -17,6 +17,7 @@ import {
   DownOutlined,
   UpOutlined,
   DownOutlined as DownOutlinedIcon,
+  EyeInvisibleOutlined,
 } from '@ant-design/icons';
 import { useState } from 'react';
 import styles from './ViewerControls.module.scss';
@@ -27,6 +28,8 @@ interface ViewerControlsProps {
   onZoomChange?: (scale: number) => void;
   activeTool?: string;
   currentZoom?: number;
+  // Offer the Redact tool, which only makes sense on the original image
+  canRedact?: boolean;
 }
 
 const ViewerControls = ({
@@ -34,7 +37,8 @@ const ViewerControls = ({
   onReset,
   onZoomChange,
   activeTool = 'WindowLevel',
-  currentZoom = 1.0
+  currentZoom = 1.0,
+  canRedact = false,
 }: ViewerControlsProps) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
 
@@ -66,6 +70,9 @@ const ViewerControls = ({
     { name: 'WindowLevel', icon: <ColumnWidthOutlined />, tooltip: 'Window/Level (W)' },
     { name: 'Length', icon: <LineOutlined />, tooltip: 'Measure Length (L)' },
     { name: 'RectangleROI', icon: <BorderOutlined />, tooltip: 'Rectangle ROI (R)' },
+    ...(canRedact
+      ? [{ name: 'Redact', icon: <EyeInvisibleOutlined />, tooltip: 'Redact: blank a region of every frame on export' }]
+      : []),
   ];
 
   return (
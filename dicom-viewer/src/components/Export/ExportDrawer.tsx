@@ -3,7 +3,7 @@
  * Provides export and download options for deidentified DICOM files
  */
 
-import { Drawer, Button, Space, Typography, Divider, List, Tag, Alert, Radio } from 'antd';
+import { Drawer, Button, Space, Typography, Divider, List, Tag, Alert, Radio, Select } from 'antd';
 import type { RadioChangeEvent } from 'antd';
 import {
   DownloadOutlined,
@@ -11,10 +11,11 @@ import {
   FileTextOutlined,
   SettingOutlined,
   CheckCircleOutlined,
+  WarningOutlined,
 } from '@ant-design/icons';
 import { useState } from 'react';
 import { useAppDispatch, useAppSelector } from '@store';
-import { closeExportDrawer } from '@store/slices/uiSlice';
+import { closeExportDrawer, openVerificationDrawer } from '@store/slices/uiSlice';
 import { addNotification } from '@store/slices/uiSlice';
 import {
   exportDicomFile,
@@ -23,22 +24,45 @@ import {
   exportDeidentificationSettings,
   exportMetadataAsCSV,
   validateFileForExport,
+  OUTPUT_TRANSFER_SYNTAXES,
 } from '@services/export/exportService';
+import { getTransferSyntaxName } from '@services/dicom/transferSyntax';
+import type { BurnedInAnnotationPolicy } from '@store/types';
+import BurnedInAnnotationTag from '@components/Verification/BurnedInAnnotationTag';
 
 const { Title, Text, Paragraph } = Typography;
 
+// How ZIP export handles files flagged for burned-in annotation
+const BURNED_IN_ZIP_HANDLING: Record<BurnedInAnnotationPolicy, string> = {
+  include: 'ZIP export includes them like the other files.',
+  quarantine: 'ZIP export puts them in a quarantine/ folder.',
+  block: 'ZIP export leaves them out.',
+};
+
+// An empty value writes each file in the transfer syntax it already has
+const TRANSFER_SYNTAX_OPTIONS = [
+  { value: '', label: 'Keep current transfer syntax' },
+  ...OUTPUT_TRANSFER_SYNTAXES.map((uid) => ({ value: uid, label: getTransferSyntaxName(uid) })),
+];
+
 const ExportDrawer = () => {
   const dispatch = useAppDispatch();
   const { exportDrawerOpen } = useAppSelector((state) => state.ui);
-  const { originalFiles, deidentifiedFiles, deidentificationOptions, currentFileIndex } = useAppSelector(
-    (state) => state.dicom
-  );
+  const { originalFiles, deidentifiedFiles, deidentificationOptions, currentFileIndex, leakFindingsAcknowledged } =
+    useAppSelector((state) => state.dicom);
   const [exportFormat, setExportFormat] = useState<'single' | 'zip' | 'csv'>('zip');
+  const [outputTransferSyntax, setOutputTransferSyntax] = useState('');
   const [isExporting, setIsExporting] = useState(false);
 
   const hasDeidentifiedFiles = deidentifiedFiles.length > 0;
   const currentFile = deidentifiedFiles[currentFileIndex];
 
+  // Files with residual PHI can't leave until the findings are acknowledged
+  const findingCount = deidentifiedFiles.reduce((count, file) => count + (file.leakFindings?.length ?? 0), 0);
+  const exportBlocked = findingCount > 0 && !leakFindingsAcknowledged;
+
+  const flaggedCount = deidentifiedFiles.filter((file) => file.burnedInAnnotation?.length).length;
+
   const handleExportSingle = async () => {
     if (!currentFile) {
       dispatch(
@@ -65,7 +89,7 @@ const ExportDrawer = () => {
 
     try {
       setIsExporting(true);
-      await exportDicomFile(currentFile);
+      await exportDicomFile(currentFile, outputTransferSyntax || undefined);
       dispatch(
         addNotification({
           type: 'success',
@@ -102,12 +126,21 @@ const ExportDrawer = () => {
       setIsExporting(true);
 
       if (exportFormat === 'zip') {
-        await exportDicomFilesAsZip(deidentifiedFiles);
+        await exportDicomFilesAsZip(
+          deidentifiedFiles,
+          deidentificationOptions.burnedInAnnotationPolicy,
+          outputTransferSyntax || undefined
+        );
         dispatch(
           addNotification({
             type: 'success',
             message: 'Export successful',
-            description: `Downloaded ${deidentifiedFiles.length} file(s) as ZIP`,
+            description:
+              flaggedCount > 0
+                ? `Downloaded ${deidentifiedFiles.length} file(s) as ZIP. ${flaggedCount} flagged for burned-in annotation: ${
+                    BURNED_IN_ZIP_HANDLING[deidentificationOptions.burnedInAnnotationPolicy]
+                  }`
+                : `Downloaded ${deidentifiedFiles.length} file(s) as ZIP`,
           })
         );
       } else if (exportFormat === 'csv') {
@@ -206,6 +239,32 @@ const ExportDrawer = () => {
           />
         )}
 
+        {flaggedCount > 0 && (
+          <Alert
+            message={`${flaggedCount} file(s) may have burned-in annotation`}
+            description={`Their pixels may show patient details. ${
+              BURNED_IN_ZIP_HANDLING[deidentificationOptions.burnedInAnnotationPolicy]
+            }`}
+            type="warning"
+            showIcon
+          />
+        )}
+
+        {exportBlocked && (
+          <Alert
+            message={`${findingCount} residual PHI finding(s)`}
+            description="Verification found original PHI in the deidentified files. Review and acknowledge the findings to export DICOM files or metadata."
+            type="error"
+            showIcon
+            icon={<WarningOutlined />}
+            action={
+              <Button size="small" danger onClick={() => dispatch(openVerificationDrawer())}>
+                Review
+              </Button>
+            }
+          />
+        )}
+
         {/* Export Format Selection */}
         <div>
           <Title level={5}>Export Format</Title>
@@ -237,6 +296,23 @@ const ExportDrawer = () => {
           </Radio.Group>
         </div>
 
+        {/* Output Transfer Syntax */}
+        {exportFormat !== 'csv' && (
+          <div>
+            <Title level={5}>Output Transfer Syntax</Title>
+            <Select
+              value={outputTransferSyntax}
+              onChange={setOutputTransferSyntax}
+              options={TRANSFER_SYNTAX_OPTIONS}
+              style={{ width: '100%' }}
+            />
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              Compressed pixel data is decoded and written again losslessly. Files without pixel data are
+              written as Explicit VR Little Endian.
+            </Text>
+          </div>
+        )}
+
         <Divider />
 
         {/* Export Actions */}
@@ -249,7 +325,7 @@ const ExportDrawer = () => {
                 icon={<DownloadOutlined />}
                 onClick={handleExportSingle}
                 loading={isExporting}
-                disabled={!currentFile}
+                disabled={!currentFile || exportBlocked}
                 block
               >
                 Download Current File
@@ -260,7 +336,7 @@ const ExportDrawer = () => {
                 icon={exportFormat === 'zip' ? <FileZipOutlined /> : <FileTextOutlined />}
                 onClick={handleExportAll}
                 loading={isExporting}
-                disabled={!hasDeidentifiedFiles}
+                disabled={!hasDeidentifiedFiles || exportBlocked}
                 block
               >
                 {exportFormat === 'zip'
@@ -300,9 +376,15 @@ const ExportDrawer = () => {
                     <Text ellipsis style={{ maxWidth: 300 }}>
                       {file.fileName}
                     </Text>
-                    <Tag color={file.status === 'complete' ? 'success' : 'default'}>
-                      {file.status}
-                    </Tag>
+                    <Space size={4}>
+                      <BurnedInAnnotationTag reasons={file.burnedInAnnotation} />
+                      {(file.leakFindings?.length ?? 0) > 0 && (
+                        <Tag color="error">{file.leakFindings?.length} findings</Tag>
+                      )}
+                      <Tag color={file.status === 'complete' ? 'success' : 'default'}>
+                        {file.status}
+                      </Tag>
+                    </Space>
                   </Space>
                 </List.Item>
               )}
@@ -322,7 +404,10 @@ const ExportDrawer = () => {
                 • DICOM files contain deidentified metadata
               </Paragraph>
               <Paragraph style={{ fontSize: 12, margin: 0 }}>
-                • ZIP export includes metadata.json file
+                • ZIP export includes metadata.json file with the verification findings
+              </Paragraph>
+              <Paragraph style={{ fontSize: 12, margin: 0 }}>
+                • DICOM files can be transcoded to another transfer syntax on export
               </Paragraph>
               <Paragraph style={{ fontSize: 12, margin: 0 }}>
                 • Original files are never modified
@@ -8,9 +8,19 @@ import {
   DownloadOutlined,
   QuestionCircleOutlined,
   BellOutlined,
+  SafetyCertificateOutlined,
+  KeyOutlined,
 } from '@ant-design/icons';
 import { useAppDispatch, useAppSelector } from '@store';
-import { toggleUploadDrawer, toggleMetadataDrawer, toggleSettingsDrawer, toggleExportDrawer, toggleNotificationDrawer } from '@store/slices/uiSlice';
+import {
+  toggleUploadDrawer,
+  toggleMetadataDrawer,
+  toggleSettingsDrawer,
+  toggleExportDrawer,
+  toggleNotificationDrawer,
+  toggleVerificationDrawer,
+  toggleVaultDrawer,
+} from '@store/slices/uiSlice';
 import { deidentifyAllFiles } from '@store/slices/dicomThunks';
 
 const { Header: AntHeader } = Layout;
@@ -18,7 +28,9 @@ const { Title } = Typography;
 
 const Header = () => {
   const dispatch = useAppDispatch();
-  const { originalFiles, deidentifiedFiles, isProcessing } = useAppSelector((state) => state.dicom);
+  const { originalFiles, deidentifiedFiles, isProcessing, leakFindingsAcknowledged } = useAppSelector(
+    (state) => state.dicom
+  );
   const { notifications } = useAppSelector((state) => state.ui);
 
   const handleDeidentify = () => {
@@ -32,6 +44,7 @@ const Header = () => {
   const hasFiles = originalFiles.length > 0;
   const hasDeidentified = deidentifiedFiles.length > 0;
   const notificationCount = notifications.length;
+  const findingCount = deidentifiedFiles.reduce((count, file) => count + (file.leakFindings?.length ?? 0), 0);
 
   return (
     <AntHeader
@@ -73,6 +86,22 @@ const Header = () => {
             {hasDeidentified ? 'Re-Deidentify' : 'Deidentify'}
           </Button>
         </Tooltip>
+        <Tooltip title="Verification report: original PHI left in the deidentified files">
+          <Badge
+            count={findingCount}
+            showZero={false}
+            offset={[-2, 2]}
+            color={leakFindingsAcknowledged ? '#faad14' : undefined}
+          >
+            <Button
+              icon={<SafetyCertificateOutlined />}
+              onClick={() => dispatch(toggleVerificationDrawer())}
+              disabled={!hasDeidentified}
+            >
+              Verify
+            </Button>
+          </Badge>
+        </Tooltip>
         <Tooltip title="Export files (Ctrl+E)">
           <Button
             icon={<DownloadOutlined />}
@@ -82,6 +111,14 @@ const Header = () => {
             Export
           </Button>
         </Tooltip>
+        <Tooltip title="Re-identification vault">
+          <Button
+            icon={<KeyOutlined />}
+            onClick={() => dispatch(toggleVaultDrawer())}
+          >
+            Vault
+          </Button>
+        </Tooltip>
         <Tooltip title="View metadata comparison (Ctrl+M)">
           <Button
             icon={<FileTextOutlined />}
@@ -11,26 +11,43 @@ import {
   CheckCircleOutlined,
   MinusCircleOutlined,
   EditOutlined,
+  FilterOutlined,
 } from '@ant-design/icons';
 import { useState, useMemo } from 'react';
-import type { DicomMetadata } from '@store/types';
+import type { DicomMetadata, RedactionReason, TextRedaction } from '@store/types';
+import { flattenTagPaths, formatTag, formatTagPath } from '@utils/dicomTags';
+import { SAFE_HARBOR_METHOD } from '@services/dicom/safeHarbor';
 
 const { Text } = Typography;
 
 interface MetadataComparisonProps {
   originalMetadata: DicomMetadata;
   deidentifiedMetadata: DicomMetadata;
+  redactions?: TextRedaction[];
 }
 
+type ComparisonStatus = 'unchanged' | 'modified' | 'generalized' | 'removed';
+
+// Fields Safe Harbor reduces in precision instead of replacing
+const GENERALIZED_FIELDS = new Set<keyof DicomMetadata>(['patientBirthDate', 'patientAge', 'patientSize', 'patientWeight']);
+
 interface ComparisonRow {
   key: string;
   tag: string;
   originalValue: string | number | Record<string, any> | undefined;
   deidentifiedValue: string | number | Record<string, any> | undefined;
-  status: 'unchanged' | 'modified' | 'removed';
+  status: ComparisonStatus;
 }
 
-const MetadataComparison = ({ originalMetadata, deidentifiedMetadata }: MetadataComparisonProps) => {
+const REDACTION_REASON_LABELS: Record<RedactionReason, string> = {
+  name: 'Patient name',
+  identifier: 'Patient identifier',
+  date: 'Date',
+  phone: 'Phone number',
+  mrn: 'MRN-like',
+};
+
+const MetadataComparison = ({ originalMetadata, deidentifiedMetadata, redactions = [] }: MetadataComparisonProps) => {
   const [searchText, setSearchText] = useState('');
 
   // Build comparison data
@@ -43,6 +60,8 @@ const MetadataComparison = ({ originalMetadata, deidentifiedMetadata }: Metadata
       'Patient Birth Date': 'patientBirthDate',
       'Patient Sex': 'patientSex',
       'Patient Age': 'patientAge',
+      'Patient Size': 'patientSize',
+      'Patient Weight': 'patientWeight',
       'Study Date': 'studyDate',
       'Study Time': 'studyTime',
       'Study Description': 'studyDescription',
@@ -62,16 +81,19 @@ const MetadataComparison = ({ originalMetadata, deidentifiedMetadata }: Metadata
       'Number of Frames': 'numberOfFrames',
     };
 
+    const deidentificationMethod = String(deidentifiedMetadata.allTags?.x00120063 ?? '');
+    const safeHarborApplied = deidentificationMethod.includes(SAFE_HARBOR_METHOD);
+
     Object.entries(tagMappings).forEach(([tagName, key]) => {
-      const originalValue = originalMetadata[key];
-      const deidentifiedValue = deidentifiedMetadata[key];
+      const originalValue = originalMetadata[key] as ComparisonRow['originalValue'];
+      const deidentifiedValue = deidentifiedMetadata[key] as ComparisonRow['deidentifiedValue'];
 
-      let status: 'unchanged' | 'modified' | 'removed' = 'unchanged';
+      let status: ComparisonStatus = 'unchanged';
 
       if (originalValue !== undefined && deidentifiedValue === undefined) {
         status = 'removed';
       } else if (originalValue !== deidentifiedValue) {
-        status = 'modified';
+        status = safeHarborApplied && GENERALIZED_FIELDS.has(key) ? 'generalized' : 'modified';
       }
 
       rows.push({
@@ -83,6 +105,34 @@ const MetadataComparison = ({ originalMetadata, deidentifiedMetadata }: Metadata
       });
     });
 
+    // Attributes nested in sequence items, listed by path
+    const originalPaths = flattenTagPaths(originalMetadata.allTags ?? {});
+    const deidentifiedPaths = flattenTagPaths(deidentifiedMetadata.allTags ?? {});
+    const nestedPaths = new Set(
+      [...Object.keys(originalPaths), ...Object.keys(deidentifiedPaths)].filter((path) => path.includes('['))
+    );
+
+    [...nestedPaths].sort().forEach((path) => {
+      const originalValue = originalPaths[path] as ComparisonRow['originalValue'];
+      const deidentifiedValue = deidentifiedPaths[path] as ComparisonRow['deidentifiedValue'];
+
+      let status: ComparisonStatus = 'unchanged';
+
+      if (originalValue !== undefined && deidentifiedValue === undefined) {
+        status = 'removed';
+      } else if (JSON.stringify(originalValue) !== JSON.stringify(deidentifiedValue)) {
+        status = 'modified';
+      }
+
+      rows.push({
+        key: path,
+        tag: formatTagPath(path),
+        originalValue,
+        deidentifiedValue,
+        status,
+      });
+    });
+
     return rows;
   }, [originalMetadata, deidentifiedMetadata]);
 
@@ -106,6 +156,7 @@ const MetadataComparison = ({ originalMetadata, deidentifiedMetadata }: Metadata
       original: originalMetadata,
       deidentified: deidentifiedMetadata,
       changes: comparisonData.filter((row) => row.status !== 'unchanged'),
+      redactions,
     };
 
     const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
@@ -133,6 +184,9 @@ const MetadataComparison = ({ originalMetadata, deidentifiedMetadata }: Metadata
           {record.status === 'modified' && (
             <EditOutlined style={{ color: '#faad14', fontSize: 14 }} />
           )}
+          {record.status === 'generalized' && (
+            <FilterOutlined style={{ color: '#1677ff', fontSize: 14 }} />
+          )}
           {record.status === 'removed' && (
             <MinusCircleOutlined style={{ color: '#ff4d4f', fontSize: 14 }} />
           )}
@@ -172,14 +226,61 @@ const MetadataComparison = ({ originalMetadata, deidentifiedMetadata }: Metadata
           );
         }
 
+        if (record.status === 'generalized') {
+          return (
+            <Space>
+              <Text style={{ color: '#000' }}>{displayValue}</Text>
+              <Tag color="processing">GENERALISED</Tag>
+            </Space>
+          );
+        }
+
         return <Text style={{ color: '#000' }}>{displayValue}</Text>;
       },
     },
   ];
 
+  const redactionColumns: ColumnType<TextRedaction>[] = [
+    {
+      title: 'Tag',
+      dataIndex: 'tag',
+      key: 'tag',
+      width: '15%',
+      render: (tag: string) => <Text strong>{formatTag(tag)}</Text>,
+    },
+    {
+      title: 'Original',
+      dataIndex: 'original',
+      key: 'original',
+      width: '30%',
+    },
+    {
+      title: 'Redacted',
+      dataIndex: 'redacted',
+      key: 'redacted',
+      width: '30%',
+    },
+    {
+      title: 'Matches',
+      dataIndex: 'matches',
+      key: 'matches',
+      width: '25%',
+      render: (matches: TextRedaction['matches']) => (
+        <Space size={4} wrap>
+          {matches.map(({ text, reason }, index) => (
+            <Tooltip key={index} title={REDACTION_REASON_LABELS[reason]}>
+              <Tag color="error">{text}</Tag>
+            </Tooltip>
+          ))}
+        </Space>
+      ),
+    },
+  ];
+
   const changedCount = comparisonData.filter((row) => row.status !== 'unchanged').length;
   const removedCount = comparisonData.filter((row) => row.status === 'removed').length;
   const modifiedCount = comparisonData.filter((row) => row.status === 'modified').length;
+  const generalizedCount = comparisonData.filter((row) => row.status === 'generalized').length;
 
   return (
     <div style={{ padding: '16px 0' }}>
@@ -196,6 +297,11 @@ const MetadataComparison = ({ originalMetadata, deidentifiedMetadata }: Metadata
               <Tag color="warning" style={{ margin: '0 4px' }}>
                 {modifiedCount} modified
               </Tag>
+              {generalizedCount > 0 && (
+                <Tag color="processing" style={{ margin: '0 4px' }}>
+                  {generalizedCount} generalised
+                </Tag>
+              )}
             </Text>
           </div>
         }
@@ -236,10 +342,26 @@ const MetadataComparison = ({ originalMetadata, deidentifiedMetadata }: Metadata
         rowClassName={(record) => {
           if (record.status === 'removed') return 'row-removed';
           if (record.status === 'modified') return 'row-modified';
+          if (record.status === 'generalized') return 'row-generalized';
           return '';
         }}
       />
 
+      {/* Free-text Redactions */}
+      {redactions.length > 0 && (
+        <div style={{ marginTop: 16 }}>
+          <Text strong>Free-text Redactions ({redactions.length})</Text>
+          <Table
+            columns={redactionColumns}
+            dataSource={redactions.map((redaction, index) => ({ ...redaction, key: `${redaction.tag}-${index}` }))}
+            pagination={false}
+            size="small"
+            bordered
+            style={{ marginTop: 8 }}
+          />
+        </div>
+      )}
+
       {/* Legend */}
       <div style={{ marginTop: 16, padding: '12px', background: '#fff', borderRadius: 4 }}>
         <Text type="secondary" style={{ fontSize: 12, marginRight: 16 }}>
@@ -258,6 +380,12 @@ const MetadataComparison = ({ originalMetadata, deidentifiedMetadata }: Metadata
               Modified
             </Text>
           </Space>
+          <Space size="small">
+            <FilterOutlined style={{ color: '#1677ff' }} />
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              Generalised
+            </Text>
+          </Space>
           <Space size="small">
             <MinusCircleOutlined style={{ color: '#ff4d4f' }} />
             <Text type="secondary" style={{ fontSize: 12 }}>
@@ -4,10 +4,12 @@
  */
 
 import { Drawer, Tabs, Empty, Typography } from 'antd';
-import { FileTextOutlined, SwapOutlined } from '@ant-design/icons';
+import { FileTextOutlined, SwapOutlined, LockOutlined, ApartmentOutlined } from '@ant-design/icons';
 import { useAppDispatch, useAppSelector } from '@store';
 import { closeMetadataDrawer } from '@store/slices/uiSlice';
 import MetadataComparison from './MetadataComparison';
+import PrivateTagGroups from './PrivateTagGroups';
+import StructuredReportTree from './StructuredReportTree';
 
 const { Text } = Typography;
 const { TabPane } = Tabs;
@@ -23,6 +25,7 @@ const MetadataDrawer = () => {
   const hasOriginalMetadata = currentOriginalFile?.metadata;
   const hasDeidentifiedMetadata = currentDeidentifiedFile?.metadata;
   const hasComparison = hasOriginalMetadata && hasDeidentifiedMetadata;
+  const hasStructuredContent = Array.isArray(currentOriginalFile?.metadata?.allTags?.['x0040a730']);
 
   return (
     <Drawer
@@ -61,6 +64,7 @@ const MetadataDrawer = () => {
               <MetadataComparison
                 originalMetadata={currentOriginalFile.metadata!}
                 deidentifiedMetadata={currentDeidentifiedFile.metadata!}
+                redactions={currentDeidentifiedFile.redactions}
               />
             ) : (
               <Empty
@@ -73,6 +77,40 @@ const MetadataDrawer = () => {
             )}
           </TabPane>
 
+          {/* Private Elements by Creator */}
+          <TabPane
+            tab={
+              <span>
+                <LockOutlined />
+                Private
+              </span>
+            }
+            key="private"
+          >
+            <PrivateTagGroups
+              originalMetadata={currentOriginalFile.metadata!}
+              deidentifiedMetadata={currentDeidentifiedFile?.metadata}
+            />
+          </TabPane>
+
+          {/* Structured Report Content Tree */}
+          {hasStructuredContent && (
+            <TabPane
+              tab={
+                <span>
+                  <ApartmentOutlined />
+                  SR Content
+                </span>
+              }
+              key="structuredReport"
+            >
+              <StructuredReportTree
+                originalMetadata={currentOriginalFile.metadata!}
+                deidentifiedMetadata={currentDeidentifiedFile?.metadata}
+              />
+            </TabPane>
+          )}
+
           {/* Original Metadata View */}
           <TabPane
             tab={
@@ -0,0 +1,102 @@
+/**
+ * Private Tag Groups Component
+ * Lists private elements under the creator block that reserved them, with
+ * what the private tag policy kept in the deidentified file
+ */
+
+import { Collapse, Table, Tag, Empty, Space, Typography } from 'antd';
+import type { ColumnType } from 'antd/es/table';
+import { useMemo } from 'react';
+import type { DicomMetadata } from '@store/types';
+import { formatTag, groupPrivateTags } from '@utils/dicomTags';
+
+const { Text } = Typography;
+
+interface PrivateTagGroupsProps {
+  originalMetadata: DicomMetadata;
+  deidentifiedMetadata?: DicomMetadata;
+}
+
+interface PrivateTagRow {
+  key: string;
+  tag: string;
+  originalValue: unknown;
+  deidentifiedValue: unknown;
+}
+
+const formatValue = (value: unknown) => (typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+const PrivateTagGroups = ({ originalMetadata, deidentifiedMetadata }: PrivateTagGroupsProps) => {
+  const blocks = useMemo(() => groupPrivateTags(originalMetadata.allTags ?? {}), [originalMetadata]);
+  const deidentifiedTags = deidentifiedMetadata?.allTags ?? {};
+
+  if (blocks.length === 0) {
+    return <Empty description="No private elements in this file" />;
+  }
+
+  const columns: ColumnType<PrivateTagRow>[] = [
+    {
+      title: 'Tag',
+      dataIndex: 'tag',
+      key: 'tag',
+      width: '20%',
+      render: (tag: string) => <Text strong>{formatTag(tag)}</Text>,
+    },
+    {
+      title: 'Original',
+      dataIndex: 'originalValue',
+      key: 'originalValue',
+      width: '40%',
+      render: (value: unknown) => <Text>{formatValue(value)}</Text>,
+    },
+    {
+      title: 'Deidentified',
+      dataIndex: 'deidentifiedValue',
+      key: 'deidentifiedValue',
+      width: '40%',
+      render: (value: unknown) =>
+        value === undefined ? <Tag color="error">REMOVED</Tag> : <Text>{formatValue(value)}</Text>,
+    },
+  ];
+
+  return (
+    <div style={{ padding: '16px 0' }}>
+      <Collapse
+        items={blocks.map(({ group, block, creator, tags }) => {
+          const keptCount = deidentifiedMetadata
+            ? tags.filter((tag) => deidentifiedTags[tag] !== undefined).length
+            : undefined;
+
+          return {
+            key: `${group}${block}`,
+            label: (
+              <Space>
+                <Text strong>{formatTag(`x${group}${block}xx`)}</Text>
+                <Text>{creator ?? <Text type="secondary">No private creator</Text>}</Text>
+                <Tag>{tags.length} elements</Tag>
+                {keptCount !== undefined && (
+                  <Tag color={keptCount > 0 ? 'warning' : 'success'}>{keptCount} kept</Tag>
+                )}
+              </Space>
+            ),
+            children: (
+              <Table
+                columns={columns}
+                dataSource={tags.map((tag) => ({
+                  key: tag,
+                  tag,
+                  originalValue: originalMetadata.allTags?.[tag],
+                  deidentifiedValue: deidentifiedMetadata ? deidentifiedTags[tag] : undefined,
+                }))}
+                pagination={false}
+                size="small"
+              />
+            ),
+          };
+        })}
+      />
+    </div>
+  );
+};
+
+export default PrivateTagGroups;
@@ -0,0 +1,160 @@
+/**
+ * Structured Report Tree Component
+ * Shows the content tree of an SR document as concept names with their
+ * values, the original and deidentified values side by side
+ */
+
+import { Table, Tag, Empty, Typography } from 'antd';
+import type { ColumnType } from 'antd/es/table';
+import { useMemo } from 'react';
+import type { DicomMetadata } from '@store/types';
+
+const { Text } = Typography;
+
+const CONTENT_SEQUENCE = 'x0040a730';
+
+type TagValues = Record<string, unknown>;
+
+interface StructuredReportTreeProps {
+  originalMetadata: DicomMetadata;
+  deidentifiedMetadata?: DicomMetadata;
+}
+
+interface ContentItemRow {
+  key: string;
+  concept: string;
+  valueType: string;
+  originalValue?: string;
+  deidentifiedValue?: string;
+  // False when the item is missing from the deidentified content tree
+  kept: boolean;
+  children?: ContentItemRow[];
+}
+
+const getItems = (tags: TagValues | undefined, tag: string) =>
+  Array.isArray(tags?.[tag]) ? (tags[tag] as TagValues[]) : [];
+
+const getString = (tags: TagValues | undefined, tag: string) =>
+  tags?.[tag] === undefined ? undefined : String(tags[tag]);
+
+// Code Meaning of the first item of a code sequence
+const getCodeMeaning = (tags: TagValues | undefined, tag: string) => getString(getItems(tags, tag)[0], 'x00080104');
+
+/**
+ * Read the value of a content item by its Value Type
+ */
+function getContentValue(item: TagValues | undefined): string | undefined {
+  switch (getString(item, 'x0040a040')) {
+    case 'TEXT':
+      return getString(item, 'x0040a160');
+    case 'PNAME':
+      return getString(item, 'x0040a123');
+    case 'DATE':
+      return getString(item, 'x0040a121');
+    case 'DATETIME':
+      return getString(item, 'x0040a120');
+    case 'TIME':
+      return getString(item, 'x0040a122');
+    case 'UIDREF':
+      return getString(item, 'x0040a124');
+    case 'CODE':
+      return getCodeMeaning(item, 'x0040a168');
+    case 'NUM': {
+      const measured = getItems(item, 'x0040a300')[0];
+      const value = getString(measured, 'x0040a30a');
+      const units = getString(getItems(measured, 'x004008ea')[0], 'x00080100');
+      return value === undefined ? undefined : `${value}${units ? ` ${units}` : ''}`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build rows for the items of a content sequence, pairing each original item
+ * with the deidentified item at the same position
+ */
+function buildRows(originalItems: TagValues[], deidentifiedItems: TagValues[] | undefined, prefix: string): ContentItemRow[] {
+  return originalItems.map((item, index) => {
+    const deidentifiedItem = deidentifiedItems?.[index];
+    const key = `${prefix}${index}`;
+    const children = buildRows(
+      getItems(item, CONTENT_SEQUENCE),
+      deidentifiedItem ? getItems(deidentifiedItem, CONTENT_SEQUENCE) : undefined,
+      `${key}.`
+    );
+
+    return {
+      key,
+      concept: getCodeMeaning(item, 'x0040a043') ?? '',
+      valueType: getString(item, 'x0040a040') ?? '',
+      originalValue: getContentValue(item),
+      deidentifiedValue: getContentValue(deidentifiedItem),
+      kept: !!deidentifiedItem,
+      children: children.length > 0 ? children : undefined,
+    };
+  });
+}
+
+const StructuredReportTree = ({ originalMetadata, deidentifiedMetadata }: StructuredReportTreeProps) => {
+  const rows = useMemo(
+    () =>
+      buildRows(
+        getItems(originalMetadata.allTags, CONTENT_SEQUENCE),
+        deidentifiedMetadata ? getItems(deidentifiedMetadata.allTags, CONTENT_SEQUENCE) : undefined,
+        ''
+      ),
+    [originalMetadata, deidentifiedMetadata]
+  );
+
+  if (rows.length === 0) {
+    return <Empty description="No structured report content in this file" />;
+  }
+
+  const columns: ColumnType<ContentItemRow>[] = [
+    {
+      title: 'Concept',
+      dataIndex: 'concept',
+      key: 'concept',
+      width: '30%',
+      render: (concept: string) => <Text strong>{concept || <Text type="secondary">Unnamed</Text>}</Text>,
+    },
+    {
+      title: 'Type',
+      dataIndex: 'valueType',
+      key: 'valueType',
+      width: '12%',
+      render: (valueType: string) => <Tag>{valueType}</Tag>,
+    },
+    {
+      title: 'Original',
+      dataIndex: 'originalValue',
+      key: 'originalValue',
+      width: '29%',
+      render: (value?: string) => <Text>{value ?? ''}</Text>,
+    },
+    {
+      title: 'Deidentified',
+      dataIndex: 'deidentifiedValue',
+      key: 'deidentifiedValue',
+      width: '29%',
+      render: (value: string | undefined, row: ContentItemRow) => {
+        if (!deidentifiedMetadata) {
+          return null;
+        }
+        if (!row.kept) {
+          return <Tag color="error">REMOVED</Tag>;
+        }
+        return value !== row.originalValue ? <Text type="warning">{value ?? ''}</Text> : <Text>{value ?? ''}</Text>;
+      },
+    },
+  ];
+
+  return (
+    <div style={{ padding: '16px 0' }}>
+      <Table columns={columns} dataSource={rows} pagination={false} size="small" expandable={{ defaultExpandAllRows: true }} />
+    </div>
+  );
+};
+
+export default StructuredReportTree;
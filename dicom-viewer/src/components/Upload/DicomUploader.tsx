@@ -6,6 +6,7 @@ import {
   CloseCircleOutlined,
   LoadingOutlined,
   FileImageOutlined,
+  FileAddOutlined,
 } from '@ant-design/icons';
 import type { UploadProps } from 'antd';
 import { useAppDispatch, useAppSelector } from '@store';
@@ -13,7 +14,10 @@ import { closeUploadDrawer } from '@store/slices/uiSlice';
 import { useDicomUpload } from '@hooks/useDicomUpload';
 import { formatFileSize } from '@services/dicom/validator';
 import { formatDicomDate } from '@services/dicom/parser';
+import { getTransferSyntaxName } from '@services/dicom/transferSyntax';
 import { useRef, useEffect } from 'react';
+import BurnedInAnnotationTag from '@components/Verification/BurnedInAnnotationTag';
+import NonImageObjectTag from '@components/Verification/NonImageObjectTag';
 import styles from './Styles.module.scss';
 
 const { Dragger } = Upload;
@@ -31,10 +35,11 @@ const DicomUploader = () => {
   } = useDicomUpload();
   const uploadedFilesRef = useRef<Set<string>>(new Set());
 
+  // Any file may be DICOM: extensionless files, DICOMDIRs and ZIP archives are
+  // recognized by their content once the upload is ingested
   const uploadProps: UploadProps = {
     name: 'file',
     multiple: true,
-    accept: '.dcm,.dicom',
     beforeUpload: (file, fileList) => {
       console.log('beforeUpload called - file:', file.name, 'fileList length:', fileList.length);
 
@@ -42,19 +47,21 @@ const DicomUploader = () => {
       if (file === fileList[fileList.length - 1]) {
         console.log('Processing batch of', fileList.length, 'files');
 
-        // Filter out duplicates based on name and size
-        const newFiles = fileList.filter(f => {
-          const key = `${f.name}-${f.size}-${f.lastModified}`;
-          if (uploadedFilesRef.current.has(key)) {
-            console.log('Skipping duplicate:', f.name);
-            return false;
-          }
-          uploadedFilesRef.current.add(key);
-          return true;
-        });
+        // Name files in a folder by their path, and filter out duplicates based on path and size
+        const newFiles = fileList
+          .map((f) => ({ file: f as File, fileName: f.webkitRelativePath || f.name }))
+          .filter(({ file: f, fileName }) => {
+            const key = `${fileName}-${f.size}-${f.lastModified}`;
+            if (uploadedFilesRef.current.has(key)) {
+              console.log('Skipping duplicate:', fileName);
+              return false;
+            }
+            uploadedFilesRef.current.add(key);
+            return true;
+          });
 
         if (newFiles.length > 0) {
-          console.log('Uploading', newFiles.length, 'new files:', newFiles.map(f => f.name));
+          console.log('Uploading', newFiles.length, 'new files:', newFiles.map(f => f.fileName));
           handleFileUpload(newFiles);
         }
       }
@@ -129,8 +136,10 @@ const DicomUploader = () => {
       <Space direction="vertical" size="large" style={{ width: '100%' }}>
         {/* Upload Area */}
         <div>
+          {/* In directory mode, dropped folders are walked through the directory entries API */}
           <Dragger
             {...uploadProps}
+            directory
             style={{
               background: 'linear-gradient(135deg, #1a1a2e 0%, #16213e 100%)',
               border: '2px dashed rgba(64, 150, 255, 0.4)',
@@ -142,15 +151,21 @@ const DicomUploader = () => {
               <InboxOutlined style={{ fontSize: 64, color: '#4096ff' }} />
             </p>
             <p className="ant-upload-text" style={{ fontSize: 18, fontWeight: 600, color: '#fff', marginTop: 16 }}>
-              Click or drag DICOM files here
+              Click to pick a folder, or drag files and folders here
             </p>
             <p className="ant-upload-hint" style={{ fontSize: 14, color: '#aaa', marginTop: 8 }}>
-              Support for single or multiple file upload
+              DICOM files with or without an extension, CD and PACS exports with a{' '}
+              <Text code style={{ background: 'rgba(64, 150, 255, 0.2)', color: '#4096ff', padding: '2px 8px', borderRadius: 4 }}>DICOMDIR</Text>, and{' '}
+              <Text code style={{ background: 'rgba(64, 150, 255, 0.2)', color: '#4096ff', padding: '2px 8px', borderRadius: 4 }}>.zip</Text> archives
               <br />
-              Accepts <Text code style={{ background: 'rgba(64, 150, 255, 0.2)', color: '#4096ff', padding: '2px 8px', borderRadius: 4 }}>.dcm</Text> and{' '}
-              <Text code style={{ background: 'rgba(64, 150, 255, 0.2)', color: '#4096ff', padding: '2px 8px', borderRadius: 4 }}>.dicom</Text> files (max 100MB per file)
+              Files are recognized by their DICM header (max 100MB per file)
             </p>
           </Dragger>
+          <Upload {...uploadProps}>
+            <Button icon={<FileAddOutlined />} style={{ marginTop: 12 }}>
+              Select Files
+            </Button>
+          </Upload>
         </div>
 
         {/* Statistics */}
@@ -265,6 +280,8 @@ const DicomUploader = () => {
                     <Space>
                       <Text strong style={{ color: '#fff' }}>{file.fileName}</Text>
                       {getStatusTag(file.status)}
+                      <BurnedInAnnotationTag reasons={file.burnedInAnnotation} />
+                      <NonImageObjectTag metadata={file.metadata} />
                     </Space>
                   }
                   description={
@@ -287,6 +304,10 @@ const DicomUploader = () => {
                                 Dimensions: {file.metadata.columns} × {file.metadata.rows}
                               </Text>
                             )}
+                            <Text type="secondary" style={{ fontSize: 12, color: '#999' }}>
+                              Transfer Syntax: {getTransferSyntaxName(file.metadata.transferSyntaxUID)}
+                              {file.metadata.fileMetaAdded && ' (no Part 10 header)'}
+                            </Text>
                           </>
                         )}
                         {(file.status === 'processing' || file.status === 'uploading') && (
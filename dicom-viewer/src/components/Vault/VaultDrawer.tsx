@@ -0,0 +1,299 @@
+/**
+ * Vault Drawer Component
+ * Records the crosswalk from pseudonyms back to original identities, saves it
+ * as a passphrase-encrypted vault file, and re-identifies a deidentified file
+ * from an imported vault
+ */
+
+import { Drawer, Button, Space, Typography, Alert, Switch, Input, Upload, Divider, Descriptions, Tag } from 'antd';
+import { KeyOutlined, LockOutlined, UnlockOutlined, DownloadOutlined, UploadOutlined } from '@ant-design/icons';
+import { useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@store';
+import { addNotification, closeVaultDrawer } from '@store/slices/uiSlice';
+import { updateDeidentificationOptions } from '@store/slices/dicomSlice';
+import type { CrosswalkEntry } from '@store/types';
+import { parseDicomBuffer } from '@services/dicom/parser';
+import {
+  MIN_PASSPHRASE_LENGTH,
+  exportCrosswalkVault,
+  importCrosswalkVault,
+  findCrosswalkEntry,
+  reidentifyDicom,
+} from '@services/dicom/reidentificationVault';
+import { downloadFile } from '@services/export/exportService';
+
+const { Text, Paragraph } = Typography;
+
+interface ReidentificationTarget {
+  file: File;
+  entry: CrosswalkEntry;
+}
+
+const VaultDrawer = () => {
+  const dispatch = useAppDispatch();
+  const { vaultDrawerOpen } = useAppSelector((state) => state.ui);
+  const { crosswalk, deidentificationOptions } = useAppSelector((state) => state.dicom);
+
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  const [vaultFile, setVaultFile] = useState<File>();
+  const [vaultPassphrase, setVaultPassphrase] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [vaultEntries, setVaultEntries] = useState<CrosswalkEntry[]>();
+  const [target, setTarget] = useState<ReidentificationTarget>();
+
+  const passphraseError =
+    passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `At least ${MIN_PASSPHRASE_LENGTH} characters`
+      : confirmation.length > 0 && confirmation !== passphrase
+        ? 'The passphrases do not match'
+        : undefined;
+  const canExport =
+    crosswalk.length > 0 && passphrase.length >= MIN_PASSPHRASE_LENGTH && confirmation === passphrase && !exporting;
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await exportCrosswalkVault(crosswalk, passphrase);
+      setPassphrase('');
+      setConfirmation('');
+      dispatch(
+        addNotification({
+          type: 'success',
+          message: 'Vault saved',
+          description: `${crosswalk.length} crosswalk entries were encrypted. Keep the vault and its passphrase apart from the exported files.`,
+        })
+      );
+    } catch (error) {
+      dispatch(
+        addNotification({
+          type: 'error',
+          message: 'Vault export failed',
+          description: error instanceof Error ? error.message : 'Unknown error',
+        })
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!vaultFile) return;
+    setImporting(true);
+    try {
+      const entries = await importCrosswalkVault(vaultFile, vaultPassphrase);
+      setVaultEntries(entries);
+      setTarget(undefined);
+      setVaultPassphrase('');
+      dispatch(
+        addNotification({
+          type: 'success',
+          message: 'Vault unlocked',
+          description: `${entries.length} crosswalk entries were decrypted`,
+        })
+      );
+    } catch (error) {
+      dispatch(
+        addNotification({
+          type: 'error',
+          message: 'Vault import failed',
+          description: error instanceof Error ? error.message : 'Unknown error',
+        })
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleSelectTarget = async (file: File) => {
+    try {
+      const { metadata } = parseDicomBuffer(await file.arrayBuffer());
+      const entry = findCrosswalkEntry(vaultEntries ?? [], metadata);
+      if (!entry) {
+        setTarget(undefined);
+        dispatch(
+          addNotification({
+            type: 'warning',
+            message: 'Not in the vault',
+            description: `${file.name} was not deidentified in the session this vault records`,
+          })
+        );
+        return;
+      }
+      setTarget({ file, entry });
+    } catch (error) {
+      dispatch(
+        addNotification({
+          type: 'error',
+          message: 'Could not read the file',
+          description: error instanceof Error ? error.message : 'Unknown error',
+        })
+      );
+    }
+  };
+
+  const handleReidentify = async () => {
+    if (!target) return;
+    try {
+      const buffer = await reidentifyDicom(await target.file.arrayBuffer(), target.entry);
+      downloadFile(new Blob([buffer], { type: 'application/dicom' }), target.entry.fileName);
+      dispatch(
+        addNotification({
+          type: 'success',
+          message: 'File re-identified',
+          description: `Restored the identity of ${target.file.name} as ${target.entry.fileName}`,
+        })
+      );
+    } catch (error) {
+      dispatch(
+        addNotification({
+          type: 'error',
+          message: 'Re-identification failed',
+          description: error instanceof Error ? error.message : 'Unknown error',
+        })
+      );
+    }
+  };
+
+  return (
+    <Drawer
+      title={
+        <Space>
+          <KeyOutlined />
+          <span>Re-identification Vault</span>
+        </Space>
+      }
+      placement="right"
+      width={520}
+      onClose={() => dispatch(closeVaultDrawer())}
+      open={vaultDrawerOpen}
+    >
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <Alert
+          message="The vault links pseudonyms back to real patients"
+          description="Anyone holding the vault and its passphrase can re-identify the exported files. It is never written into a DICOM export; store it separately."
+          type="warning"
+          showIcon
+        />
+
+        <Divider orientation="left" style={{ margin: '8px 0' }}>
+          Record
+        </Divider>
+        <Space>
+          <Switch
+            checked={deidentificationOptions.recordCrosswalk}
+            onChange={(checked) => dispatch(updateDeidentificationOptions({ recordCrosswalk: checked }))}
+          />
+          <Text>Record the crosswalk when deidentifying</Text>
+        </Space>
+        <Text type="secondary">
+          {crosswalk.length > 0
+            ? `${crosswalk.length} file(s) recorded in the last deidentification`
+            : 'Nothing recorded yet; turn recording on and deidentify'}
+        </Text>
+
+        <Divider orientation="left" style={{ margin: '8px 0' }}>
+          Save Vault
+        </Divider>
+        <Input.Password
+          placeholder={`Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          status={passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH ? 'error' : undefined}
+        />
+        <Input.Password
+          placeholder="Confirm passphrase"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          status={confirmation.length > 0 && confirmation !== passphrase ? 'error' : undefined}
+        />
+        {passphraseError && <Text type="danger">{passphraseError}</Text>}
+        <Button type="primary" icon={<LockOutlined />} onClick={handleExport} disabled={!canExport} loading={exporting} block>
+          Encrypt and Download Vault
+        </Button>
+
+        <Divider orientation="left" style={{ margin: '8px 0' }}>
+          Re-identify
+        </Divider>
+        <Upload
+          accept=".json"
+          maxCount={1}
+          beforeUpload={(file) => {
+            setVaultFile(file);
+            setVaultEntries(undefined);
+            setTarget(undefined);
+            return false;
+          }}
+          onRemove={() => {
+            setVaultFile(undefined);
+            setVaultEntries(undefined);
+            setTarget(undefined);
+          }}
+        >
+          <Button icon={<UploadOutlined />}>Select Vault File</Button>
+        </Upload>
+        <Space.Compact style={{ width: '100%' }}>
+          <Input.Password
+            placeholder="Vault passphrase"
+            value={vaultPassphrase}
+            onChange={(e) => setVaultPassphrase(e.target.value)}
+            onPressEnter={handleImport}
+          />
+          <Button
+            icon={<UnlockOutlined />}
+            onClick={handleImport}
+            disabled={!vaultFile || !vaultPassphrase}
+            loading={importing}
+          >
+            Unlock
+          </Button>
+        </Space.Compact>
+
+        {vaultEntries && (
+          <>
+            <Paragraph type="secondary" style={{ margin: 0 }}>
+              {vaultEntries.length} entries unlocked. Select a deidentified file to restore its identity.
+            </Paragraph>
+            <Upload
+              maxCount={1}
+              beforeUpload={(file) => {
+                handleSelectTarget(file);
+                return false;
+              }}
+              onRemove={() => setTarget(undefined)}
+            >
+              <Button icon={<UploadOutlined />}>Select Deidentified File</Button>
+            </Upload>
+          </>
+        )}
+
+        {target && (
+          <>
+            <Descriptions column={1} size="small" bordered>
+              <Descriptions.Item label="Patient Name">
+                <Space wrap size={4}>
+                  <Tag>{target.entry.pseudonymPatientName || '(empty)'}</Tag>→<Tag color="error">{target.entry.originalPatientName || '(empty)'}</Tag>
+                </Space>
+              </Descriptions.Item>
+              <Descriptions.Item label="Patient ID">
+                <Space wrap size={4}>
+                  <Tag>{target.entry.pseudonymPatientID || '(empty)'}</Tag>→<Tag color="error">{target.entry.originalPatientID || '(empty)'}</Tag>
+                </Space>
+              </Descriptions.Item>
+              <Descriptions.Item label="Date Offset">{target.entry.dateOffsetDays} day(s)</Descriptions.Item>
+              <Descriptions.Item label="UIDs">{target.entry.uids.length} restored</Descriptions.Item>
+              <Descriptions.Item label="Original File">{target.entry.fileName}</Descriptions.Item>
+            </Descriptions>
+            <Button type="primary" danger icon={<DownloadOutlined />} onClick={handleReidentify} block>
+              Download Re-identified File
+            </Button>
+          </>
+        )}
+      </Space>
+    </Drawer>
+  );
+};
+
+export default VaultDrawer;
@@ -0,0 +1,37 @@
+/**
+ * Burned-in Annotation Tag Component
+ * Warning badge for files whose pixels may show patient details, with the
+ * reasons in its tooltip
+ */
+
+import { Tag, Tooltip } from 'antd';
+import { WarningOutlined } from '@ant-design/icons';
+
+interface BurnedInAnnotationTagProps {
+  reasons?: string[];
+  className?: string;
+}
+
+const BurnedInAnnotationTag = ({ reasons, className }: BurnedInAnnotationTagProps) => {
+  if (!reasons?.length) {
+    return null;
+  }
+
+  return (
+    <Tooltip
+      title={
+        <>
+          {reasons.map((reason) => (
+            <div key={reason}>{reason}</div>
+          ))}
+        </>
+      }
+    >
+      <Tag color="warning" icon={<WarningOutlined />} className={className}>
+        Burned-in text?
+      </Tag>
+    </Tooltip>
+  );
+};
+
+export default BurnedInAnnotationTag;
@@ -0,0 +1,42 @@
+/**
+ * Non-image Object Tag Component
+ * Names the SOP Class of an encapsulated document, raw data or video object
+ * and what its policy does with it, since there is no image to show
+ */
+
+import { Space, Tag } from 'antd';
+import { FileTextOutlined } from '@ant-design/icons';
+import { useAppSelector } from '@store';
+import type { DicomMetadata, NonImageObjectPolicy } from '@store/types';
+import { getNonImageObjectKind, getSOPClassUID } from '@services/dicom/nonImageObjects';
+import { SOP_CLASSES } from '@utils/constants';
+
+interface NonImageObjectTagProps {
+  metadata?: DicomMetadata;
+  className?: string;
+}
+
+const POLICY_OUTCOMES: Record<NonImageObjectPolicy, { color: string; text: string }> = {
+  allow: { color: 'warning', text: 'Exported with its document' },
+  strip: { color: 'processing', text: 'Document stripped on export' },
+  reject: { color: 'error', text: 'Rejected' },
+};
+
+const NonImageObjectTag = ({ metadata, className }: NonImageObjectTagProps) => {
+  const policies = useAppSelector((state) => state.dicom.deidentificationOptions.nonImageObjectPolicies);
+  const sopClassUID = metadata ? getSOPClassUID(metadata) : '';
+  const kind = getNonImageObjectKind(sopClassUID);
+  if (!kind) {
+    return null;
+  }
+
+  const outcome = POLICY_OUTCOMES[policies[kind]];
+  return (
+    <Space size={4} className={className}>
+      <Tag icon={<FileTextOutlined />}>{SOP_CLASSES[sopClassUID] ?? sopClassUID}</Tag>
+      <Tag color={outcome.color}>{outcome.text}</Tag>
+    </Space>
+  );
+};
+
+export default NonImageObjectTag;
@@ -0,0 +1,179 @@
+/**
+ * Verification Drawer Component
+ * Reports the original PHI still found in deidentified files, per file and
+ * per tag, and records the user's acknowledgement that unblocks export
+ */
+
+import { Drawer, Button, Space, Typography, Alert, Collapse, Table, Tag, Empty, Checkbox } from 'antd';
+import type { ColumnType } from 'antd/es/table';
+import { SafetyCertificateOutlined, ReloadOutlined } from '@ant-design/icons';
+import { useState } from 'react';
+import { useAppDispatch, useAppSelector } from '@store';
+import { closeVerificationDrawer } from '@store/slices/uiSlice';
+import { acknowledgeLeakFindings } from '@store/slices/dicomSlice';
+import { verifyDeidentifiedFiles } from '@store/slices/dicomThunks';
+import type { LeakFinding } from '@store/types';
+import { formatTagPath, getTagName } from '@utils/dicomTags';
+
+const { Text } = Typography;
+
+const KIND_LABELS: Record<LeakFinding['kind'], string> = {
+  name: 'Patient name',
+  identifier: 'Identifier',
+  date: 'Date',
+  'verification-error': 'Not verified',
+};
+
+const VerificationDrawer = () => {
+  const dispatch = useAppDispatch();
+  const { verificationDrawerOpen } = useAppSelector((state) => state.ui);
+  const { deidentifiedFiles, leakFindingsAcknowledged, isProcessing } = useAppSelector((state) => state.dicom);
+  const [reviewed, setReviewed] = useState(false);
+
+  const filesWithFindings = deidentifiedFiles.filter((file) => (file.leakFindings?.length ?? 0) > 0);
+  const findingCount = filesWithFindings.reduce((count, file) => count + (file.leakFindings?.length ?? 0), 0);
+  const verified = deidentifiedFiles.some((file) => file.leakFindings !== undefined);
+
+  const handleVerify = () => {
+    setReviewed(false);
+    dispatch(verifyDeidentifiedFiles());
+  };
+
+  const columns: ColumnType<LeakFinding>[] = [
+    {
+      title: 'Tag',
+      dataIndex: 'tag',
+      key: 'tag',
+      width: '30%',
+      render: (tag: string) => {
+        if (!tag) {
+          return <Text strong>Whole file</Text>;
+        }
+        const lastTag = tag.split('.').pop() ?? tag;
+        const name = getTagName(lastTag);
+        return (
+          <Space direction="vertical" size={0}>
+            <Text strong>{formatTagPath(tag)}</Text>
+            {name !== lastTag && <Text type="secondary">{name}</Text>}
+          </Space>
+        );
+      },
+    },
+    {
+      title: 'Value',
+      dataIndex: 'value',
+      key: 'value',
+      width: '35%',
+      render: (value: string, finding) => (
+        <Space direction="vertical" size={0}>
+          <Text ellipsis={{ tooltip: value }} style={{ maxWidth: 220 }}>
+            {value}
+          </Text>
+          <Text type="secondary">{finding.vr}</Text>
+        </Space>
+      ),
+    },
+    {
+      title: 'Original PHI',
+      dataIndex: 'phi',
+      key: 'phi',
+      width: '35%',
+      render: (phi: string, finding) => (
+        <Space wrap size={4}>
+          {phi && <Tag color="error">{phi}</Tag>}
+          <Tag color={finding.kind === 'verification-error' ? 'error' : undefined}>{KIND_LABELS[finding.kind]}</Tag>
+          {finding.match === 'case-folded' && <Tag color="warning">case-folded</Tag>}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Drawer
+      title={
+        <Space>
+          <SafetyCertificateOutlined />
+          <span>Verification Report</span>
+        </Space>
+      }
+      placement="right"
+      width={700}
+      onClose={() => dispatch(closeVerificationDrawer())}
+      open={verificationDrawerOpen}
+      extra={
+        <Button
+          icon={<ReloadOutlined />}
+          onClick={handleVerify}
+          disabled={deidentifiedFiles.length === 0 || isProcessing}
+        >
+          Verify Again
+        </Button>
+      }
+    >
+      <Space direction="vertical" size="large" style={{ width: '100%' }}>
+        {!verified ? (
+          <Empty description="Deidentify files to verify them" />
+        ) : findingCount === 0 ? (
+          <Alert
+            message="No residual PHI found"
+            description={`None of the original names, identifiers or dates were found in ${deidentifiedFiles.length} deidentified file(s).`}
+            type="success"
+            showIcon
+          />
+        ) : (
+          <>
+            <Alert
+              message={`${findingCount} finding(s) in ${filesWithFindings.length} of ${deidentifiedFiles.length} file(s)`}
+              description="These elements of the deidentified files still hold the original patient's names, identifiers or dates, or the files couldn't be verified. Adjust the settings and deidentify again, or acknowledge the findings to allow export."
+              type={leakFindingsAcknowledged ? 'warning' : 'error'}
+              showIcon
+            />
+
+            <Collapse
+              defaultActiveKey={filesWithFindings.map((file) => file.id)}
+              items={filesWithFindings.map((file) => ({
+                key: file.id,
+                label: (
+                  <Space>
+                    <Text strong>{file.fileName}</Text>
+                    <Tag color="error">{file.leakFindings?.length} findings</Tag>
+                  </Space>
+                ),
+                children: (
+                  <Table
+                    columns={columns}
+                    dataSource={file.leakFindings}
+                    rowKey={(finding) => `${finding.tag}-${finding.phi}`}
+                    pagination={false}
+                    size="small"
+                  />
+                ),
+              }))}
+            />
+
+            {leakFindingsAcknowledged ? (
+              <Alert message="Findings acknowledged; export is allowed" type="info" showIcon />
+            ) : (
+              <Space direction="vertical" style={{ width: '100%' }}>
+                <Checkbox checked={reviewed} onChange={(e) => setReviewed(e.target.checked)}>
+                  I have reviewed these findings and accept exporting the files as they are
+                </Checkbox>
+                <Button
+                  danger
+                  type="primary"
+                  disabled={!reviewed}
+                  onClick={() => dispatch(acknowledgeLeakFindings())}
+                  block
+                >
+                  Acknowledge Findings
+                </Button>
+              </Space>
+            )}
+          </>
+        )}
+      </Space>
+    </Drawer>
+  );
+};
+
+export default VerificationDrawer;
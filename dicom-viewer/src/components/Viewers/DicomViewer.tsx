@@ -4,12 +4,35 @@
  */
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { Spin, Alert } from 'antd';
-import * as dicomParser from 'dicom-parser';
+import { Spin, Alert, Button, Space, Tag, Tooltip } from 'antd';
+import { CheckOutlined, CloseOutlined } from '@ant-design/icons';
 import type { DicomFile } from '@store/types';
 import { useAppDispatch, useAppSelector } from '@store';
 import { updateLeftViewport, updateRightViewport, setLeftActiveTool, setRightActiveTool } from '@store/slices/viewerSlice';
+import {
+  acceptTextRegions,
+  addPixelMask,
+  clearPixelMasks,
+  rejectTextRegions,
+  setMaskTemplates,
+  setTextRegions,
+} from '@store/slices/dicomSlice';
+import { addNotification } from '@store/slices/uiSlice';
+import {
+  createMaskTemplate,
+  findMaskTemplate,
+  saveMaskTemplates,
+  upsertMaskTemplate,
+} from '@services/dicom/maskTemplates';
+import { detectTextRegions } from '@services/dicom/textDetector';
+import { parseDicomDataSet } from '@services/dicom/parser';
+import { isBigEndianTransferSyntax } from '@services/dicom/transferSyntax';
+import { decodeFrame, isEncapsulatedTransferSyntax, readEncapsulatedFrame } from '@services/dicom/pixelDecoder';
+import { readOverlayPlanes } from '@services/dicom/overlays';
+import type { OverlayPlane } from '@services/dicom/overlays';
+import { getNonImageObjectKind, getSOPClassUID } from '@services/dicom/nonImageObjects';
 import ViewerControls from '@components/Controls/ViewerControls';
+import NonImageObjectTag from '@components/Verification/NonImageObjectTag';
 import styles from './DicomViewer.module.scss';
 
 interface DicomViewerProps {
@@ -18,6 +41,29 @@ interface DicomViewerProps {
   onError?: (error: Error) => void;
 }
 
+// Tools that draw a shape by dragging
+const DRAWING_TOOLS = ['Length', 'RectangleROI', 'Redact'];
+
+// Overlay planes are drawn in a color of their own, so they stand apart from the pixels
+const OVERLAY_COLOR = [255, 214, 0];
+
+/**
+ * Draw an overlay plane over the image, leaving the pixels under its unset bits visible
+ */
+function drawOverlayPlane(ctx: CanvasRenderingContext2D, plane: OverlayPlane) {
+  const image = new ImageData(plane.columns, plane.rows);
+  plane.bits.forEach((bit, index) => {
+    if (bit) {
+      image.data.set([...OVERLAY_COLOR, 255], index * 4);
+    }
+  });
+  const canvas = document.createElement('canvas');
+  canvas.width = plane.columns;
+  canvas.height = plane.rows;
+  canvas.getContext('2d')?.putImageData(image, 0, 0);
+  ctx.drawImage(canvas, plane.x, plane.y);
+}
+
 const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) => {
   const dispatch = useAppDispatch();
   const viewerRef = useRef<HTMLDivElement>(null);
@@ -30,6 +76,12 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
   const [drawingEnd, setDrawingEnd] = useState<{ x: number; y: number } | null>(null);
   const [annotations, setAnnotations] = useState<Array<{ type: 'length' | 'rectangle'; start: { x: number; y: number }; end: { x: number; y: number } }>>([]);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  // The last rendered image, before masks are drawn over it, for text detection
+  const renderedImageRef = useRef<ImageData | null>(null);
+  const [renderedFileId, setRenderedFileId] = useState<string | null>(null);
+  const [detectingText, setDetectingText] = useState(false);
+  const [overlayPlanes, setOverlayPlanes] = useState<OverlayPlane[]>([]);
+  const autoDetectedFileIds = useRef(new Set<string>());
 
   // Get viewport state from Redux
   const viewport = useAppSelector((state) =>
@@ -38,6 +90,19 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
   const activeTool = useAppSelector((state) =>
     viewerId === 'left' ? state.viewer.leftViewer.tools.activeTool : state.viewer.rightViewer.tools.activeTool
   );
+  const isDrawing = DRAWING_TOOLS.includes(activeTool ?? '');
+
+  // Redaction masks are drawn on the original image; the deidentified one shows the result
+  const canRedact = viewerId === 'left';
+  const drawnMasks = useAppSelector((state) => (file && canRedact ? state.dicom.pixelMasks[file.id] : undefined));
+  const maskTemplates = useAppSelector((state) => state.dicom.maskTemplates);
+  const template = canRedact && file?.metadata ? findMaskTemplate(maskTemplates, file.metadata) : undefined;
+  const textRegions = useAppSelector((state) => (file && canRedact ? state.dicom.textRegions[file.id] : undefined));
+  const isFlagged = canRedact && !!file?.burnedInAnnotation?.length;
+  // Encapsulated documents, raw data and video have no image to render
+  const isNonImageObject = !!file?.metadata && !!getNonImageObjectKind(getSOPClassUID(file.metadata));
+  // Overlays are shown on the original, so the deidentified side shows what Clean Graphics left
+  const showOverlays = viewerId === 'left';
 
   // Update viewport in Redux
   const updateViewport = useCallback(
@@ -67,7 +132,7 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
 
       // Parse DICOM data
       const byteArray = new Uint8Array(file.imageData);
-      const dataSet = dicomParser.parseDicom(byteArray);
+      const dataSet = parseDicomDataSet(byteArray);
 
       // Get image dimensions
       const rows = file.metadata.rows || dataSet.uint16('x00280010') || 512;
@@ -77,7 +142,10 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
       // const highBit = dataSet.uint16('x00280102') || bitsStored - 1;
       const pixelRepresentation = dataSet.uint16('x00280103') || 0; // 0 = unsigned, 1 = signed
       const samplesPerPixel = dataSet.uint16('x00280002') || 1;
-      const photometricInterpretation = dataSet.string('x00280004') || 'MONOCHROME2';
+      let photometricInterpretation = dataSet.string('x00280004') || 'MONOCHROME2';
+      let planarConfiguration = dataSet.uint16('x00280006') || 0;
+      const transferSyntaxUID = dataSet.string('x00020010');
+      const encapsulated = isEncapsulatedTransferSyntax(transferSyntaxUID);
       const rescaleIntercept = dataSet.floatString('x00281052') || 0;
       const rescaleSlope = dataSet.floatString('x00281053') || 1;
 
@@ -96,11 +164,26 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
       // Note: pixelDataElement.length might be undefined for encapsulated data
       const expectedLength = rows * columns * samplesPerPixel * (bitsAllocated / 8);
       const actualLength = pixelDataElement.length || expectedLength;
-      
-      const pixelData = dataSet.byteArray.subarray(
-        pixelDataElement.dataOffset,
-        pixelDataElement.dataOffset + Math.min(actualLength, dataSet.byteArray.length - pixelDataElement.dataOffset)
-      );
+
+      let pixelData: Uint8Array;
+      if (encapsulated) {
+        // Compressed frames are decoded to interleaved little endian samples
+        const decoded = await decodeFrame(readEncapsulatedFrame(dataSet, 0), transferSyntaxUID ?? '', {
+          rows,
+          columns,
+          bitsAllocated,
+          samplesPerPixel,
+          photometricInterpretation,
+        });
+        pixelData = decoded.pixelData;
+        photometricInterpretation = decoded.photometricInterpretation;
+        planarConfiguration = 0;
+      } else {
+        pixelData = dataSet.byteArray.subarray(
+          pixelDataElement.dataOffset,
+          pixelDataElement.dataOffset + Math.min(actualLength, dataSet.byteArray.length - pixelDataElement.dataOffset)
+        );
+      }
       
       console.log('DICOM rendering info:', {
         rows,
@@ -122,7 +205,36 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
       const totalPixels = rows * columns;
 
       // Convert pixel data based on bits allocated
-      if (bitsAllocated === 8) {
+      if (bitsAllocated === 8 && samplesPerPixel === 3) {
+        // 8-bit color, interleaved (RGBRGB...) or planar (RR...GG...BB...)
+        const ybr = photometricInterpretation === 'YBR_FULL';
+        for (let pixelIndex = 0; pixelIndex < totalPixels; pixelIndex++) {
+          const [first, second, third] =
+            planarConfiguration === 1
+              ? [pixelIndex, pixelIndex + totalPixels, pixelIndex + totalPixels * 2]
+              : [pixelIndex * 3, pixelIndex * 3 + 1, pixelIndex * 3 + 2];
+          if (third >= pixelData.length) break;
+
+          let red = pixelData[first];
+          let green = pixelData[second];
+          let blue = pixelData[third];
+          if (ybr) {
+            // YBR_FULL to RGB (PS3.3 C.7.6.3.1.2)
+            const y = red;
+            const cb = green - 128;
+            const cr = blue - 128;
+            red = y + 1.402 * cr;
+            green = y - 0.344136 * cb - 0.714136 * cr;
+            blue = y + 1.772 * cb;
+          }
+
+          const idx = pixelIndex * 4;
+          data[idx] = Math.max(0, Math.min(255, Math.round(red)));
+          data[idx + 1] = Math.max(0, Math.min(255, Math.round(green)));
+          data[idx + 2] = Math.max(0, Math.min(255, Math.round(blue)));
+          data[idx + 3] = 255;
+        }
+      } else if (bitsAllocated === 8) {
         // 8-bit grayscale
         for (let pixelIndex = 0; pixelIndex < totalPixels; pixelIndex++) {
           const byteIndex = pixelIndex * samplesPerPixel;
@@ -153,8 +265,7 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
         }
       } else if (bitsAllocated === 16) {
         // 16-bit grayscale - need to handle byte order
-        // Note: dicom-parser doesn't expose littleEndian directly, assume little-endian for DICOM
-        const isLittleEndian = true; // DICOM default is little-endian
+        const isLittleEndian = encapsulated || !isBigEndianTransferSyntax(transferSyntaxUID);
         const bytesPerPixel = 2;
         
         // Calculate min/max for normalization if no window/level
@@ -240,13 +351,41 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
 
       // Draw to canvas
       ctx.putImageData(imageData, 0, 0);
+      renderedImageRef.current = imageData;
+      setRenderedFileId(file.id);
+
+      const planes = showOverlays ? readOverlayPlanes(dataSet) : [];
+      planes.forEach((plane) => drawOverlayPlane(ctx, plane));
+      setOverlayPlanes(planes);
+
+      // Preview the redaction masks in image pixels, as export will write them
+      [...(template?.masks ?? []), ...(drawnMasks ?? [])].forEach(({ x, y, width, height }) => {
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+        ctx.fillRect(x, y, width, height);
+        ctx.strokeStyle = '#ff4d4f';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(x, y, width, height);
+      });
+
+      // Outline the proposed text regions, in red where they show the patient's name or ID
+      textRegions?.forEach(({ x, y, width, height, leakedTokens }, index) => {
+        const color = leakedTokens.length ? '#ff4d4f' : '#faad14';
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 2]);
+        ctx.strokeRect(x, y, width, height);
+        ctx.setLineDash([]);
+        ctx.fillStyle = color;
+        ctx.font = '10px Arial';
+        ctx.fillText(String(index + 1), x, Math.max(10, y - 2));
+      });
       setLoading(false);
     } catch (error) {
       console.error('Error rendering DICOM image:', error);
       setLoading(false);
       _setError(error instanceof Error ? error.message : 'Failed to render image');
     }
-  }, [file, viewport.windowCenter, viewport.windowWidth]);
+  }, [file, viewport.windowCenter, viewport.windowWidth, drawnMasks, template, textRegions, showOverlays]);
 
   useEffect(() => {
     if (!file || !viewerRef.current) {
@@ -292,7 +431,7 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
       const x = e.clientX - rect.left;
       const y = e.clientY - rect.top;
 
-      if (activeTool === 'Length' || activeTool === 'RectangleROI') {
+      if (isDrawing) {
         // Start drawing
         setDrawingStart({ x, y });
         setDrawingEnd({ x, y });
@@ -303,7 +442,7 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
         setDragStart({ x: e.clientX, y: e.clientY });
       }
     }
-  }, [activeTool]);
+  }, [isDrawing]);
 
   const handleMouseMove = useCallback(
     (e: React.MouseEvent) => {
@@ -315,7 +454,7 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
       const x = e.clientX - rect.left;
       const y = e.clientY - rect.top;
 
-      if (activeTool === 'Length' || activeTool === 'RectangleROI') {
+      if (isDrawing) {
         // Update drawing end point
         if (drawingStart) {
           setDrawingEnd({ x, y });
@@ -351,11 +490,41 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
         setDragStart({ x: e.clientX, y: e.clientY });
       }
     },
-    [isDragging, dragStart, activeTool, viewport, updateViewport, drawingStart]
+    [isDragging, dragStart, activeTool, isDrawing, viewport, updateViewport, drawingStart]
   );
 
+  // Convert a point of the viewer to image pixels through the displayed canvas
+  // (zoom and pan are read from its on-screen box; rotation isn't accounted for)
+  const toImagePoint = useCallback((point: { x: number; y: number }) => {
+    const canvas = canvasRef.current;
+    const viewerRect = viewerRef.current?.getBoundingClientRect();
+    if (!canvas || !viewerRect) return null;
+
+    const canvasRect = canvas.getBoundingClientRect();
+    return {
+      x: ((viewerRect.left + point.x - canvasRect.left) * canvas.width) / canvasRect.width,
+      y: ((viewerRect.top + point.y - canvasRect.top) * canvas.height) / canvasRect.height,
+    };
+  }, []);
+
   const handleMouseUp = useCallback(() => {
-    if (isDragging && drawingStart && drawingEnd && (activeTool === 'Length' || activeTool === 'RectangleROI')) {
+    if (isDragging && drawingStart && drawingEnd && activeTool === 'Redact' && file) {
+      const start = toImagePoint(drawingStart);
+      const end = toImagePoint(drawingEnd);
+      if (start && end) {
+        dispatch(
+          addPixelMask({
+            fileId: file.id,
+            mask: {
+              x: Math.round(Math.min(start.x, end.x)),
+              y: Math.round(Math.min(start.y, end.y)),
+              width: Math.round(Math.abs(end.x - start.x)),
+              height: Math.round(Math.abs(end.y - start.y)),
+            },
+          })
+        );
+      }
+    } else if (isDragging && drawingStart && drawingEnd && isDrawing) {
       // Save annotation
       setAnnotations((prev) => [
         ...prev,
@@ -369,7 +538,7 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
     setIsDragging(false);
     setDrawingStart(null);
     setDrawingEnd(null);
-  }, [isDragging, drawingStart, drawingEnd, activeTool]);
+  }, [isDragging, drawingStart, drawingEnd, activeTool, isDrawing, file, toImagePoint, dispatch]);
 
   // Attach wheel listener - only for zoom when Zoom tool is active
   useEffect(() => {
@@ -408,6 +577,66 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
     updateViewport({ scale });
   };
 
+  // Save the masks drawn on this image as the template for its device and size
+  const handleSaveTemplate = () => {
+    if (!file?.metadata || !drawnMasks?.length) return;
+
+    const newTemplate = createMaskTemplate(file.metadata, [...(template?.masks ?? []), ...drawnMasks]);
+    const templates = upsertMaskTemplate(maskTemplates, newTemplate);
+    saveMaskTemplates(templates);
+    dispatch(setMaskTemplates(templates));
+    dispatch(clearPixelMasks(file.id));
+    dispatch(
+      addNotification({
+        type: 'success',
+        message: 'Mask template saved',
+        description: `${newTemplate.name}: applied to every file of this device and size`,
+      })
+    );
+  };
+
+  // Find text in the rendered image and propose a redaction box for each line
+  const handleDetectText = useCallback(async () => {
+    const image = renderedImageRef.current;
+    if (!file?.metadata || !image) return;
+
+    setDetectingText(true);
+    try {
+      const regions = await detectTextRegions(image, file.metadata);
+      dispatch(setTextRegions({ fileId: file.id, regions }));
+      const leaks = regions.filter((region) => region.leakedTokens.length).length;
+      if (leaks > 0) {
+        dispatch(
+          addNotification({
+            type: 'error',
+            message: 'Patient details burned into the image',
+            description: `${file.fileName}: ${leaks} text region(s) show the patient's name or ID`,
+          })
+        );
+      }
+    } catch (error) {
+      console.error('Text detection failed:', error);
+      dispatch(
+        addNotification({
+          type: 'error',
+          message: 'Text detection failed',
+          description: error instanceof Error ? error.message : 'Unknown error',
+        })
+      );
+    } finally {
+      setDetectingText(false);
+    }
+  }, [file, dispatch]);
+
+  // Look for text once in each flagged image, as soon as it has been rendered
+  useEffect(() => {
+    if (!file || !isFlagged || renderedFileId !== file.id || textRegions) return;
+    if (autoDetectedFileIds.current.has(file.id)) return;
+
+    autoDetectedFileIds.current.add(file.id);
+    handleDetectText();
+  }, [file, isFlagged, renderedFileId, textRegions, handleDetectText]);
+
   // Draw annotations on overlay canvas
   useEffect(() => {
     const overlayCanvas = overlayCanvasRef.current;
@@ -454,7 +683,7 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
     });
 
     // Draw current drawing (if in progress)
-    if (drawingStart && drawingEnd && (activeTool === 'Length' || activeTool === 'RectangleROI')) {
+    if (drawingStart && drawingEnd && isDrawing) {
       ctx.strokeStyle = activeTool === 'Length' ? '#00ff00' : '#ff0000';
       ctx.lineWidth = 2;
       ctx.setLineDash(activeTool === 'Length' ? [] : [5, 5]);
@@ -480,7 +709,7 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
         ctx.strokeRect(drawingStart.x, drawingStart.y, width, height);
       }
     }
-  }, [annotations, drawingStart, drawingEnd, activeTool]);
+  }, [annotations, drawingStart, drawingEnd, activeTool, isDrawing]);
 
   if (!file) {
     return (
@@ -525,7 +754,13 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
       >
-        {file.status === 'complete' && file.imageData ? (
+        {file.status === 'complete' && isNonImageObject ? (
+          <div className={styles.nonImageState}>
+            <div className={styles.nonImageIcon}>📄</div>
+            <div>{file.fileName} has no image to display</div>
+            <NonImageObjectTag metadata={file.metadata} />
+          </div>
+        ) : file.status === 'complete' && file.imageData ? (
           /* DICOM Image Canvas */
           <div
             className={`${styles.canvasWrapper} ${isDragging ? styles.dragging : ''}`}
@@ -544,7 +779,7 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
                 position: 'absolute',
                 top: 0,
                 left: 0,
-                pointerEvents: activeTool === 'Length' || activeTool === 'RectangleROI' ? 'auto' : 'none',
+                pointerEvents: isDrawing ? 'auto' : 'none',
               }}
             />
           </div>
@@ -574,10 +809,92 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
             <div>
               <div>{file.metadata.patientName || 'Unknown Patient'}</div>
               <div>{file.metadata.modality || 'Unknown Modality'}</div>
+              {overlayPlanes.length > 0 && (
+                <div>
+                  Overlays: {overlayPlanes.map((plane) => (plane.label ? `${plane.group} (${plane.label})` : plane.group)).join(', ')}
+                </div>
+              )}
             </div>
           )}
         </div>
 
+        {/* Top-right redaction masks */}
+        {canRedact && (activeTool === 'Redact' || !!drawnMasks?.length || !!template || isFlagged || !!textRegions?.length) && (
+          <div className={styles.redactionBar}>
+            <Space size="small" wrap>
+              <span>
+                {drawnMasks?.length ?? 0} mask(s){template && ` + template "${template.name}"`}
+              </span>
+              <Button size="small" onClick={() => file && dispatch(clearPixelMasks(file.id))} disabled={!drawnMasks?.length}>
+                Clear
+              </Button>
+              <Tooltip title="Apply these masks to every file with the same manufacturer, model, rows and columns">
+                <Button size="small" type="primary" onClick={handleSaveTemplate} disabled={!drawnMasks?.length}>
+                  Save as Template
+                </Button>
+              </Tooltip>
+              <Tooltip title="Find text in the image with OCR; it runs in the browser and nothing is uploaded">
+                <Button size="small" onClick={handleDetectText} loading={detectingText} disabled={renderedFileId !== file.id}>
+                  Detect Text
+                </Button>
+              </Tooltip>
+            </Space>
+            {textRegions && (
+              <div className={styles.textRegions}>
+                {textRegions.length === 0 ? (
+                  <div>No text regions left to review</div>
+                ) : (
+                  <>
+                    <Space size="small">
+                      <span>{textRegions.length} text region(s)</span>
+                      <Button
+                        size="small"
+                        onClick={() => dispatch(acceptTextRegions({ fileId: file.id, ids: textRegions.map((region) => region.id) }))}
+                      >
+                        Redact All
+                      </Button>
+                      <Button
+                        size="small"
+                        onClick={() => dispatch(rejectTextRegions({ fileId: file.id, ids: textRegions.map((region) => region.id) }))}
+                      >
+                        Dismiss All
+                      </Button>
+                    </Space>
+                    {textRegions.map((region, index) => (
+                      <div key={region.id} className={styles.textRegion}>
+                        <span className={styles.textRegionText}>
+                          {index + 1}. {region.text}
+                        </span>
+                        {region.leakedTokens.map((token) => (
+                          <Tag key={token} color="error">
+                            {token}
+                          </Tag>
+                        ))}
+                        <Tooltip title="Redact">
+                          <Button
+                            size="small"
+                            type="text"
+                            icon={<CheckOutlined />}
+                            onClick={() => dispatch(acceptTextRegions({ fileId: file.id, ids: [region.id] }))}
+                          />
+                        </Tooltip>
+                        <Tooltip title="Dismiss">
+                          <Button
+                            size="small"
+                            type="text"
+                            icon={<CloseOutlined />}
+                            onClick={() => dispatch(rejectTextRegions({ fileId: file.id, ids: [region.id] }))}
+                          />
+                        </Tooltip>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Bottom-left viewport info */}
         <div className={styles.viewportInfo}>
           <div>Zoom: {(viewport.scale * 100).toFixed(0)}%</div>
@@ -596,6 +913,7 @@ const DicomViewer = ({ file, viewerId, onError: _onError }: DicomViewerProps) =>
             onReset={handleReset}
             onZoomChange={handleZoomChange}
             currentZoom={viewport.scale}
+            canRedact={canRedact}
           />
         </div>
       </div>
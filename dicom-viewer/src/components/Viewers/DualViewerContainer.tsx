@@ -9,6 +9,7 @@ import { setLeftFileIndex, setRightFileIndex } from '@store/slices/viewerSlice';
 import DicomViewer from './DicomViewer';
 import ViewerSyncControls from '@components/Controls/ViewerSyncControls';
 import EmptyState from '@components/Layout/EmptyState';
+import BurnedInAnnotationTag from '@components/Verification/BurnedInAnnotationTag';
 import styles from './DualViewerContainer.module.scss';
 
 const { Text } = Typography;
@@ -167,6 +168,7 @@ const DualViewerContainer = () => {
                 <div className={styles.titleLeft}>
                   <EyeOutlined />
                   <span>Original DICOM</span>
+                  <BurnedInAnnotationTag reasons={currentFile?.burnedInAnnotation} className={styles.tagMargin} />
                 </div>
                 {hasFiles && (
                   <div className={styles.titleRight}>
@@ -238,7 +240,7 @@ const DualViewerContainer = () => {
               <EmptyState
                 icon={<InboxOutlined style={{ fontSize: 72 }} className={styles.emptyStateIcon} />}
                 title="No DICOM Files"
-                description="Upload DICOM files to get started with deidentification and comparison. Supports .dcm and .dicom file formats."
+                description="Upload DICOM files to get started with deidentification and comparison. Drop DICOM files, folders, DICOMDIR media or ZIP archives."
                 action={{
                   label: 'Upload DICOM Files',
                   onClick: () => dispatch(toggleUploadDrawer()),
@@ -432,6 +434,10 @@ const DualViewerContainer = () => {
                       {deidentifiedFiles.length} file(s) deidentified
                     </Tag>
                   )}
+                  <BurnedInAnnotationTag
+                    reasons={currentDeidentifiedFile?.burnedInAnnotation}
+                    className={styles.tagMargin}
+                  />
                 </div>
                 {hasFiles && hasDeidentified && (
                   <div className={styles.titleRight}>
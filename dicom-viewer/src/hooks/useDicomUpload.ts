@@ -15,6 +15,8 @@ import {
   processDicomFile,
 } from '@store/slices/dicomThunks';
 import { addNotification } from '@store/slices/uiSlice';
+import type { IngestedFile } from '@store/types';
+import { ingestFiles } from '@services/dicom/ingestion';
 
 export function useDicomUpload() {
   const dispatch = useAppDispatch();
@@ -24,14 +26,52 @@ export function useDicomUpload() {
   const processedFileIds = useRef<Set<string>>(new Set());
 
   /**
-   * Handle file upload
+   * Handle file upload: folders, ZIP archives and DICOMDIRs are expanded first
    */
   const handleFileUpload = useCallback(
-    (files: File[]) => {
-      console.log('handleFileUpload called with', files.length, 'files');
-      // Add files to store - this will add them with generated IDs
-      dispatch(addFiles(files));
-      // The processing will happen in the useEffect below
+    async (items: IngestedFile[]) => {
+      console.log('handleFileUpload called with', items.length, 'files');
+      try {
+        const { files, skipped, missing, dicomdirCount } = await ingestFiles(items);
+
+        const parts: string[] = [];
+        if (skipped.length > 0) parts.push(`${skipped.length} non-DICOM file(s) skipped`);
+        if (missing.length > 0) {
+          parts.push(`${missing.length} file(s) referenced by ${dicomdirCount > 1 ? 'the DICOMDIRs' : 'the DICOMDIR'} not found`);
+        }
+
+        if (files.length === 0) {
+          dispatch(
+            addNotification({
+              type: 'error',
+              message: 'No DICOM files found',
+              description: parts.join(', ') || 'Nothing in the upload has the DICM prefix of a DICOM file',
+            })
+          );
+          return;
+        }
+        if (parts.length > 0) {
+          dispatch(
+            addNotification({
+              type: 'warning',
+              message: `${files.length} DICOM file(s) found`,
+              description: parts.join(', '),
+            })
+          );
+        }
+
+        // Add files to store - this will add them with generated IDs
+        dispatch(addFiles(files));
+        // The processing will happen in the useEffect below
+      } catch (error) {
+        dispatch(
+          addNotification({
+            type: 'error',
+            message: 'Failed to read the upload',
+            description: error instanceof Error ? error.message : 'Unknown error',
+          })
+        );
+      }
     },
     [dispatch]
   );
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import type { DicomMetadata } from '@store/types';
+import { detectBurnedInAnnotation } from './burnedInAnnotation';
+
+const SECONDARY_CAPTURE = '1.2.840.10008.5.1.4.1.1.7';
+
+function metadata(modality: string, allTags: Record<string, string>): DicomMetadata {
+  return { modality, allTags };
+}
+
+describe('detectBurnedInAnnotation', () => {
+  it('flags images marked as having burned-in annotation or visual features', () => {
+    expect(detectBurnedInAnnotation(metadata('CT', { x00280301: 'YES', x00280302: 'YES' }))).toEqual([
+      'Burned In Annotation is YES',
+      'Recognizable Visual Features is YES',
+    ]);
+  });
+
+  it('flags modalities and SOP Classes that often carry burned-in text', () => {
+    const reasons = detectBurnedInAnnotation(metadata('US', { x00080016: SECONDARY_CAPTURE }));
+
+    expect(reasons).toEqual(['US images often have burned-in text', expect.stringMatching(/often has burned-in text$/)]);
+  });
+
+  it('trusts an explicit NO over the heuristics', () => {
+    expect(detectBurnedInAnnotation(metadata('US', { x00280301: 'NO', x00080016: SECONDARY_CAPTURE }))).toEqual([]);
+  });
+
+  it('flags nothing for ordinary cross-sectional images', () => {
+    expect(detectBurnedInAnnotation(metadata('CT', { x00080016: '1.2.840.10008.5.1.4.1.1.2' }))).toEqual([]);
+  });
+});
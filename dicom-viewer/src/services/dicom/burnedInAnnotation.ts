@@ -0,0 +1,50 @@
+/**
+ * Burned-in Annotation Detection
+ * Flags images whose pixels may show patient details, from the header alone:
+ * deidentifying the attributes doesn't touch text written into the image
+ */
+
+import type { DicomMetadata } from '@store/types';
+import { DICOM_TAGS } from '@utils/dicomTags';
+import {
+  BURNED_IN_ANNOTATION_MODALITIES,
+  BURNED_IN_ANNOTATION_SOP_CLASSES,
+  SOP_CLASSES,
+} from '@utils/constants';
+
+const getTagValue = (metadata: DicomMetadata, tag: string) =>
+  String(metadata.allTags?.[tag] ?? '').trim().toUpperCase();
+
+/**
+ * List why an image may have burned-in annotation; empty when nothing suggests it.
+ * An explicit BurnedInAnnotation of NO overrides the modality and SOP Class
+ * heuristics, so images redacted and marked as clean aren't flagged again.
+ */
+export function detectBurnedInAnnotation(metadata: DicomMetadata): string[] {
+  const reasons: string[] = [];
+
+  const burnedInAnnotation = getTagValue(metadata, DICOM_TAGS.BurnedInAnnotation);
+  if (burnedInAnnotation === 'YES') {
+    reasons.push('Burned In Annotation is YES');
+  }
+
+  if (getTagValue(metadata, DICOM_TAGS.RecognizableVisualFeatures) === 'YES') {
+    reasons.push('Recognizable Visual Features is YES');
+  }
+
+  if (burnedInAnnotation === 'NO') {
+    return reasons;
+  }
+
+  const modality = metadata.modality?.trim().toUpperCase();
+  if (modality && BURNED_IN_ANNOTATION_MODALITIES.includes(modality)) {
+    reasons.push(`${modality} images often have burned-in text`);
+  }
+
+  const sopClassUID = String(metadata.allTags?.[DICOM_TAGS.SOPClassUID] ?? '').trim();
+  if (BURNED_IN_ANNOTATION_SOP_CLASSES.includes(sopClassUID)) {
+    reasons.push(`${SOP_CLASSES[sopClassUID] ?? sopClassUID} often has burned-in text`);
+  }
+
+  return reasons;
+}
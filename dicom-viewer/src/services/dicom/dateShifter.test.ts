@@ -0,0 +1,81 @@
+import type { DicomJsonDataset } from 'dcmjs';
+import { describe, expect, it } from 'vitest';
+import { getCarriedDays, shiftDicomDate, shiftDicomDateTime, shiftDicomTime } from './dateShifter';
+import type { DateTimeShift } from './dateShifter';
+
+const keep: DateTimeShift = { days: -10, timeHandling: 'keep', minutes: 0 };
+const truncate: DateTimeShift = { days: -10, timeHandling: 'truncate', minutes: 0 };
+const shiftTimes: DateTimeShift = { days: -10, timeHandling: 'shift', minutes: 90 };
+
+describe('shiftDicomDate', () => {
+  it('moves dates by whole days across months and years', () => {
+    expect(shiftDicomDate('20240315', -10)).toBe('20240305');
+    expect(shiftDicomDate('20240105', -10)).toBe('20231226');
+    expect(shiftDicomDate('20240301', -1)).toBe('20240229');
+  });
+
+  it('keeps the precision of partial dates and ACR-NEMA dates', () => {
+    expect(shiftDicomDate('202403', -20)).toBe('202402');
+    expect(shiftDicomDate('2024', -200)).toBe('2023');
+    expect(shiftDicomDate('2024.03.15', -10)).toBe('20240305');
+  });
+
+  it('shifts each end of a range', () => {
+    expect(shiftDicomDate('20240101-20240131', -10)).toBe('20231222-20240121');
+    expect(shiftDicomDate('-20240131', -10)).toBe('-20240121');
+  });
+
+  it('rejects values that are not dates', () => {
+    expect(shiftDicomDate('20240230', -1)).toBeUndefined();
+    expect(shiftDicomDate('March', -1)).toBeUndefined();
+    expect(shiftDicomDate(undefined, -1)).toBeUndefined();
+  });
+});
+
+describe('shiftDicomTime', () => {
+  it('keeps, truncates or shifts times, keeping their precision', () => {
+    expect(shiftDicomTime('101530.123', keep)).toBe('101530.123');
+    expect(shiftDicomTime('101530.123', truncate)).toBe('10');
+    expect(shiftDicomTime('101530.123', shiftTimes)).toBe('084530.123');
+    expect(shiftDicomTime('10', shiftTimes)).toBe('08');
+    expect(shiftDicomTime('10:15:30', shiftTimes)).toBe('084530');
+  });
+
+  it('wraps shifted times around midnight', () => {
+    expect(shiftDicomTime('001000', shiftTimes)).toBe('224000');
+  });
+});
+
+describe('shiftDicomDateTime', () => {
+  it('carries a shifted time of day into the date', () => {
+    expect(shiftDicomDateTime('20240315001000', shiftTimes)).toBe('20240304224000');
+    expect(shiftDicomDateTime('20240315101500+0100', keep)).toBe('20240305101500+0100');
+    expect(shiftDicomDateTime('20240315101500', truncate)).toBe('2024030510');
+  });
+
+  it('shifts ranges and tells range hyphens from UTC offsets', () => {
+    expect(shiftDicomDateTime('20240315-0500', keep)).toBe('20240305-0500');
+    expect(shiftDicomDateTime('20240315-20240320', keep)).toBe('20240305-20240310');
+  });
+});
+
+describe('getCarriedDays', () => {
+  const dataset: DicomJsonDataset = {
+    '00080020': { vr: 'DA', Value: ['20240315'] },
+    '00080030': { vr: 'TM', Value: ['001000'] },
+    '00080021': { vr: 'DA', Value: ['20240315'] },
+    '00080031': { vr: 'TM', Value: ['101000'] },
+  };
+
+  it('gives the days the paired time crosses', () => {
+    expect(getCarriedDays(dataset, '00080020', shiftTimes)).toBe(-1);
+    expect(getCarriedDays(dataset, '00080020', { ...shiftTimes, minutes: -1440 })).toBe(1);
+    expect(getCarriedDays(dataset, '00080021', shiftTimes)).toBe(0);
+  });
+
+  it('carries nothing without a shifted time', () => {
+    expect(getCarriedDays(dataset, '00080020', keep)).toBe(0);
+    expect(getCarriedDays(dataset, '00080022', shiftTimes)).toBe(0);
+    expect(getCarriedDays(dataset, '00100030', shiftTimes)).toBe(0);
+  });
+});
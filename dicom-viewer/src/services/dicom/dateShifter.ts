@@ -0,0 +1,249 @@
+/**
+ * Date Shifter
+ * Shifts DA, DT and TM values by whole days, and optionally shifts or truncates
+ * the time of day, keeping every value valid for its VR (PS3.5 Table 6.2-1)
+ */
+
+import type { DicomJsonDataset } from 'dcmjs';
+import type { TimeHandling } from '@store/types';
+
+export interface DateTimeShift {
+  days: number;
+  timeHandling: TimeHandling;
+  minutes: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Partial dates are shifted from the middle of the period they stand for and
+// written back at the same precision, so they land on a nearby month or year
+const PARTIAL_DATE_FILL: Record<number, string> = { 4: '0701', 6: '15' };
+
+// Date attributes and the time attributes that complete them, keyed as dcmjs
+// keys elements. A shifted time of day carries into its date.
+const PAIRED_TIME_KEYS: Readonly<Record<string, string>> = {
+  '00080012': '00080013', // InstanceCreation
+  '00080020': '00080030', // Study
+  '00080021': '00080031', // Series
+  '00080022': '00080032', // Acquisition
+  '00080023': '00080033', // Content
+  '00080024': '00080034', // Overlay
+  '00080025': '00080035', // Curve
+  '00100030': '00100032', // PatientBirth
+  '00140102': '00140103', // SecondaryReview
+  '00143076': '00143077', // GainCalibration
+  '0014407E': '0014407C', // Calibration
+  '00181012': '00181014', // SecondaryCapture
+  '00181200': '00181201', // LastCalibration
+  '0018700C': '0018700E', // LastDetectorCalibration
+  '00203403': '00203405', // ModifiedImage
+  '00320032': '00320033', // StudyVerified
+  '00320034': '00320035', // StudyRead
+  '00321000': '00321001', // ScheduledStudyStart
+  '00321010': '00321011', // ScheduledStudyStop
+  '00321040': '00321041', // StudyArrival
+  '00321050': '00321051', // StudyCompletion
+  '0038001A': '0038001B', // ScheduledAdmission
+  '0038001C': '0038001D', // ScheduledDischarge
+  '00380020': '00380021', // Admitting
+  '00380030': '00380032', // Discharge
+  '00400002': '00400003', // ScheduledProcedureStepStart
+  '00400004': '00400005', // ScheduledProcedureStepEnd
+  '00400244': '00400245', // PerformedProcedureStepStart
+  '00400250': '00400251', // PerformedProcedureStepEnd
+  '00402004': '00402005', // IssueOfImagingServiceRequest
+  '0040A121': '0040A122', // Date and Time of content items
+  '00700082': '00700083', // PresentationCreation
+  '30060008': '30060009', // StructureSet
+  '30080024': '30080025', // TreatmentControlPoint
+  '30080162': '30080164', // SafePositionExit
+  '30080166': '30080168', // SafePositionReturn
+  '30080250': '30080251', // Treatment
+  '300A0006': '300A0007', // RTPlan
+  '300A022C': '300A022E', // SourceStrengthReference
+  '300E0004': '300E0005', // Review
+  '40080100': '40080101', // InterpretationRecorded
+  '40080108': '40080109', // InterpretationTranscription
+  '40080112': '40080113', // InterpretationApproval
+};
+
+const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+
+/**
+ * Strip the separators of ACR-NEMA style values (YYYY.MM.DD, HH:MM:SS)
+ */
+function normalize(value: string, separator: string): string {
+  return value.trim().split(separator).join('');
+}
+
+/**
+ * Apply a shift to each end of a range value ("A-B", "-B", "A-"), or to a single value
+ */
+function shiftRange(value: string, shift: (part: string) => string | undefined): string | undefined {
+  const parts = value.split('-');
+  if (parts.length > 2) {
+    return undefined;
+  }
+  const shiftedParts = parts.map((part) => (part === '' ? '' : shift(part)));
+  return shiftedParts.some((part) => part === undefined) ? undefined : shiftedParts.join('-');
+}
+
+/**
+ * Shift a date of 4, 6 or 8 digits (YYYY, YYYYMM, YYYYMMDD) by whole days
+ */
+function shiftDate(date: string, days: number): string | undefined {
+  if (!/^\d{4}(\d{2}(\d{2})?)?$/.test(date)) {
+    return undefined;
+  }
+
+  const fullDate = `${date}${PARTIAL_DATE_FILL[date.length] ?? ''}`;
+  const year = parseInt(fullDate.substring(0, 4));
+  const month = parseInt(fullDate.substring(4, 6)) - 1; // JS months are 0-indexed
+  const day = parseInt(fullDate.substring(6, 8));
+
+  // Reject dates that don't exist, which Date.UTC would roll over into the next month
+  const original = new Date(Date.UTC(year, month, day));
+  if (original.getUTCMonth() !== month || original.getUTCDate() !== day) {
+    return undefined;
+  }
+
+  const shifted = new Date(original.getTime() + days * MS_PER_DAY);
+  if (shifted.getUTCFullYear() < 1 || shifted.getUTCFullYear() > 9999) {
+    return undefined;
+  }
+
+  const shiftedDate = `${pad(shifted.getUTCFullYear(), 4)}${pad(shifted.getUTCMonth() + 1)}${pad(shifted.getUTCDate())}`;
+  return shiftedDate.substring(0, date.length);
+}
+
+/**
+ * Shift a DICOM date by a specified number of days
+ * Format: YYYYMMDD, YYYYMM or YYYY, or a range of them (YYYYMMDD-YYYYMMDD)
+ */
+export function shiftDicomDate(dicomDate: string | undefined, days: number): string | undefined {
+  if (!dicomDate) {
+    return undefined;
+  }
+  return shiftRange(normalize(dicomDate, '.'), (date) => shiftDate(date, days));
+}
+
+/**
+ * Move a time of 2, 4 or 6 digits with an optional fraction (HH, HHMM,
+ * HHMMSS.FFFFFF) back by some minutes, keeping its precision. Returns the
+ * wrapped time and the days it crossed.
+ */
+function moveTime(time: string, minutes: number): { time: string; carriedDays: number } | undefined {
+  const match = /^(\d{2})(\d{2})?(\d{2}(?:\.\d{1,6})?)?$/.exec(time);
+  if (!match) {
+    return undefined;
+  }
+  const [, hours, minutesOfHour, rest = ''] = match;
+
+  const totalMinutes = parseInt(hours) * 60 + parseInt(minutesOfHour ?? '0') - minutes;
+  const carriedDays = Math.floor(totalMinutes / 1440);
+  const wrapped = totalMinutes - carriedDays * 1440;
+  const movedTime = `${pad(Math.floor(wrapped / 60))}${pad(wrapped % 60)}`;
+
+  return {
+    time: minutesOfHour === undefined ? movedTime.substring(0, 2) : `${movedTime}${rest}`,
+    carriedDays,
+  };
+}
+
+/**
+ * Shift or truncate one time. Shifted times wrap around midnight; the days
+ * they cross are moved onto the paired date by getCarriedDays.
+ */
+function shiftTime(time: string, shift: DateTimeShift): string | undefined {
+  if (!/^\d{2}(\d{2}(\d{2}(\.\d{1,6})?)?)?$/.test(time)) {
+    return undefined;
+  }
+
+  switch (shift.timeHandling) {
+    case 'truncate':
+      return time.substring(0, 2);
+    case 'shift':
+      return moveTime(time, shift.minutes)?.time;
+    default:
+      return time;
+  }
+}
+
+/**
+ * Shift a DICOM time (TM), or a range of them
+ */
+export function shiftDicomTime(dicomTime: string | undefined, shift: DateTimeShift): string | undefined {
+  if (!dicomTime) {
+    return undefined;
+  }
+  return shiftRange(normalize(dicomTime, ':'), (time) => shiftTime(time, shift));
+}
+
+/**
+ * The days the shift of a date's paired time crosses, to add to the date's
+ * own shift so the pair moves as a DT value would. Only a single time that is
+ * shifted carries; ranges and multiple values carry nothing.
+ */
+export function getCarriedDays(dataset: DicomJsonDataset, dateKey: string, shift: DateTimeShift): number {
+  const timeKey = PAIRED_TIME_KEYS[dateKey.toUpperCase()];
+  const times = timeKey ? (dataset[timeKey]?.Value ?? []) : [];
+  if (shift.timeHandling !== 'shift' || times.length !== 1) {
+    return 0;
+  }
+  return moveTime(normalize(String(times[0]), ':'), shift.minutes)?.carriedDays ?? 0;
+}
+
+/**
+ * Shift one DT value: YYYY[MM[DD[HH[MM[SS[.FFFFFF]]]]]][&ZZXX]. The date moves
+ * by whole days; a shifted time of day carries into the date.
+ */
+function shiftDateTime(dateTime: string, shift: DateTimeShift): string | undefined {
+  // A time of day only follows a full date
+  const match = /^(?:(\d{8})(\d{2}(?:\d{2}(?:\d{2}(?:\.\d{1,6})?)?)?)?|(\d{4}(?:\d{2})?))([+-]\d{4})?$/.exec(dateTime);
+  if (!match) {
+    return undefined;
+  }
+  const [, fullDate, time, partialDate, offset = ''] = match;
+  const date = fullDate ?? partialDate;
+
+  if (!time || shift.timeHandling === 'keep') {
+    const shiftedDate = shiftDate(date, shift.days);
+    return shiftedDate === undefined ? undefined : `${shiftedDate}${time ?? ''}${offset}`;
+  }
+
+  if (shift.timeHandling === 'truncate') {
+    const shiftedDate = shiftDate(date, shift.days);
+    return shiftedDate === undefined ? undefined : `${shiftedDate}${time.substring(0, 2)}${offset}`;
+  }
+
+  const movedTime = moveTime(time, shift.minutes);
+  const shiftedDate = movedTime && shiftDate(date, shift.days + movedTime.carriedDays);
+  return movedTime && shiftedDate ? `${shiftedDate}${movedTime.time}${offset}` : undefined;
+}
+
+/**
+ * Shift a DICOM date time (DT), or a range of them. Both range ends and UTC
+ * offsets use hyphens, so each hyphen is tried as the range separator.
+ */
+export function shiftDicomDateTime(dicomDateTime: string | undefined, shift: DateTimeShift): string | undefined {
+  if (!dicomDateTime) {
+    return undefined;
+  }
+
+  const value = dicomDateTime.trim();
+  const shifted = shiftDateTime(value, shift);
+  if (shifted !== undefined) {
+    return shifted;
+  }
+
+  for (let index = value.indexOf('-'); index !== -1; index = value.indexOf('-', index + 1)) {
+    const start = value.substring(0, index);
+    const end = value.substring(index + 1);
+    const shiftedStart = start === '' ? '' : shiftDateTime(start, shift);
+    const shiftedEnd = end === '' ? '' : shiftDateTime(end, shift);
+    if (shiftedStart !== undefined && shiftedEnd !== undefined) {
+      return `${shiftedStart}-${shiftedEnd}`;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,414 @@
+import type { DicomJsonDataset } from 'dcmjs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { DeidentifyOptions } from '@store/types';
+import { createDeidentifyOptions, createImageDataset } from '@/test/dicomFixtures';
+import { getProfileAttribute } from '@utils/confidentialityProfile';
+import { deidentifyDataset, getDateOffsetDays, getModifiedTags } from './deidentifier';
+import { createPseudonymizer } from './pseudonymizer';
+import type { Pseudonymizer } from './pseudonymizer';
+import { createUIDMapper } from './uidMapper';
+
+let pseudonymizer: Pseudonymizer;
+
+beforeAll(async () => {
+  pseudonymizer = await createPseudonymizer('test-secret');
+});
+
+function deidentify(dataset: DicomJsonDataset, overrides: Partial<DeidentifyOptions> = {}) {
+  return deidentifyDataset(
+    dataset,
+    createDeidentifyOptions({ shiftDates: false, removeDates: true, ...overrides }),
+    pseudonymizer,
+    createUIDMapper(pseudonymizer)
+  );
+}
+
+describe('Basic Profile action table', () => {
+  it('resolves compound actions and matches repeating groups', () => {
+    expect(getProfileAttribute('x00080080')?.action).toBe('X/Z/D');
+    expect(getProfileAttribute('x60023000')?.name).toBe('OverlayData');
+    expect(getProfileAttribute('x00280010')).toBeUndefined();
+  });
+
+  it('applies the action of every attribute by tag', async () => {
+    const dataset: DicomJsonDataset = {
+      ...createImageDataset(),
+      '00080090': { vr: 'PN', Value: [{ Alphabetic: 'Smith^Referring' }] },
+      '00101000': { vr: 'LO', Value: ['OTHER-ID'] },
+      '00200010': { vr: 'SH', Value: ['STUDY7'] },
+    };
+
+    const deidentified = await deidentify(dataset);
+
+    // X: removed
+    expect(deidentified['00101000']).toBeUndefined();
+    // Z: emptied
+    expect(deidentified['00200010'].Value).toEqual([]);
+    expect(deidentified['00080020'].Value).toEqual([]);
+    // X/Z/D: a dummy value, valid whatever the attribute's Type
+    expect(deidentified['00080080'].Value).toEqual(['ANONYMIZED']);
+    expect(deidentified['00100010'].Value).toEqual(['ANONYMOUS']);
+    // Not in the table: kept
+    expect(deidentified['00080060'].Value).toEqual(['CT']);
+    expect(deidentified['00280010'].Value).toEqual([4]);
+  });
+
+  it('removes the physicians only when asked to', async () => {
+    const dataset: DicomJsonDataset = {
+      '00080090': { vr: 'PN', Value: [{ Alphabetic: 'Smith^Referring' }] },
+    };
+
+    expect((await deidentify(dataset))['00080090'].Value).toEqual([]);
+    expect((await deidentify(dataset, { removePhysicians: false }))['00080090'].Value).toEqual([
+      { Alphabetic: 'Smith^Referring' },
+    ]);
+  });
+
+  it('removes private attributes', async () => {
+    const dataset: DicomJsonDataset = {
+      '00090010': { vr: 'LO', Value: ['ACME 1.0'] },
+      '00091001': { vr: 'LO', Value: ['Doe^John'] },
+    };
+
+    const deidentified = await deidentify(dataset);
+
+    expect(deidentified['00090010']).toBeUndefined();
+    expect(deidentified['00091001']).toBeUndefined();
+  });
+
+  it('records the deidentification method', async () => {
+    const deidentified = await deidentify(createImageDataset());
+
+    expect(deidentified['00120062'].Value).toEqual(['YES']);
+    const methodCodes = (deidentified['00120064'].Value as DicomJsonDataset[]).map((item) => item['00080100'].Value?.[0]);
+    expect(methodCodes[0]).toBe('113100');
+    expect(deidentified['00280303'].Value).toEqual(['REMOVED']);
+  });
+});
+
+describe('Annex E options', () => {
+  const methodCodes = (dataset: DicomJsonDataset) =>
+    (dataset['00120064'].Value as DicomJsonDataset[]).map((item) => item['00080100'].Value?.[0]);
+
+  it('keeps what the Retain options ask for', async () => {
+    const dataset: DicomJsonDataset = {
+      ...createImageDataset(),
+      '00101010': { vr: 'AS', Value: ['054Y'] },
+      '00181000': { vr: 'LO', Value: ['SN-42'] },
+    };
+
+    const deidentified = await deidentify(dataset, {
+      retainPatientCharacteristics: true,
+      retainDeviceIdentity: true,
+      removeInstitution: false,
+    });
+
+    expect(deidentified['00101010'].Value).toEqual(['054Y']);
+    expect(deidentified['00181000'].Value).toEqual(['SN-42']);
+    expect(deidentified['00080080'].Value).toEqual(['General Hospital']);
+    expect(methodCodes(deidentified)).toEqual(expect.arrayContaining(['113108', '113109', '113112']));
+  });
+
+  it('cleans descriptors instead of removing them', async () => {
+    const dataset: DicomJsonDataset = {
+      ...createImageDataset(),
+      '00081030': { vr: 'LO', Value: ['CT head for John Doe'] },
+    };
+
+    const removed = await deidentify(dataset, { keepSeriesInfo: false });
+    const cleaned = await deidentify(dataset, { keepSeriesInfo: false, cleanDescriptors: true });
+
+    expect(removed['00081030']).toBeUndefined();
+    expect(cleaned['00081030'].Value?.[0]).toContain('CT head');
+    expect(cleaned['00081030'].Value?.[0]).not.toContain('Doe');
+    expect(methodCodes(cleaned)).toContain('113105');
+  });
+
+  it('records the date option the date handling amounts to', async () => {
+    const kept = await deidentify(createImageDataset(), { removeDates: false });
+    const shifted = await deidentify(createImageDataset(), { removeDates: false, shiftDates: true });
+
+    expect(kept['00080020'].Value).toEqual(['20240315']);
+    expect(methodCodes(kept)).toContain('113106');
+    expect(methodCodes(shifted)).toContain('113107');
+    expect(shifted['00280303'].Value).toEqual(['MODIFIED']);
+  });
+});
+
+describe('sequence items', () => {
+  it('applies the profile inside the items of kept sequences at any depth', async () => {
+    const dataset: DicomJsonDataset = {
+      '00540016': {
+        vr: 'SQ',
+        Value: [
+          {
+            '00181071': { vr: 'DS', Value: [5] },
+            '0040A370': {
+              vr: 'SQ',
+              Value: [
+                {
+                  '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Doe^John' }] },
+                  '00101000': { vr: 'LO', Value: ['OTHER-ID'] },
+                  '00080060': { vr: 'CS', Value: ['CT'] },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    };
+
+    const deidentified = await deidentify(dataset);
+
+    const item = (deidentified['00540016'].Value as DicomJsonDataset[])[0];
+    const nested = (item['0040A370'].Value as DicomJsonDataset[])[0];
+    expect(item['00181071'].Value).toEqual([5]);
+    expect(nested['00100010'].Value).toEqual(['ANONYMOUS']);
+    expect(nested['00101000']).toBeUndefined();
+    expect(nested['00080060'].Value).toEqual(['CT']);
+  });
+
+  it('removes sequences the profile removes, items and all', async () => {
+    const dataset: DicomJsonDataset = {
+      '00101002': { vr: 'SQ', Value: [{ '00100020': { vr: 'LO', Value: ['OTHER-ID'] } }] },
+    };
+
+    expect((await deidentify(dataset))['00101002']).toBeUndefined();
+  });
+});
+
+describe('private tag policy', () => {
+  const dataset: DicomJsonDataset = {
+    '00190010': { vr: 'LO', Value: ['SIEMENS MR HEADER'] },
+    '00191008': { vr: 'CS', Value: ['IMAGE NUM 4'] },
+    '00191010': { vr: 'LO', Value: ['Doe^John'] },
+    '00290010': { vr: 'LO', Value: ['ACME 1.0'] },
+    '00291001': { vr: 'LO', Value: ['ACME value'] },
+  };
+
+  it('keeps safe-listed elements with the creator reserving their block', async () => {
+    const deidentified = await deidentify(dataset, { privateTagPolicy: 'retainSafe' });
+
+    expect(deidentified['00190010'].Value).toEqual(['SIEMENS MR HEADER']);
+    expect(deidentified['00191008'].Value).toEqual(['IMAGE NUM 4']);
+    expect(deidentified['00191010']).toBeUndefined();
+    expect(deidentified['00290010']).toBeUndefined();
+  });
+
+  it('keeps every element of the listed creators', async () => {
+    const deidentified = await deidentify(dataset, {
+      privateTagPolicy: 'keepCreators',
+      keptPrivateCreators: ['acme 1.0'],
+    });
+
+    expect(deidentified['00291001'].Value).toEqual(['ACME value']);
+    expect(deidentified['00290010']).toBeDefined();
+    expect(deidentified['00191008']).toBeUndefined();
+  });
+
+  it('removes private dates the policy removes, and shifts the ones it keeps', async () => {
+    const datedDataset: DicomJsonDataset = {
+      ...dataset,
+      '00291002': { vr: 'DA', Value: ['19690223'] },
+      '00291003': { vr: 'TM', Value: ['101010'] },
+    };
+
+    for (const privateTagPolicy of ['removeAll', 'retainSafe'] as const) {
+      for (const dates of [{ shiftDates: true }, { shiftDates: false, removeDates: false }]) {
+        const deidentified = await deidentify(datedDataset, { privateTagPolicy, ...dates });
+        expect(deidentified['00291002']).toBeUndefined();
+        expect(deidentified['00291003']).toBeUndefined();
+      }
+    }
+
+    const kept = await deidentify(datedDataset, {
+      privateTagPolicy: 'keepCreators',
+      keptPrivateCreators: ['ACME 1.0'],
+      shiftDates: true,
+    });
+    expect(kept['00291002'].Value).toHaveLength(1);
+    expect(kept['00291002'].Value).not.toEqual(['19690223']);
+  });
+
+  it('lists the private attributes the policy removes', () => {
+    const privateEntry = (options: Partial<DeidentifyOptions>) =>
+      getModifiedTags(createDeidentifyOptions(options)).find(({ tag }) => tag === 'xggggeeee');
+
+    expect(privateEntry({ privateTagPolicy: 'removeAll' })).toEqual({
+      tag: 'xggggeeee',
+      name: 'PrivateAttributes',
+      action: 'X',
+    });
+    expect(privateEntry({ privateTagPolicy: 'retainSafe' })?.name).toMatch(/not on the safe list/);
+    expect(privateEntry({ privateTagPolicy: 'keepCreators' })?.name).toMatch(/creators not kept/);
+  });
+});
+
+describe('date shifting', () => {
+  it('moves a date and its paired time together, as a DT value moves', async () => {
+    const dataset: DicomJsonDataset = {
+      '00100020': { vr: 'LO', Value: ['MRN1234567'] },
+      '00080020': { vr: 'DA', Value: ['20240315'] },
+      '00080030': { vr: 'TM', Value: ['001000'] },
+      '0008002A': { vr: 'DT', Value: ['20240315001000'] },
+    };
+
+    const deidentified = await deidentify(dataset, {
+      removeDates: false,
+      shiftDates: true,
+      timeHandling: 'shift',
+      timeShiftMinutes: 30,
+    });
+
+    const studyDateTime = `${deidentified['00080020'].Value?.[0]}${deidentified['00080030'].Value?.[0]}`;
+    expect(deidentified['00080030'].Value).toEqual(['234000']);
+    expect(studyDateTime).toBe(deidentified['0008002A'].Value?.[0]);
+  });
+});
+
+describe('getDateOffsetDays', () => {
+  it('gives each patient one offset in the configured range', async () => {
+    const options = createDeidentifyOptions({ dateShiftMinDays: -100, dateShiftMaxDays: -10 });
+
+    const offsets = await Promise.all(['P1', 'P2', 'P3'].map((id) => getDateOffsetDays(id, options, pseudonymizer)));
+
+    offsets.forEach((offset) => {
+      expect(offset).toBeGreaterThanOrEqual(-100);
+      expect(offset).toBeLessThanOrEqual(-10);
+    });
+    expect(await getDateOffsetDays('P1', options, pseudonymizer)).toBe(offsets[0]);
+    expect(await getDateOffsetDays('P1', createDeidentifyOptions({ shiftDates: false }), pseudonymizer)).toBe(0);
+  });
+
+  it('moves every study of a patient by the same offset, keeping their interval', async () => {
+    const study = (date: string): DicomJsonDataset => ({
+      '00100020': { vr: 'LO', Value: ['MRN1234567'] },
+      '00080020': { vr: 'DA', Value: [date] },
+    });
+    const options = { removeDates: false, shiftDates: true };
+
+    const first = await deidentify(study('20240101'), options);
+    const second = await deidentify(study('20240111'), options);
+
+    const toTime = (dataset: DicomJsonDataset) => {
+      const date = String(dataset['00080020'].Value?.[0]);
+      return Date.UTC(Number(date.substring(0, 4)), Number(date.substring(4, 6)) - 1, Number(date.substring(6, 8)));
+    };
+    expect((toTime(second) - toTime(first)) / 86400000).toBe(10);
+    expect(first['00080020'].Value).not.toEqual(['20240101']);
+  });
+});
+
+describe('cleaned sequences', () => {
+  it('scrubs kept text inside cleaned sequences but leaves coded entries alone', async () => {
+    const dataset: DicomJsonDataset = {
+      ...createImageDataset(),
+      '00081032': {
+        vr: 'SQ',
+        Value: [
+          {
+            '00080100': { vr: 'SH', Value: ['1234567'] },
+            '00080102': { vr: 'SH', Value: ['99LOCAL'] },
+            '00080104': { vr: 'LO', Value: ['CT head for Doe'] },
+          },
+        ],
+      },
+    };
+
+    const deidentified = await deidentify(dataset, { cleanDescriptors: true });
+
+    const code = (deidentified['00081032'].Value as DicomJsonDataset[])[0];
+    expect(code['00080100'].Value).toEqual(['1234567']);
+    expect(code['00080102'].Value).toEqual(['99LOCAL']);
+    expect(code['00080104'].Value).toEqual(['CT head for ***']);
+  });
+});
+
+describe('Clean Graphics', () => {
+  const graphicsDataset = (): DicomJsonDataset => ({
+    ...createImageDataset(),
+    '50000010': { vr: 'US', Value: [2] },
+    '60000010': { vr: 'US', Value: [4] },
+    '60000022': { vr: 'LO', Value: ['Doe^John'] },
+    '60003000': { vr: 'OB', Value: [new Uint8Array(2).buffer] },
+    '00700001': {
+      vr: 'SQ',
+      Value: [
+        {
+          '00700002': { vr: 'CS', Value: ['LAYER1'] },
+          '00700008': { vr: 'SQ', Value: [{ '00700006': { vr: 'ST', Value: ['Doe^John'] } }] },
+          '00700009': { vr: 'SQ', Value: [{ '00700023': { vr: 'CS', Value: ['POLYLINE'] } }] },
+        },
+      ],
+    },
+  });
+
+  it('removes overlay planes, curves and text objects, keeping graphic objects', async () => {
+    const deidentified = await deidentify(graphicsDataset(), { cleanGraphics: true });
+
+    expect(deidentified['50000010']).toBeUndefined();
+    expect(deidentified['60000010']).toBeUndefined();
+    expect(deidentified['60000022']).toBeUndefined();
+    expect(deidentified['60003000']).toBeUndefined();
+    const annotation = (deidentified['00700001'].Value as DicomJsonDataset[])[0];
+    expect(annotation['00700008']).toBeUndefined();
+    expect(annotation['00700009']).toBeDefined();
+  });
+
+  it('lists the overlay planes with the modified tags only when the option is on', () => {
+    const listed = (cleanGraphics: boolean) =>
+      getModifiedTags(createDeidentifyOptions({ cleanGraphics })).some((tag) => tag.name === 'OverlayPlane');
+
+    expect(listed(true)).toBe(true);
+    expect(listed(false)).toBe(false);
+  });
+});
+
+describe('Structured Report content tree', () => {
+  const conceptName = (codeValue: string, codeMeaning: string): DicomJsonDataset => ({
+    '00080100': { vr: 'SH', Value: [codeValue] },
+    '00080102': { vr: 'SH', Value: ['DCM'] },
+    '00080104': { vr: 'LO', Value: [codeMeaning] },
+  });
+
+  it('cleans TEXT, PNAME and DATE items and passes code triplets through', async () => {
+    const dataset: DicomJsonDataset = {
+      ...createImageDataset(),
+      '00080060': { vr: 'CS', Value: ['SR'] },
+      '0040A730': {
+        vr: 'SQ',
+        Value: [
+          {
+            '0040A040': { vr: 'CS', Value: ['TEXT'] },
+            '0040A043': { vr: 'SQ', Value: [conceptName('121071', 'Finding')] },
+            '0040A160': { vr: 'UT', Value: ['Reviewed with Doe'] },
+          },
+          {
+            '0040A040': { vr: 'CS', Value: ['PNAME'] },
+            '0040A043': { vr: 'SQ', Value: [conceptName('121008', 'Person Observer Name')] },
+            '0040A123': { vr: 'PN', Value: [{ Alphabetic: 'Smith^Observer' }] },
+          },
+          {
+            '0040A040': { vr: 'CS', Value: ['DATE'] },
+            '0040A043': { vr: 'SQ', Value: [conceptName('111060', 'Study Date')] },
+            '0040A121': { vr: 'DA', Value: ['20240315'] },
+          },
+          {
+            '0040A040': { vr: 'CS', Value: ['CODE'] },
+            '0040A043': { vr: 'SQ', Value: [conceptName('121071', 'Finding')] },
+            '0040A168': { vr: 'SQ', Value: [conceptName('1234567', 'Doe procedure')] },
+          },
+        ],
+      },
+    };
+
+    const deidentified = await deidentify(dataset);
+
+    const [text, pname, date, code] = deidentified['0040A730'].Value as DicomJsonDataset[];
+    expect(text['0040A160'].Value).toEqual(['Reviewed with ***']);
+    expect(pname['0040A123'].Value).not.toEqual([{ Alphabetic: 'Smith^Observer' }]);
+    expect(date['0040A121']?.Value ?? []).not.toEqual(['20240315']);
+    expect(code['0040A043'].Value).toEqual([conceptName('121071', 'Finding')]);
+    expect(code['0040A168'].Value).toEqual([conceptName('1234567', 'Doe procedure')]);
+  });
+});
@@ -3,330 +3,582 @@
  * Implements DICOM PS3.15 standards for removing PHI (Protected Health Information)
  */
 
-import type { DicomMetadata, DeidentifyOptions } from '@store/types';
-import { ANONYMOUS_PATIENT_NAME, ANONYMOUS_PATIENT_ID_PREFIX } from '@utils/constants';
-
-// Session-based UID mapping for consistency
-const uidMappingCache = new Map<string, string>();
+import dcmjs from 'dcmjs';
+import type { DicomJsonDataset, DicomJsonElement } from 'dcmjs';
+import type { DeidentifyOptions, PrivateTagPolicy, TextRedaction } from '@store/types';
+import {
+  ANONYMOUS_PATIENT_NAME,
+  ANONYMOUS_PATIENT_ID_PREFIX,
+  DEFAULT_DATE_SHIFT_MAX_DAYS,
+  DEFAULT_DATE_SHIFT_MIN_DAYS,
+  STRUCTURED_REPORT_SOP_CLASS_ROOT,
+} from '@utils/constants';
+import { DICOM_TAGS, formatTag } from '@utils/dicomTags';
+import {
+  BASIC_PROFILE_ATTRIBUTES,
+  BASIC_PROFILE_CODE,
+  BASIC_PROFILE_REPEATING_ATTRIBUTES,
+  CLEAN_DESCRIPTORS_ACTIONS,
+  CLEAN_GRAPHICS_ACTIONS,
+  CLEAN_GRAPHICS_ATTRIBUTES,
+  CLEAN_STRUCTURED_CONTENT_ACTIONS,
+  PRIVATE_ATTRIBUTE_ACTION,
+  PROFILE_OPTION_CODES,
+  RETAIN_DEVICE_IDENTITY_ACTIONS,
+  RETAIN_INSTITUTION_IDENTITY_ACTIONS,
+  RETAIN_PATIENT_CHARACTERISTICS_ACTIONS,
+  getOptionAction,
+  getProfileAttribute,
+  isPrivateTag,
+  isSafePrivateAttribute,
+} from '@utils/confidentialityProfile';
+import type { ProfileAction, ProfileAttribute, ProfileCode, ProfileOption } from '@utils/confidentialityProfile';
+import { applyCustomRules, validateRule } from './ruleEngine';
+import { getCarriedDays, shiftDicomDate, shiftDicomDateTime, shiftDicomTime } from './dateShifter';
+import { applySafeHarbor, SAFE_HARBOR_METHOD } from './safeHarbor';
+import { CLEAN_PIXEL_DATA_METHOD } from './pixelRedactor';
+import { collectIdentifiers, scrubText } from './textScrubber';
+import type { KnownIdentifiers } from './textScrubber';
+import type { DateTimeShift } from './dateShifter';
+import type { Pseudonymizer } from './pseudonymizer';
+import { remapDatasetUIDs } from './uidMapper';
+import type { UIDMapper } from './uidMapper';
+
+const { DicomMetaDictionary } = dcmjs.data;
+
+// Attributes controlled by the removePhysicians option
+const PHYSICIAN_TAGS = new Set<string>([
+  DICOM_TAGS.ReferringPhysicianName,
+  DICOM_TAGS.PerformingPhysicianName,
+  DICOM_TAGS.OperatorsName,
+  'x00080092', // ReferringPhysicianAddress
+  'x00080094', // ReferringPhysicianTelephoneNumbers
+  'x00080096', // ReferringPhysicianIdentificationSequence
+  'x0008009c', // ConsultingPhysicianName
+  'x0008009d', // ConsultingPhysicianIdentificationSequence
+  'x00081048', // PhysiciansOfRecord
+  'x00081049', // PhysiciansOfRecordIdentificationSequence
+  'x00081052', // PerformingPhysicianIdentificationSequence
+  'x00081060', // NameOfPhysiciansReadingStudy
+  'x00081062', // PhysiciansReadingStudyIdentificationSequence
+  'x00081072', // OperatorIdentificationSequence
+  'x00321032', // RequestingPhysician
+  'x00400006', // ScheduledPerformingPhysicianName
+  'x0040000b', // ScheduledPerformingPhysicianIdentificationSequence
+]);
+
+// Attributes controlled by the keepSeriesInfo option
+const SERIES_INFO_TAGS = new Set<string>([
+  DICOM_TAGS.SeriesDescription,
+  DICOM_TAGS.StudyDescription,
+  DICOM_TAGS.ProtocolName,
+]);
+
+const DATE_TIME_VRS = new Set(['DA', 'DT', 'TM']);
+
+// Dummy values for the D action, chosen to be valid for the VR
+const DUMMY_VALUES: Record<string, string | number> = {
+  PN: ANONYMOUS_PATIENT_NAME,
+  DA: '19000101',
+  DT: '19000101000000',
+  TM: '000000',
+  AS: '000D',
+  DS: '0',
+  IS: '0',
+  SS: 0,
+  US: 0,
+  SL: 0,
+  UL: 0,
+  FL: 0,
+  FD: 0,
+};
+const DEFAULT_DUMMY_VALUE = 'ANONYMIZED';
 
 /**
- * Generate anonymous patient ID
+ * Pick one action for the compound codes of Table E.1-1. The IOD Type of an
+ * attribute isn't known here, so the choice is the one valid for every Type:
+ * dummy beats empty, empty beats remove, and U* means the referenced UIDs are remapped.
  */
-export function generateAnonymousID(): string {
-  const timestamp = Date.now();
-  const random = Math.floor(Math.random() * 10000);
-  return `${ANONYMOUS_PATIENT_ID_PREFIX}${timestamp}-${random}`;
+function resolveCompoundAction(action: ProfileAttribute['action']): ProfileAction {
+  switch (action) {
+    case 'X/Z':
+      return 'Z';
+    case 'X/D':
+    case 'Z/D':
+    case 'X/Z/D':
+      return 'D';
+    case 'X/Z/U*':
+      return 'U';
+    default:
+      return action;
+  }
 }
 
 /**
- * Generate anonymous UID with session consistency
- * Same original UID will always map to the same anonymous UID within a session
+ * List the Annex E options the deidentification options amount to. Dates,
+ * institution and UIDs map onto the original switches: leaving dates alone
+ * retains full dates, shifting them retains modified dates.
  */
-export function generateAnonymousUID(originalUID?: string): string {
-  if (!originalUID) {
-    return `2.25.${Date.now()}${Math.floor(Math.random() * 1000000)}`;
-  }
+export function getActiveProfileOptions(options: DeidentifyOptions): ProfileOption[] {
+  const activeOptions: ProfileOption[] = [];
 
-  // Check if we've already anonymized this UID in this session
-  if (uidMappingCache.has(originalUID)) {
-    return uidMappingCache.get(originalUID)!;
+  if (options.cleanGraphics) activeOptions.push('cleanGraphics');
+  if (options.cleanStructuredContent) activeOptions.push('cleanStructuredContent');
+  if (options.cleanDescriptors) activeOptions.push('cleanDescriptors');
+  if (options.shiftDates) {
+    activeOptions.push('retainLongitudinalModifiedDates');
+  } else if (!options.removeDates) {
+    activeOptions.push('retainLongitudinalFullDates');
   }
+  if (options.retainPatientCharacteristics) activeOptions.push('retainPatientCharacteristics');
+  if (options.retainDeviceIdentity) activeOptions.push('retainDeviceIdentity');
+  if (!options.anonymizeUIDs) activeOptions.push('retainUIDs');
+  if (options.privateTagPolicy === 'retainSafe') activeOptions.push('retainSafePrivate');
+  if (!options.removeInstitution) activeOptions.push('retainInstitutionIdentity');
 
-  // Create a deterministic hash from the original UID
-  const hash = originalUID.split('').reduce((acc, char) => {
-    return ((acc << 5) - acc) + char.charCodeAt(0);
-  }, 0);
-
-  // Generate anonymous UID with hash-based suffix for uniqueness
-  const anonymousUID = `2.25.${Math.abs(hash)}${Math.floor(Math.random() * 100000)}`;
-
-  // Cache the mapping for consistency
-  uidMappingCache.set(originalUID, anonymousUID);
-
-  return anonymousUID;
+  return activeOptions;
 }
 
 /**
- * Clear UID mapping cache (useful when starting a new deidentification session)
+ * Decide the action for one attribute: the profile's action unless one of the
+ * options asks to keep, shift, clean or replace it
  */
-export function clearUIDCache(): void {
-  uidMappingCache.clear();
-}
-
-/**
- * Shift a DICOM date by a specified number of days
- * Format: YYYYMMDD
- */
-export function shiftDicomDate(dicomDate: string | undefined, days: number): string | undefined {
-  if (!dicomDate || dicomDate.length !== 8) {
-    return undefined;
+function resolveAction(
+  tag: string,
+  vr: string | undefined,
+  profileAction: ProfileAttribute['action'],
+  options: DeidentifyOptions
+): ProfileAction {
+  // Private attributes the policy removes go whatever their VR; kept ones are
+  // shifted like any other date
+  if (profileAction === PRIVATE_ATTRIBUTE_ACTION && isPrivateTag(tag)) {
+    return PRIVATE_ATTRIBUTE_ACTION;
+  }
+  if (tag === DICOM_TAGS.PatientName) {
+    return options.removePatientName ? 'D' : 'K';
+  }
+  if (tag === DICOM_TAGS.PatientID) {
+    return options.removePatientID ? 'D' : 'K';
+  }
+  if (vr && DATE_TIME_VRS.has(vr)) {
+    if (options.shiftDates) return 'C';
+    if (!options.removeDates) return 'K';
   }
 
-  try {
-    const year = parseInt(dicomDate.substring(0, 4));
-    const month = parseInt(dicomDate.substring(4, 6)) - 1; // JS months are 0-indexed
-    const day = parseInt(dicomDate.substring(6, 8));
-
-    const date = new Date(year, month, day);
-    date.setDate(date.getDate() + days);
+  const optionAction =
+    (!options.removeInstitution && getOptionAction(RETAIN_INSTITUTION_IDENTITY_ACTIONS, tag)) ||
+    (options.retainPatientCharacteristics && getOptionAction(RETAIN_PATIENT_CHARACTERISTICS_ACTIONS, tag)) ||
+    (options.retainDeviceIdentity && getOptionAction(RETAIN_DEVICE_IDENTITY_ACTIONS, tag)) ||
+    (options.cleanDescriptors && getOptionAction(CLEAN_DESCRIPTORS_ACTIONS, tag)) ||
+    (options.cleanStructuredContent && getOptionAction(CLEAN_STRUCTURED_CONTENT_ACTIONS, tag)) ||
+    (options.cleanGraphics && getOptionAction(CLEAN_GRAPHICS_ACTIONS, tag));
+  if (optionAction) {
+    return optionAction;
+  }
 
-    const newYear = date.getFullYear().toString();
-    const newMonth = (date.getMonth() + 1).toString().padStart(2, '0');
-    const newDay = date.getDate().toString().padStart(2, '0');
+  if (PHYSICIAN_TAGS.has(tag) && !options.removePhysicians) {
+    return 'K';
+  }
+  if (SERIES_INFO_TAGS.has(tag) && options.keepSeriesInfo) {
+    return 'K';
+  }
 
-    return `${newYear}${newMonth}${newDay}`;
-  } catch (error) {
-    console.error('Error shifting date:', error);
-    return undefined;
+  const action = resolveCompoundAction(profileAction);
+  if (action === 'U' && !options.anonymizeUIDs) {
+    return 'K';
   }
+  return action;
 }
 
 /**
- * Deidentify DICOM metadata according to options
+ * Action for a private attribute under the private tag policy. Kept data
+ * elements are kept along with the creator elements reserving their block.
  */
-export function deidentifyMetadata(
-  metadata: DicomMetadata,
-  options: DeidentifyOptions
-): DicomMetadata {
-  // Log options for debugging
-  console.log('=== deidentifyMetadata called ===');
-  console.log('Options received:', JSON.parse(JSON.stringify(options)));
-  console.log('Options boolean checks:', {
-    removePatientName: options.removePatientName === true,
-    removePatientID: options.removePatientID === true,
-    removeDates: options.removeDates === true,
-    shiftDates: options.shiftDates === true,
-    dateShiftDays: options.dateShiftDays,
-    removeInstitution: options.removeInstitution === true,
-    removePhysicians: options.removePhysicians === true,
-    anonymizeUIDs: options.anonymizeUIDs === true,
-    keepSeriesInfo: options.keepSeriesInfo === true,
-  });
-  
-  const deidentified: DicomMetadata = { ...metadata };
-
-  // Remove or anonymize patient name
-  if (options.removePatientName === true) {
-    console.log('Applying: removePatientName');
-    deidentified.patientName = ANONYMOUS_PATIENT_NAME;
+function getPrivateAction(dataset: DicomJsonDataset, key: string, options: DeidentifyOptions): ProfileAction {
+  if (options.privateTagPolicy === 'removeAll') {
+    return PRIVATE_ATTRIBUTE_ACTION;
   }
 
-  // Remove or anonymize patient ID
-  if (options.removePatientID === true) {
-    console.log('Applying: removePatientID');
-    deidentified.patientID = generateAnonymousID();
+  const group = key.substring(0, 4);
+  const element = parseInt(key.substring(4), 16);
+  if (element < 0x0010) {
+    return PRIVATE_ATTRIBUTE_ACTION;
   }
 
-  // Handle dates
-  if (options.removeDates === true) {
-    console.log('Applying: removeDates');
-    deidentified.patientBirthDate = undefined;
-    deidentified.studyDate = undefined;
-    deidentified.studyTime = undefined;
-  } else if (options.shiftDates === true && options.dateShiftDays && options.dateShiftDays > 0) {
-    console.log('Applying: shiftDates by', options.dateShiftDays, 'days');
-    deidentified.patientBirthDate = shiftDicomDate(
-      metadata.patientBirthDate,
-      -options.dateShiftDays
-    );
-    deidentified.studyDate = shiftDicomDate(
-      metadata.studyDate,
-      -options.dateShiftDays
+  if (element <= 0x00ff) {
+    const creator = getPrivateCreator(dataset, group, key.substring(6, 8));
+    const reservesKeptElement = Object.keys(dataset).some(
+      (otherKey) =>
+        otherKey.substring(0, 4) === group &&
+        otherKey.substring(4, 6).toUpperCase() === key.substring(6, 8).toUpperCase() &&
+        !!creator &&
+        keepsPrivateAttribute(otherKey, creator, options)
     );
-    // Note: Time is not shifted, only dates
-  }
-
-  // Remove institution information
-  if (options.removeInstitution === true) {
-    console.log('Applying: removeInstitution');
-    deidentified.institutionName = undefined;
-  }
-
-  // Remove physician names
-  if (options.removePhysicians === true) {
-    console.log('Applying: removePhysicians');
-    deidentified.referringPhysicianName = undefined;
-    deidentified.performingPhysicianName = undefined;
+    return reservesKeptElement ? 'K' : PRIVATE_ATTRIBUTE_ACTION;
   }
 
-  // Anonymize UIDs
-  if (options.anonymizeUIDs === true) {
-    console.log('Applying: anonymizeUIDs');
-    deidentified.studyInstanceUID = generateAnonymousUID(metadata.studyInstanceUID);
-    deidentified.seriesInstanceUID = generateAnonymousUID(metadata.seriesInstanceUID);
-    deidentified.sopInstanceUID = generateAnonymousUID(metadata.sopInstanceUID);
-  }
+  const creator = getPrivateCreator(dataset, group, key.substring(4, 6));
+  return creator && keepsPrivateAttribute(key, creator, options) ? 'K' : PRIVATE_ATTRIBUTE_ACTION;
+}
 
-  // Keep series info if requested (this preserves the original values)
-  if (options.keepSeriesInfo === true) {
-    console.log('Applying: keepSeriesInfo (preserving series info)');
-    // Values are already preserved in the copy, but we explicitly keep them
-    deidentified.seriesDescription = metadata.seriesDescription;
-    deidentified.seriesNumber = metadata.seriesNumber;
-    deidentified.modality = metadata.modality;
-  } else {
-    console.log('Not keeping series info - will be removed if present');
-    // If keepSeriesInfo is false, we could remove these, but typically we just don't preserve them
-    // The metadata structure might not have these fields anyway
+/**
+ * Check if the private tag policy keeps a data element of a creator's block:
+ * any element of a listed creator, or the elements on the safe list
+ */
+function keepsPrivateAttribute(key: string, creator: string, options: DeidentifyOptions): boolean {
+  if (options.privateTagPolicy === 'keepCreators') {
+    return (options.keptPrivateCreators ?? []).some(
+      (keptCreator) => keptCreator.trim().toUpperCase() === creator.toUpperCase()
+    );
   }
-
-  console.log('Deidentification complete. Result metadata keys:', Object.keys(deidentified));
-  return deidentified;
+  return isSafePrivateAttribute(`x${key.toLowerCase()}`, creator);
 }
 
 /**
- * Deidentify a complete DICOM dataset
+ * Read the creator that reserved a private block from its (gggg,00xx) element
  */
-export function deidentifyDataset(
-  dataset: any,
-  options: DeidentifyOptions
-): any {
-  const deidentified = { ...dataset };
+function getPrivateCreator(dataset: DicomJsonDataset, group: string, block: string): string | undefined {
+  const creator = dataset[`${group}00${block}`]?.Value?.[0];
+  return typeof creator === 'string' ? creator.trim() : undefined;
+}
 
-  // Remove PHI tags
-  if (options.removePatientName) {
-    deidentified.PatientName = ANONYMOUS_PATIENT_NAME;
-  }
+const TEXT_VRS = new Set(['LO', 'SH', 'ST', 'LT', 'UT', 'UC']);
+
+// Coded entry attributes, kept as they are inside cleaned sequences: a code
+// identifies a concept, not the patient
+const CODED_VALUE_TAGS = new Set<string>([
+  'x00080100', // CodeValue
+  'x00080102', // CodingSchemeDesignator
+  'x00080103', // CodingSchemeVersion
+  'x00080105', // MappingResource
+  'x00080119', // LongCodeValue
+  'x00080120', // URNCodeValue
+]);
+
+// Code sequences of SR content items pass through a cleaned content tree as
+// they are: their triplets name the concepts and units, while the TEXT, PNAME
+// and DATE items beside them hold what is cleaned
+const CONTENT_ITEM_CODE_SEQUENCES = new Set<string>([
+  'x0040a043', // ConceptNameCodeSequence
+  'x0040a168', // ConceptCodeSequence
+  'x004008ea', // MeasurementUnitsCodeSequence
+]);
+
+// Identifiers replaced by keyed pseudonyms instead of dummy or empty values,
+// so the same patient and accession link up across batches
+const PSEUDONYMIZED_TAGS = new Set<string>([DICOM_TAGS.PatientID, DICOM_TAGS.AccessionNumber]);
+
+interface DeidentificationContext {
+  options: DeidentifyOptions;
+  identifiers: KnownIdentifiers;
+  // Every span of free text redacted while cleaning
+  redactions: TextRedaction[];
+  pseudonymizer: Pseudonymizer;
+  // The patient's date offset, the same in every item of the dataset
+  dateOffsetDays: number;
+  // Set inside the items of a cleaned sequence, where kept free text is cleaned too
+  cleaning?: boolean;
+}
 
-  if (options.removePatientID) {
-    deidentified.PatientID = generateAnonymousID();
+/**
+ * Apply one action code to an element of a dataset or sequence item,
+ * returning undefined when it is removed
+ */
+async function applyAction(
+  tag: string,
+  element: DicomJsonElement,
+  action: ProfileAction,
+  item: DicomJsonDataset,
+  context: DeidentificationContext
+): Promise<DicomJsonElement | undefined> {
+  const { options, pseudonymizer } = context;
+  const values = element.Value ?? [];
+
+  if ((action === 'D' || action === 'Z') && PSEUDONYMIZED_TAGS.has(tag) && values.length > 0) {
+    return {
+      vr: element.vr,
+      Value: await Promise.all(
+        values.map((value) => pseudonymizer.pseudonymize(String(value), element.vr, ANONYMOUS_PATIENT_ID_PREFIX))
+      ),
+    };
   }
 
-  // Remove patient birth date
-  if (options.removeDates) {
-    delete deidentified.PatientBirthDate;
-    delete deidentified.StudyDate;
-    delete deidentified.StudyTime;
-    delete deidentified.SeriesDate;
-    delete deidentified.SeriesTime;
-    delete deidentified.AcquisitionDate;
-    delete deidentified.AcquisitionTime;
-    delete deidentified.ContentDate;
-    delete deidentified.ContentTime;
-  } else if (options.shiftDates && options.dateShiftDays && options.dateShiftDays > 0) {
-    // Shift dates
-    if (deidentified.PatientBirthDate) {
-      deidentified.PatientBirthDate = shiftDicomDate(
-        deidentified.PatientBirthDate,
-        -options.dateShiftDays
-      );
-    }
-    if (deidentified.StudyDate) {
-      deidentified.StudyDate = shiftDicomDate(
-        deidentified.StudyDate,
-        -options.dateShiftDays
-      );
-    }
-    if (deidentified.SeriesDate) {
-      deidentified.SeriesDate = shiftDicomDate(
-        deidentified.SeriesDate,
-        -options.dateShiftDays
-      );
-    }
-    if (deidentified.AcquisitionDate) {
-      deidentified.AcquisitionDate = shiftDicomDate(
-        deidentified.AcquisitionDate,
-        -options.dateShiftDays
-      );
+  switch (action) {
+    case 'X':
+      return undefined;
+
+    case 'Z':
+      return { vr: element.vr, Value: [] };
+
+    case 'D':
+      if (element.vr === 'SQ') {
+        return { vr: element.vr, Value: [] };
+      }
+      if (element.vr === 'UI') {
+        // Replaced together with every other UID by remapDatasetUIDs
+        return element;
+      }
+      return { vr: element.vr, Value: [DUMMY_VALUES[element.vr] ?? DEFAULT_DUMMY_VALUE] };
+
+    case 'U':
+      // UIDs are remapped in one pass over the whole dataset afterwards, so
+      // references inside sequences resolve to the same new UIDs
+      if (element.vr === 'SQ') {
+        return { vr: element.vr, Value: await deidentifyItems(values, context) };
+      }
+      return element;
+
+    case 'C': {
+      const shift: DateTimeShift = {
+        days: context.dateOffsetDays,
+        timeHandling: options.timeHandling,
+        minutes: options.timeShiftMinutes ?? 0,
+      };
+      // Every value of a multi-valued element is shifted; values that aren't
+      // valid for the VR can't be shifted and are dropped
+      if (element.vr === 'DA') {
+        // A date takes the day its paired time crosses midnight into
+        const days = shift.days + getCarriedDays(item, tag.substring(1), shift);
+        return {
+          vr: element.vr,
+          Value: values
+            .map((value) => shiftDicomDate(String(value), days))
+            .filter((value) => value !== undefined),
+        };
+      }
+      if (element.vr === 'DT') {
+        return {
+          vr: element.vr,
+          Value: values
+            .map((value) => shiftDicomDateTime(String(value), shift))
+            .filter((value) => value !== undefined),
+        };
+      }
+      if (element.vr === 'TM') {
+        return {
+          vr: element.vr,
+          Value: values
+            .map((value) => shiftDicomTime(String(value), shift))
+            .filter((value) => value !== undefined),
+        };
+      }
+      if (TEXT_VRS.has(element.vr)) {
+        return {
+          vr: element.vr,
+          Value: values.map((value) => {
+            const { text, matches } = scrubText(String(value), element.vr, context.identifiers);
+            if (matches.length > 0) {
+              context.redactions.push({ tag, original: String(value), redacted: text, matches });
+            }
+            return text;
+          }),
+        };
+      }
+      if (element.vr === 'SQ') {
+        // Cleaning a sequence applies the profile to every attribute of its items
+        return { vr: element.vr, Value: await deidentifyItems(values, { ...context, cleaning: true }) };
+      }
+      // Binary values such as overlay bitmaps can't be cleaned here, so they are removed
+      return undefined;
     }
-    if (deidentified.ContentDate) {
-      deidentified.ContentDate = shiftDicomDate(
-        deidentified.ContentDate,
-        -options.dateShiftDays
-      );
-    }
-  }
 
-  // Remove additional PHI
-  if (options.removeInstitution) {
-    delete deidentified.InstitutionName;
-    delete deidentified.InstitutionAddress;
-    delete deidentified.InstitutionalDepartmentName;
+    default:
+      // Keeping a sequence keeps its items, with the profile applied inside them
+      if (element.vr === 'SQ') {
+        return { vr: element.vr, Value: await deidentifyItems(values, context) };
+      }
+      return element;
   }
+}
 
-  if (options.removePhysicians) {
-    delete deidentified.ReferringPhysicianName;
-    delete deidentified.PerformingPhysicianName;
-    delete deidentified.OperatorsName;
-    delete deidentified.PhysiciansOfRecord;
-  }
+/**
+ * Apply the profile to the items of a sequence
+ */
+function deidentifyItems(items: unknown[], context: DeidentificationContext): Promise<DicomJsonDataset[]> {
+  return Promise.all(items.map((item) => deidentifyElements(item as DicomJsonDataset, context)));
+}
 
-  // Remove other common PHI tags
-  delete deidentified.PatientAddress;
-  delete deidentified.PatientTelephoneNumbers;
-  delete deidentified.PatientAge;
-  delete deidentified.PatientSize;
-  delete deidentified.PatientWeight;
-  delete deidentified.PatientComments;
-  delete deidentified.AdditionalPatientHistory;
-
-  // Anonymize UIDs if requested
-  if (options.anonymizeUIDs) {
-    if (deidentified.StudyInstanceUID) {
-      deidentified.StudyInstanceUID = generateAnonymousUID(deidentified.StudyInstanceUID);
+/**
+ * Apply the resolved action to every element of a dataset or sequence item
+ */
+async function deidentifyElements(
+  dataset: DicomJsonDataset,
+  context: DeidentificationContext
+): Promise<DicomJsonDataset> {
+  const deidentified: DicomJsonDataset = {};
+
+  for (const [key, element] of Object.entries(dataset)) {
+    const tag = `x${key.toLowerCase()}`;
+    if (context.cleaning && CONTENT_ITEM_CODE_SEQUENCES.has(tag)) {
+      deidentified[key] = element;
+      continue;
     }
-    if (deidentified.SeriesInstanceUID) {
-      deidentified.SeriesInstanceUID = generateAnonymousUID(deidentified.SeriesInstanceUID);
+    const profileAction = isPrivateTag(tag)
+      ? getPrivateAction(dataset, key, context.options)
+      : (getProfileAttribute(tag)?.action ?? 'K');
+
+    let action = resolveAction(tag, element.vr, profileAction, context.options);
+    if (action === 'K' && context.cleaning && TEXT_VRS.has(element.vr) && !CODED_VALUE_TAGS.has(tag)) {
+      action = 'C';
     }
-    if (deidentified.SOPInstanceUID) {
-      deidentified.SOPInstanceUID = generateAnonymousUID(deidentified.SOPInstanceUID);
+    const result = await applyAction(tag, element, action, dataset, context);
+    if (result) {
+      deidentified[key] = result;
     }
   }
 
-  // Keep description fields if keeping series info
-  if (!options.keepSeriesInfo) {
-    delete deidentified.SeriesDescription;
-    delete deidentified.StudyDescription;
-    delete deidentified.ProtocolName;
+  return deidentified;
+}
+
+/**
+ * Check if a dataset is a Structured Report, whose content tree is the document itself
+ */
+function isStructuredReport(dataset: DicomJsonDataset): boolean {
+  const modality = String(dataset['00080060']?.Value?.[0] ?? '').trim().toUpperCase();
+  const sopClassUID = String(dataset['00080016']?.Value?.[0] ?? '').trim();
+  return modality === 'SR' || sopClassUID.startsWith(STRUCTURED_REPORT_SOP_CLASS_ROOT);
+}
+
+/**
+ * Build a DeidentificationMethodCodeSequence item from a CID 7050 code
+ */
+function toCodeSequenceItem({ codeValue, codeMeaning }: ProfileCode): DicomJsonDataset {
+  return {
+    '00080100': { vr: 'SH', Value: [codeValue] },
+    '00080102': { vr: 'SH', Value: ['DCM'] },
+    '00080104': { vr: 'LO', Value: [codeMeaning] },
+  };
+}
+
+/**
+ * The number of days a patient's dates move by, 0 unless dates are shifted.
+ * Keyed by Patient ID, so all of a patient's studies move together and keep their intervals.
+ */
+export async function getDateOffsetDays(
+  patientID: string,
+  options: DeidentifyOptions,
+  pseudonymizer: Pseudonymizer
+): Promise<number> {
+  if (!options.shiftDates) {
+    return 0;
   }
+  return pseudonymizer.dateOffset(
+    patientID,
+    options.dateShiftMinDays ?? DEFAULT_DATE_SHIFT_MIN_DAYS,
+    options.dateShiftMaxDays ?? DEFAULT_DATE_SHIFT_MAX_DAYS
+  );
+}
 
-  // Remove accession number (contains PHI)
-  delete deidentified.AccessionNumber;
+/**
+ * Deidentify a complete DICOM dataset (DICOM JSON model keyed by tag number,
+ * as read by dcmjs) by applying the Annex E action of every attribute.
+ * Patient and accession identifiers become keyed pseudonyms. Spans redacted
+ * from free text are added to redactions. The content tree of a Structured
+ * Report is always cleaned rather than removed: PNAME, DATE, DATETIME and TIME
+ * items get the profile's actions, TEXT items are scrubbed and UIDREF items
+ * remapped, while concept and unit codes are kept as they are.
+ */
+export async function deidentifyDataset(
+  dataset: DicomJsonDataset,
+  options: DeidentifyOptions,
+  pseudonymizer: Pseudonymizer,
+  uidMapper: UIDMapper,
+  redactions: TextRedaction[] = []
+): Promise<DicomJsonDataset> {
+  const profileOptions = isStructuredReport(dataset) ? { ...options, cleanStructuredContent: true } : options;
+  const activeOptions = getActiveProfileOptions(profileOptions);
+
+  const dateOffsetDays = await getDateOffsetDays(String(dataset['00100020']?.Value?.[0] ?? ''), options, pseudonymizer);
+
+  const profiled = await deidentifyElements(dataset, {
+    options: profileOptions,
+    identifiers: collectIdentifiers(dataset),
+    redactions,
+    pseudonymizer,
+    dateOffsetDays,
+  });
+
+  const remapped = options.anonymizeUIDs ? await remapDatasetUIDs(profiled, uidMapper) : profiled;
+  const generalized = options.safeHarbor
+    ? applySafeHarbor(dataset, remapped, options.safeHarborBirthDate)
+    : remapped;
+
+  // Custom rules run after the profile, so a keep rule can undo a removal
+  const deidentified = await applyCustomRules(dataset, generalized, options.customRules ?? [], pseudonymizer);
 
   // Add deidentification notes
-  deidentified.PatientIdentityRemoved = 'YES';
-  deidentified.DeidentificationMethod = 'DICOM Deidentification Viewer v1.0';
-  deidentified.DeidentificationMethodCodeSequence = [
-    {
-      CodeValue: '113100',
-      CodingSchemeDesignator: 'DCM',
-      CodeMeaning: 'Basic Application Confidentiality Profile',
-    },
-  ];
+  deidentified['00120062'] = { vr: 'CS', Value: ['YES'] }; // PatientIdentityRemoved
+  deidentified['00120063'] = {
+    // DeidentificationMethod
+    vr: 'LO',
+    Value: ['DICOM Deidentification Viewer v1.0', ...(options.safeHarbor ? [SAFE_HARBOR_METHOD] : [])],
+  };
+  deidentified['00120064'] = {
+    // DeidentificationMethodCodeSequence
+    vr: 'SQ',
+    Value: [BASIC_PROFILE_CODE, ...activeOptions.map((option) => PROFILE_OPTION_CODES[option])].map(toCodeSequenceItem),
+  };
+
+  // LongitudinalTemporalInformationModified
+  deidentified['00280303'] = {
+    vr: 'CS',
+    Value: [options.shiftDates ? 'MODIFIED' : options.removeDates ? 'REMOVED' : 'UNMODIFIED'],
+  };
 
   return deidentified;
 }
 
 /**
- * Get list of tags that will be modified
+ * Add the Clean Pixel Data Option to the deidentification method of a dataset
+ * whose burned-in text has been blanked
  */
-export function getModifiedTags(options: DeidentifyOptions): string[] {
-  const tags: string[] = [];
+export function recordCleanPixelData(dataset: DicomJsonDataset): void {
+  dataset['00120063'] = {
+    vr: 'LO',
+    Value: [...(dataset['00120063']?.Value ?? []), CLEAN_PIXEL_DATA_METHOD],
+  };
+  dataset['00120064'] = {
+    vr: 'SQ',
+    Value: [...(dataset['00120064']?.Value ?? []), toCodeSequenceItem(PROFILE_OPTION_CODES.cleanPixelData)],
+  };
+}
 
-  if (options.removePatientName) {
-    tags.push('PatientName');
-  }
-  if (options.removePatientID) {
-    tags.push('PatientID');
-  }
-  if (options.removeDates) {
-    tags.push('PatientBirthDate', 'StudyDate', 'StudyTime');
-  }
-  if (options.shiftDates) {
-    tags.push('Dates (shifted)');
-  }
-  if (options.removeInstitution) {
-    tags.push('InstitutionName', 'InstitutionAddress');
-  }
-  if (options.removePhysicians) {
-    tags.push('ReferringPhysicianName', 'PerformingPhysicianName');
-  }
-  if (options.anonymizeUIDs) {
-    tags.push('StudyInstanceUID', 'SeriesInstanceUID', 'SOPInstanceUID');
-  }
+// The private attributes each policy removes, as listed in the settings
+const REMOVED_PRIVATE_ATTRIBUTES: Record<PrivateTagPolicy, string> = {
+  removeAll: 'PrivateAttributes',
+  retainSafe: 'PrivateAttributes (not on the safe list)',
+  keepCreators: 'PrivateAttributes (of creators not kept)',
+};
+
+export interface ModifiedTag {
+  tag: string;
+  name: string;
+  action: ProfileAction;
+}
+
+/**
+ * Get list of tags that will be modified, with the action each one receives
+ */
+export function getModifiedTags(options: DeidentifyOptions): ModifiedTag[] {
+  const tags: ModifiedTag[] = [];
+
+  [
+    ...BASIC_PROFILE_ATTRIBUTES,
+    ...BASIC_PROFILE_REPEATING_ATTRIBUTES,
+    ...(options.cleanGraphics ? CLEAN_GRAPHICS_ATTRIBUTES : []),
+  ].forEach(({ tag, name, action }) => {
+    const vr = DicomMetaDictionary.dictionary[formatTag(tag)]?.vr;
+    const resolvedAction = resolveAction(tag, vr, action, options);
+    if (resolvedAction !== 'K') {
+      tags.push({ tag, name, action: resolvedAction });
+    }
+  });
 
-  // Always removed
-  tags.push('PatientAddress', 'PatientTelephoneNumbers', 'AccessionNumber');
+  tags.push({
+    tag: 'xggggeeee',
+    name: REMOVED_PRIVATE_ATTRIBUTES[options.privateTagPolicy],
+    action: PRIVATE_ATTRIBUTE_ACTION,
+  });
 
   return tags;
 }
@@ -340,18 +592,37 @@ export function validateDeidentificationOptions(options: DeidentifyOptions): {
 } {
   const errors: string[] = [];
 
-  if (options.shiftDates && !options.dateShiftDays) {
-    errors.push('Date shift is enabled but no shift days specified');
+  if (options.shiftDates && (options.dateShiftMinDays == null || options.dateShiftMaxDays == null)) {
+    errors.push('Date shift is enabled but no shift range specified');
   }
 
   if (options.shiftDates && options.removeDates) {
     errors.push('Cannot both shift and remove dates');
   }
 
-  if (options.dateShiftDays && options.dateShiftDays < 0) {
-    errors.push('Date shift days must be positive');
+  if (options.shiftDates && options.dateShiftMinDays != null && options.dateShiftMaxDays != null) {
+    if (options.dateShiftMinDays > options.dateShiftMaxDays) {
+      errors.push('Date shift range minimum must not exceed its maximum');
+    } else if (options.dateShiftMinDays === 0 && options.dateShiftMaxDays === 0) {
+      errors.push('Date shift range must include a non-zero offset');
+    }
   }
 
+  if (options.shiftDates && options.timeHandling === 'shift' && !options.timeShiftMinutes) {
+    errors.push('Time shift is enabled but no shift minutes specified');
+  }
+
+  if (options.privateTagPolicy === 'keepCreators' && (options.keptPrivateCreators ?? []).length === 0) {
+    errors.push('Private creators are kept but none are listed');
+  }
+
+  (options.customRules ?? []).forEach((rule) => {
+    const error = validateRule(rule);
+    if (error) {
+      errors.push(error);
+    }
+  });
+
   return {
     valid: errors.length === 0,
     errors,
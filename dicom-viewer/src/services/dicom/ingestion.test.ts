@@ -0,0 +1,90 @@
+import JSZip from 'jszip';
+import type { DicomJsonDataset } from 'dcmjs';
+import { describe, expect, it } from 'vitest';
+import type { IngestedFile } from '@store/types';
+import { MEDIA_STORAGE_DIRECTORY_SOP_CLASS } from '@utils/constants';
+import { createImageDataset, createPart10Buffer } from '@/test/dicomFixtures';
+import { ingestFiles } from './ingestion';
+
+const toIngested = (fileName: string, content: BlobPart): IngestedFile => ({
+  file: new File([content], fileName.split('/').pop() ?? fileName),
+  fileName,
+});
+
+/**
+ * A DICOMDIR whose directory records reference the given paths below its folder
+ */
+function createDicomdir(...fileIDs: string[][]): ArrayBuffer {
+  const dataset: DicomJsonDataset = {
+    '00080016': { vr: 'UI', Value: [MEDIA_STORAGE_DIRECTORY_SOP_CLASS] },
+    '00041220': {
+      vr: 'SQ',
+      Value: fileIDs.map((fileID) => ({
+        '00041430': { vr: 'CS', Value: ['IMAGE'] },
+        '00041500': { vr: 'CS', Value: fileID },
+      })),
+    },
+  };
+  return createPart10Buffer(dataset);
+}
+
+/**
+ * The dataset of a Part 10 file without its preamble and File Meta Information
+ */
+function toRawDataset(buffer: ArrayBuffer): ArrayBuffer {
+  const groupLength = new DataView(buffer).getUint32(140, true);
+  return buffer.slice(144 + groupLength);
+}
+
+const fileNames = (files: IngestedFile[]) => files.map((item) => item.fileName);
+
+describe('ingestFiles', () => {
+  it('passes files picked on their own on, whatever they hold', async () => {
+    const result = await ingestFiles([
+      toIngested('image.dcm', createPart10Buffer(createImageDataset())),
+      toIngested('notes.txt', 'not DICOM'),
+    ]);
+
+    expect(fileNames(result.files)).toEqual(['image.dcm', 'notes.txt']);
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('keeps files in folders by their content, not their extension', async () => {
+    const result = await ingestFiles([
+      toIngested('study/IM0001', createPart10Buffer(createImageDataset())),
+      // A raw dataset, with neither preamble nor File Meta Information
+      toIngested('study/IM0002', toRawDataset(createPart10Buffer(createImageDataset()))),
+      toIngested('study/readme.txt', 'not DICOM'),
+    ]);
+
+    expect(fileNames(result.files)).toEqual(['study/IM0001', 'study/IM0002']);
+    expect(result.skipped).toEqual(['study/readme.txt']);
+  });
+
+  it('extracts ZIP archives, nested folders included', async () => {
+    const zip = new JSZip();
+    zip.file('series/IM0001', createPart10Buffer(createImageDataset()));
+    zip.file('series/IM0002', toRawDataset(createPart10Buffer(createImageDataset())));
+    zip.file('series/thumbs.db', 'junk');
+    const archive = await zip.generateAsync({ type: 'arraybuffer' });
+
+    const result = await ingestFiles([toIngested('export.zip', archive)]);
+
+    expect(fileNames(result.files)).toEqual(['export.zip/series/IM0001', 'export.zip/series/IM0002']);
+    expect(result.skipped).toEqual(['export.zip/series/thumbs.db']);
+  });
+
+  it('resolves DICOMDIR references to the files uploaded with it and reports missing ones', async () => {
+    const result = await ingestFiles([
+      toIngested('cd/DICOMDIR', createDicomdir(['IMAGES', 'IM1'], ['IMAGES', 'IM2'])),
+      // Raw datasets, without the DICM prefix, are kept when referenced
+      toIngested('cd/images/im1.;1', new Uint8Array(createPart10Buffer(createImageDataset())).slice(132)),
+      toIngested('cd/junk.bin', new Uint8Array([1, 2, 3])),
+    ]);
+
+    expect(result.dicomdirCount).toBe(1);
+    expect(fileNames(result.files)).toEqual(['cd/images/im1.;1']);
+    expect(result.missing).toEqual(['cd/IMAGES/IM2']);
+    expect(result.skipped).toEqual(['cd/junk.bin']);
+  });
+});
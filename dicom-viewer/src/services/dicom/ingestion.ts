@@ -0,0 +1,152 @@
+/**
+ * File Ingestion
+ * Turns the files the user picked or dropped, with their paths within dropped
+ * folders, into the DICOM files to load: ZIP archives are extracted with
+ * JSZip, and DICOMDIR indexes are resolved to the files they reference. Files
+ * are recognized by their content, not their extension.
+ */
+
+import JSZip from 'jszip';
+import * as dicomParser from 'dicom-parser';
+import type { IngestedFile } from '@store/types';
+import { MEDIA_STORAGE_DIRECTORY_SOP_CLASS } from '@utils/constants';
+import { detectRawTransferSyntax, hasPart10Header } from './transferSyntax';
+
+export interface IngestionResult {
+  files: IngestedFile[];
+  // Files in folders and archives that aren't DICOM
+  skipped: string[];
+  // Files a DICOMDIR references that weren't among those uploaded
+  missing: string[];
+  dicomdirCount: number;
+}
+
+// Enough to hold the preamble, the DICM prefix and a DICOMDIR's File Meta Information
+const HEADER_PEEK_LENGTH = 8192;
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+function isZip(header: Uint8Array): boolean {
+  return ZIP_SIGNATURE.every((byte, index) => header[index] === byte);
+}
+
+/**
+ * Read a DICOMDIR's Media Storage SOP Class from its File Meta Information
+ */
+function isDicomdir(header: Uint8Array): boolean {
+  try {
+    const dataSet = dicomParser.readPart10Header(header);
+    return dataSet.string('x00020002')?.trim() === MEDIA_STORAGE_DIRECTORY_SOP_CLASS;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compare paths the way media file systems name them: any case, with or
+ * without the ISO 9660 version suffix and trailing dot
+ */
+function normalizePath(path: string): string {
+  return path
+    .split(/[/\\]/)
+    .filter(Boolean)
+    .map((part) => part.replace(/;\d+$/, '').replace(/\.$/, '').toLowerCase())
+    .join('/');
+}
+
+/**
+ * List the paths a DICOMDIR references, relative to the folder it is in. Each
+ * directory record's Referenced File ID holds the path components.
+ */
+async function readDicomdirReferences(dicomdir: IngestedFile): Promise<string[]> {
+  const dataSet = dicomParser.parseDicom(new Uint8Array(await dicomdir.file.arrayBuffer()));
+  const folder = dicomdir.fileName.includes('/') ? dicomdir.fileName.replace(/\/[^/]*$/, '/') : '';
+  const records = dataSet.elements['x00041220']?.items ?? [];
+
+  return records.flatMap((record) => {
+    const fileID = record.dataSet?.string('x00041500');
+    return fileID ? [folder + fileID.split('\\').map((part) => part.trim()).join('/')] : [];
+  });
+}
+
+/**
+ * Extract every file of a ZIP archive, named by its path below the archive
+ */
+async function extractZip(archive: IngestedFile): Promise<IngestedFile[]> {
+  const zip = await JSZip.loadAsync(archive.file);
+  const entries = Object.values(zip.files).filter((entry) => !entry.dir);
+  return Promise.all(
+    entries.map(async (entry) => ({
+      file: new File([await entry.async('blob')], entry.name.split('/').pop() ?? entry.name),
+      fileName: `${archive.fileName}/${entry.name}`,
+    }))
+  );
+}
+
+/**
+ * Expand ZIP archives and DICOMDIRs into the DICOM files to load.
+ * Files picked on their own are passed on for validation whatever they hold;
+ * files inside a folder or archive are kept when they have the DICM prefix,
+ * start like a raw dataset without one, or a DICOMDIR references them.
+ */
+export async function ingestFiles(items: IngestedFile[]): Promise<IngestionResult> {
+  const candidates: IngestedFile[] = [];
+  // Files recognized as DICOM by their content
+  const recognized = new Set<IngestedFile>();
+  const dicomdirs: IngestedFile[] = [];
+  const skipped: string[] = [];
+  const pending = [...items];
+
+  while (pending.length > 0) {
+    const item = pending.shift()!;
+    const header = new Uint8Array(await item.file.slice(0, HEADER_PEEK_LENGTH).arrayBuffer());
+
+    if (isZip(header)) {
+      pending.push(...(await extractZip(item)));
+    } else if (!hasPart10Header(header)) {
+      candidates.push(item);
+      if (detectRawTransferSyntax(header)) {
+        recognized.add(item);
+      }
+    } else if (isDicomdir(header)) {
+      dicomdirs.push(item);
+    } else {
+      candidates.push(item);
+      recognized.add(item);
+    }
+  }
+
+  // Resolve every DICOMDIR against the files uploaded with it
+  const referenced = new Set<string>();
+  const missing: string[] = [];
+  const paths = new Set(candidates.map((item) => normalizePath(item.fileName)));
+  for (const dicomdir of dicomdirs) {
+    let references: string[];
+    try {
+      references = await readDicomdirReferences(dicomdir);
+    } catch {
+      skipped.push(dicomdir.fileName);
+      continue;
+    }
+    for (const path of references) {
+      const normalized = normalizePath(path);
+      if (paths.has(normalized)) {
+        referenced.add(normalized);
+      } else {
+        missing.push(path);
+      }
+    }
+  }
+
+  const files: IngestedFile[] = [];
+  candidates.forEach((item) => {
+    const contained = item.fileName.includes('/');
+    if (!contained || recognized.has(item) || referenced.has(normalizePath(item.fileName))) {
+      files.push(item);
+    } else {
+      skipped.push(item.fileName);
+    }
+  });
+
+  return { files, skipped, missing: [...new Set(missing)], dicomdirCount: dicomdirs.length };
+}
@@ -0,0 +1,107 @@
+import type { DicomJsonDataset } from 'dcmjs';
+import { describe, expect, it } from 'vitest';
+import { createDeidentifyOptions, createImageDataset, createPart10Buffer } from '@/test/dicomFixtures';
+import { createVerificationErrorFinding, scanForResidualPHI } from './leakScanner';
+
+const original = createPart10Buffer(createImageDataset());
+
+const clean: DicomJsonDataset = {
+  ...createImageDataset(),
+  '00080020': { vr: 'DA', Value: ['20231201'] },
+  '00080050': { vr: 'SH', Value: ['ANON-ACC'] },
+  '00100010': { vr: 'PN', Value: [{ Alphabetic: 'ANONYMOUS' }] },
+  '00100020': { vr: 'LO', Value: ['ANON-0123456789'] },
+  '00100030': { vr: 'DA', Value: ['19691120'] },
+};
+
+function scan(deidentified: DicomJsonDataset, options = createDeidentifyOptions()) {
+  return scanForResidualPHI(original, createPart10Buffer(deidentified), options);
+}
+
+describe('scanForResidualPHI', () => {
+  it('finds nothing in a clean file', () => {
+    expect(scan(clean)).toEqual([]);
+  });
+
+  it('finds the original names, identifiers and dates, by tag path', () => {
+    const findings = scan({
+      ...clean,
+      '00081030': { vr: 'LO', Value: ['CT for john DOE'] },
+      '00400275': { vr: 'SQ', Value: [{ '00401001': { vr: 'SH', Value: ['MRN1234567'] } }] },
+      '00080021': { vr: 'DA', Value: ['20240315'] },
+    });
+
+    expect(findings).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ tag: 'x00081030', phi: 'Doe', kind: 'name', match: 'case-folded' }),
+        expect.objectContaining({ tag: 'x00400275[0].x00401001', phi: 'MRN1234567', kind: 'identifier', match: 'exact' }),
+        expect.objectContaining({ tag: 'x00080021', phi: '20240315', kind: 'date' }),
+      ])
+    );
+  });
+
+  it('reads every component group of person names', () => {
+    const findings = scan({
+      ...clean,
+      '00100010': { vr: 'PN', Value: [{ Alphabetic: 'ANONYMOUS', Phonetic: 'doe^john' }] },
+    });
+
+    expect(findings.map(({ tag, phi }) => `${tag} ${phi}`)).toEqual(['x00100010 Doe', 'x00100010 John']);
+  });
+
+  it('reads private binary values as text', () => {
+    const findings = scan({
+      ...clean,
+      '00090010': { vr: 'LO', Value: ['ACME 1.0'] },
+      '00091001': { vr: 'OB', Value: [new TextEncoder().encode('patient MRN1234567 ').buffer] },
+      '7FE00010': { vr: 'OB', Value: [new TextEncoder().encode('MRN1234567').buffer] },
+    });
+
+    expect(findings.map(({ tag }) => tag)).toEqual(['x00091001']);
+  });
+
+  it('skips attributes the options keep, at any depth', () => {
+    const options = createDeidentifyOptions({ removePatientName: false, removePatientID: false });
+    const findings = scan(
+      {
+        ...createImageDataset(),
+        '00080020': { vr: 'DA', Value: ['20231201'] },
+        '00080050': { vr: 'SH', Value: ['ANON-ACC'] },
+        '00100030': { vr: 'DA', Value: ['19691120'] },
+        '00101002': {
+          vr: 'SQ',
+          Value: [
+            {
+              '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Doe^John' }] },
+              '00100020': { vr: 'LO', Value: ['MRN1234567'] },
+            },
+          ],
+        },
+      },
+      options
+    );
+
+    expect(findings).toEqual([]);
+  });
+
+  it('leaves dates alone when the options keep them', () => {
+    const findings = scan(
+      { ...clean, '00080020': { vr: 'DA', Value: ['20240315'] } },
+      createDeidentifyOptions({ shiftDates: false })
+    );
+
+    expect(findings).toEqual([]);
+  });
+});
+
+describe('createVerificationErrorFinding', () => {
+  it('records why a file could not be verified', () => {
+    expect(createVerificationErrorFinding(new Error('Failed to read'))).toEqual({
+      tag: '',
+      vr: '',
+      value: 'Failed to read',
+      phi: '',
+      kind: 'verification-error',
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Residual PHI Leak Scanner
+ * Re-reads a deidentified file and searches every string element, sequence
+ * item and private block (binary values included) for the original file's
+ * names, IDs and dates
+ */
+
+import dcmjs from 'dcmjs';
+import type { DicomJsonDataset } from 'dcmjs';
+import type { DeidentifyOptions, LeakFinding } from '@store/types';
+import { DICOM_TAGS } from '@utils/dicomTags';
+import { isPrivateTag } from '@utils/confidentialityProfile';
+import { collectIdentifiers } from './textScrubber';
+
+const { DicomMessage } = dcmjs.data;
+
+// Values the scanner reads as text; UN covers private elements of implicit VR files
+const SCANNED_VRS = new Set(['AE', 'AS', 'CS', 'DA', 'DS', 'DT', 'IS', 'LO', 'LT', 'PN', 'SH', 'ST', 'TM', 'UC', 'UI', 'UR', 'UT', 'UN']);
+
+// Binary VRs private creators often store text in, read as text in private groups only
+const PRIVATE_BINARY_VRS = new Set(['OB', 'OW']);
+
+// Component groups of a person name in the DICOM JSON model
+const PERSON_NAME_GROUPS = ['Alphabetic', 'Ideographic', 'Phonetic'] as const;
+
+interface PhiValue {
+  value: string;
+  kind: LeakFinding['kind'];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Read the values of an element as text: person names by all their component
+ * groups, and binary values by their bytes
+ */
+function elementToText(vr: string, values: unknown[]): string[] {
+  return values.map((value) => {
+    if (value instanceof ArrayBuffer) {
+      return new TextDecoder('latin1').decode(value);
+    }
+    if (value && typeof value === 'object') {
+      const name = value as Partial<Record<(typeof PERSON_NAME_GROUPS)[number], string>>;
+      return PERSON_NAME_GROUPS.map((group) => name[group] ?? '').join('=').replace(/=+$/, '');
+    }
+    return vr === 'PN' || typeof value === 'string' ? String(value ?? '') : '';
+  });
+}
+
+/**
+ * Check if the scanner reads an element's values as text
+ */
+function isScanned(tag: string, vr: string): boolean {
+  return SCANNED_VRS.has(vr) || (PRIVATE_BINARY_VRS.has(vr) && isPrivateTag(tag));
+}
+
+/**
+ * List the original values the deidentified file must no longer contain.
+ * Values the options deliberately keep aren't searched for.
+ */
+function collectPhiValues(original: DicomJsonDataset, options: DeidentifyOptions): PhiValue[] {
+  const { names, ids, dates } = collectIdentifiers(original);
+  return [
+    ...names.map((value) => ({ value, kind: 'name' as const })),
+    ...ids.map((value) => ({ value, kind: 'identifier' as const })),
+    ...(options.shiftDates || options.removeDates ? dates.map((value) => ({ value, kind: 'date' as const })) : []),
+  ];
+}
+
+/**
+ * Search a dataset for the PHI values, descending into sequence items.
+ * Tags are reported as paths such as 'x00400275[0].x00401001'.
+ */
+function scanDataset(
+  dataset: DicomJsonDataset,
+  phiValues: PhiValue[],
+  keptTags: Set<string>,
+  prefix: string = ''
+): LeakFinding[] {
+  const findings: LeakFinding[] = [];
+
+  Object.entries(dataset).forEach(([key, element]) => {
+    const tag = `x${key.toLowerCase()}`;
+    const values = element.Value ?? [];
+
+    if (element.vr === 'SQ') {
+      values.forEach((item, index) => {
+        findings.push(...scanDataset(item as DicomJsonDataset, phiValues, keptTags, `${prefix}${tag}[${index}].`));
+      });
+      return;
+    }
+    // Kept attributes are kept at any depth, as the deidentifier keeps them
+    if (!isScanned(tag, element.vr) || keptTags.has(tag)) {
+      return;
+    }
+
+    const text = elementToText(element.vr, values).join('\\');
+    phiValues.forEach(({ value, kind }) => {
+      // Whole words, so name components are found in any order and case
+      const pattern = `(?<![A-Za-z0-9])${escapeRegExp(value)}(?![A-Za-z0-9])`;
+      const match = new RegExp(pattern).test(text)
+        ? 'exact'
+        : new RegExp(pattern, 'i').test(text)
+          ? 'case-folded'
+          : undefined;
+      if (match) {
+        findings.push({ tag: `${prefix}${tag}`, vr: element.vr, value: text, phi: value, kind, match });
+      }
+    });
+  });
+
+  return findings;
+}
+
+/**
+ * Scan a deidentified file for PHI of its original
+ */
+export function scanForResidualPHI(
+  originalBuffer: ArrayBuffer,
+  deidentifiedBuffer: ArrayBuffer,
+  options: DeidentifyOptions
+): LeakFinding[] {
+  const original = DicomMessage.readFile(originalBuffer);
+  const deidentified = DicomMessage.readFile(deidentifiedBuffer);
+  const phiValues = collectPhiValues(original.dict, options);
+
+  // Attributes the options keep on purpose
+  const keptTags = new Set<string>();
+  if (!options.removePatientName) keptTags.add(DICOM_TAGS.PatientName);
+  if (!options.removePatientID) keptTags.add(DICOM_TAGS.PatientID);
+
+  return [...scanDataset(deidentified.meta, phiValues, keptTags), ...scanDataset(deidentified.dict, phiValues, keptTags)];
+}
+
+/**
+ * The finding recorded for a file that couldn't be scanned, so it counts
+ * against export like residual PHI until it is acknowledged
+ */
+export function createVerificationErrorFinding(error: unknown): LeakFinding {
+  return {
+    tag: '',
+    vr: '',
+    value: error instanceof Error ? error.message : String(error),
+    phi: '',
+    kind: 'verification-error',
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Pixel Mask Templates
+ * Saved redaction masks for a device and image size, so every image of the
+ * same layout (e.g. an ultrasound scanner's header bar) is cleaned the same
+ * way, as in CTP's DicomPixelAnonymizer scripts
+ */
+
+import type { DicomMetadata, MaskTemplate, PixelMask } from '@store/types';
+import { DICOM_TAGS } from '@utils/dicomTags';
+import { STORAGE_KEYS } from '@utils/constants';
+
+type MaskTemplateKey = Pick<MaskTemplate, 'manufacturer' | 'model' | 'rows' | 'columns'>;
+
+const normalize = (value: string) => value.trim().toUpperCase();
+
+// Same manufacturer and model (ignoring case) and the same Rows and Columns
+const isSameKey = (a: MaskTemplateKey, b: MaskTemplateKey) =>
+  normalize(a.manufacturer) === normalize(b.manufacturer) &&
+  normalize(a.model) === normalize(b.model) &&
+  a.rows === b.rows &&
+  a.columns === b.columns;
+
+/**
+ * Read the device and image size that templates are keyed by
+ */
+export function getMaskTemplateKey(metadata: DicomMetadata): MaskTemplateKey {
+  return {
+    manufacturer: String(metadata.allTags?.[DICOM_TAGS.Manufacturer] ?? '').trim(),
+    model: String(metadata.allTags?.[DICOM_TAGS.ManufacturerModelName] ?? '').trim(),
+    rows: metadata.rows ?? 0,
+    columns: metadata.columns ?? 0,
+  };
+}
+
+/**
+ * Find the template saved for an image's device and size
+ */
+export function findMaskTemplate(templates: MaskTemplate[], metadata: DicomMetadata): MaskTemplate | undefined {
+  const key = getMaskTemplateKey(metadata);
+  return templates.find((template) => isSameKey(template, key));
+}
+
+/**
+ * Create a template from the masks drawn on an image
+ */
+export function createMaskTemplate(metadata: DicomMetadata, masks: PixelMask[]): MaskTemplate {
+  const key = getMaskTemplateKey(metadata);
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    name: `${key.manufacturer || 'Unknown'} ${key.model || 'device'} ${key.columns}×${key.rows}`,
+    ...key,
+    masks,
+  };
+}
+
+/**
+ * Load the templates saved in this browser
+ */
+export function loadMaskTemplates(): MaskTemplate[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.MASK_TEMPLATES);
+    return stored ? (JSON.parse(stored) as MaskTemplate[]) : [];
+  } catch (error) {
+    console.error('Failed to load mask templates:', error);
+    return [];
+  }
+}
+
+/**
+ * Add a template, replacing the one saved for the same device and size
+ */
+export function upsertMaskTemplate(templates: MaskTemplate[], template: MaskTemplate): MaskTemplate[] {
+  return [...templates.filter((existing) => !isSameKey(existing, template)), template];
+}
+
+/**
+ * Save the templates in this browser
+ */
+export function saveMaskTemplates(templates: MaskTemplate[]): void {
+  localStorage.setItem(STORAGE_KEYS.MASK_TEMPLATES, JSON.stringify(templates));
+}
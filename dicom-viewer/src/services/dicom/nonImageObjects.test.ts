@@ -0,0 +1,78 @@
+import dcmjs from 'dcmjs';
+import type { DicomJsonDataset } from 'dcmjs';
+import { describe, expect, it } from 'vitest';
+import type { DicomMetadata } from '@store/types';
+import { createDeidentifyOptions, createPart10Buffer } from '@/test/dicomFixtures';
+import { getNonImageObjectKind, getSOPClassUID, stripNonImageObject } from './nonImageObjects';
+import { createPseudonymizer } from './pseudonymizer';
+import { createUIDMapper } from './uidMapper';
+import { writeDeidentifiedDicom } from './writer';
+
+const { DicomMessage } = dcmjs.data;
+
+const ENCAPSULATED_PDF_STORAGE = '1.2.840.10008.5.1.4.1.1.104.1';
+
+const createPdfDataset = (): DicomJsonDataset => ({
+  '00080016': { vr: 'UI', Value: [ENCAPSULATED_PDF_STORAGE] },
+  '00080018': { vr: 'UI', Value: ['1.2.3.4.5.6.8'] },
+  '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Doe^John' }] },
+  '00100020': { vr: 'LO', Value: ['MRN1234567'] },
+  '00420011': { vr: 'OB', Value: [new TextEncoder().encode('%PDF-1.4 Doe^John').buffer] },
+  '00420012': { vr: 'LO', Value: ['application/pdf'] },
+});
+
+describe('getNonImageObjectKind', () => {
+  it('tells documents, raw data and video apart by SOP Class', () => {
+    expect(getNonImageObjectKind(ENCAPSULATED_PDF_STORAGE)).toBe('pdf');
+    expect(getNonImageObjectKind('1.2.840.10008.5.1.4.1.1.104.2 ')).toBe('cda');
+    expect(getNonImageObjectKind('1.2.840.10008.5.1.4.1.1.66')).toBe('rawData');
+    expect(getNonImageObjectKind('1.2.840.10008.5.1.4.1.1.77.1.4.1')).toBe('video');
+    expect(getNonImageObjectKind('1.2.840.10008.5.1.4.1.1.2')).toBeUndefined();
+  });
+
+  it('reads the SOP Class UID of parsed metadata', () => {
+    const metadata = { allTags: { x00080016: `${ENCAPSULATED_PDF_STORAGE} ` } } as unknown as DicomMetadata;
+
+    expect(getSOPClassUID(metadata)).toBe(ENCAPSULATED_PDF_STORAGE);
+  });
+});
+
+describe('stripNonImageObject', () => {
+  it('empties the encapsulated document', () => {
+    const dataset = createPdfDataset();
+
+    stripNonImageObject(dataset, 'pdf');
+
+    expect((dataset['00420011'].Value?.[0] as ArrayBuffer).byteLength).toBe(0);
+    expect(dataset['00420012'].Value).toEqual(['application/pdf']);
+  });
+
+  it('removes the private elements raw data is kept in', () => {
+    const dataset: DicomJsonDataset = {
+      '00080016': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.66'] },
+      '00090010': { vr: 'LO', Value: ['VENDOR'] },
+      '00091001': { vr: 'OB', Value: [new Uint8Array([1, 2]).buffer] },
+    };
+
+    stripNonImageObject(dataset, 'rawData');
+
+    expect(Object.keys(dataset)).toEqual(['00080016']);
+  });
+});
+
+describe('writeDeidentifiedDicom non-image objects', () => {
+  it('strips the document of an object whose policy says so', async () => {
+    const pseudonymizer = await createPseudonymizer('test-secret');
+
+    const { buffer } = await writeDeidentifiedDicom(
+      createPart10Buffer(createPdfDataset()),
+      createDeidentifyOptions(),
+      pseudonymizer,
+      createUIDMapper(pseudonymizer)
+    );
+    const dicomDict = DicomMessage.readFile(buffer);
+
+    expect((dicomDict.dict['00420011'].Value?.[0] as ArrayBuffer).byteLength).toBe(0);
+    expect(dicomDict.dict['00100010'].Value).toEqual([{ Alphabetic: 'ANONYMOUS' }]);
+  });
+});
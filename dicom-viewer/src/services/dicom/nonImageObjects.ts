@@ -0,0 +1,72 @@
+/**
+ * Non-image Objects
+ * Tells encapsulated documents, raw data and video apart by SOP Class and
+ * strips their payload: a PDF or CDA document is full of patient details
+ * that header deidentification never reaches
+ */
+
+import type { DicomJsonDataset } from 'dcmjs';
+import type { DeidentifyOptions, DicomMetadata, NonImageObjectKind } from '@store/types';
+import { DICOM_TAGS } from '@utils/dicomTags';
+
+const NON_IMAGE_SOP_CLASSES: Record<string, NonImageObjectKind> = {
+  '1.2.840.10008.5.1.4.1.1.104.1': 'pdf',
+  '1.2.840.10008.5.1.4.1.1.104.2': 'cda',
+  '1.2.840.10008.5.1.4.1.1.66': 'rawData',
+  '1.2.840.10008.5.1.4.1.1.77.1.1.1': 'video',
+  '1.2.840.10008.5.1.4.1.1.77.1.2.1': 'video',
+  '1.2.840.10008.5.1.4.1.1.77.1.4.1': 'video',
+};
+
+export const NON_IMAGE_OBJECT_LABELS: Record<NonImageObjectKind, string> = {
+  pdf: 'Encapsulated PDF',
+  cda: 'Encapsulated CDA',
+  rawData: 'Raw Data',
+  video: 'Video',
+};
+
+/**
+ * Find the kind of non-image object a SOP Class stores, or undefined for images
+ */
+export function getNonImageObjectKind(sopClassUID: string): NonImageObjectKind | undefined {
+  return NON_IMAGE_SOP_CLASSES[sopClassUID.trim()];
+}
+
+/**
+ * Read the SOP Class UID of a parsed file
+ */
+export function getSOPClassUID(metadata: DicomMetadata): string {
+  return String(metadata.allTags?.[DICOM_TAGS.SOPClassUID] ?? '').trim();
+}
+
+/**
+ * Check if the settings reject a parsed file's SOP Class, so it has no output
+ */
+export function isRejectedNonImageObject(
+  metadata: DicomMetadata,
+  policies: DeidentifyOptions['nonImageObjectPolicies']
+): boolean {
+  const kind = getNonImageObjectKind(getSOPClassUID(metadata));
+  return !!kind && policies[kind] === 'reject';
+}
+
+/**
+ * Empty the payload of a non-image object: the Encapsulated Document of a PDF
+ * or CDA, the Pixel Data of a video, and the private elements raw data is kept in
+ */
+export function stripNonImageObject(dataset: DicomJsonDataset, kind: NonImageObjectKind): void {
+  switch (kind) {
+    case 'pdf':
+    case 'cda':
+      dataset['00420011'] = { vr: 'OB', Value: [new ArrayBuffer(0)] };
+      break;
+    case 'video':
+      dataset['7FE00010'] = { vr: 'OB', Value: [new ArrayBuffer(0)] };
+      break;
+    case 'rawData':
+      Object.keys(dataset)
+        .filter((key) => parseInt(key.substring(0, 4), 16) % 2 === 1)
+        .forEach((key) => delete dataset[key]);
+      break;
+  }
+}
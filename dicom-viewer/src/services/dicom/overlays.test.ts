@@ -0,0 +1,56 @@
+import type { DicomJsonDataset } from 'dcmjs';
+import { describe, expect, it } from 'vitest';
+import { createImageDataset, createPart10Buffer } from '@/test/dicomFixtures';
+import { readOverlayPlanes } from './overlays';
+import { parseDicomDataSet } from './parser';
+
+const readPlanes = (dataset: DicomJsonDataset) =>
+  readOverlayPlanes(parseDicomDataSet(new Uint8Array(createPart10Buffer(dataset))));
+
+const overlayModule = (group: string): DicomJsonDataset => ({
+  [`${group}0010`]: { vr: 'US', Value: [2] },
+  [`${group}0011`]: { vr: 'US', Value: [4] },
+  [`${group}0022`]: { vr: 'LO', Value: ['Marker'] },
+  [`${group}0050`]: { vr: 'SS', Value: [2, 3] },
+  [`${group}0100`]: { vr: 'US', Value: [1] },
+});
+
+describe('readOverlayPlanes', () => {
+  it('unpacks Overlay Data from the lowest bit of each byte', () => {
+    const dataset: DicomJsonDataset = {
+      ...createImageDataset(),
+      ...overlayModule('6002'),
+      '60023000': { vr: 'OB', Value: [new Uint8Array([0b10000101, 0]).buffer] },
+    };
+
+    const [plane] = readPlanes(dataset);
+
+    expect(plane).toMatchObject({ group: '6002', label: 'Marker', rows: 2, columns: 4, x: 2, y: 1 });
+    expect(Array.from(plane.bits)).toEqual([1, 0, 1, 0, 0, 0, 0, 1]);
+  });
+
+  it('reads overlays kept in the unused high bits of the pixels', () => {
+    const dataset: DicomJsonDataset = {
+      ...createImageDataset(2, 4),
+      ...overlayModule('6000'),
+      '00280100': { vr: 'US', Value: [16] },
+      '00280101': { vr: 'US', Value: [12] },
+      '00280102': { vr: 'US', Value: [11] },
+      '60000102': { vr: 'US', Value: [15] },
+      '7FE00010': { vr: 'OW', Value: [new Uint16Array([0x8001, 2, 3, 0x8004, 5, 6, 7, 0x8008]).buffer] },
+    };
+
+    const [plane] = readPlanes(dataset);
+
+    expect(Array.from(plane.bits)).toEqual([1, 0, 0, 1, 0, 0, 0, 1]);
+  });
+
+  it('skips groups without overlay rows and columns', () => {
+    const dataset: DicomJsonDataset = {
+      ...createImageDataset(),
+      '60040022': { vr: 'LO', Value: ['No plane'] },
+    };
+
+    expect(readPlanes(dataset)).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Overlay Planes
+ * Reads the 60xx overlay planes of an image, both those with their own
+ * Overlay Data and the retired kind kept in unused bits of the Pixel Data,
+ * so they can be drawn over the image
+ */
+
+import type * as dicomParser from 'dicom-parser';
+import { isBigEndianTransferSyntax } from './transferSyntax';
+
+export interface OverlayPlane {
+  group: string;
+  label: string;
+  rows: number;
+  columns: number;
+  // Top-left corner in image pixels (Overlay Origin is 1-based)
+  x: number;
+  y: number;
+  // One entry per overlay pixel, 1 where the overlay is drawn
+  bits: Uint8Array;
+}
+
+// Overlay planes live in the even groups 6000-601E
+const OVERLAY_GROUPS = Array.from({ length: 16 }, (_, index) => (0x6000 + index * 2).toString(16));
+
+/**
+ * Read the overlay planes of the first frame, in the byte order of the transfer syntax
+ */
+export function readOverlayPlanes(dataSet: dicomParser.DataSet): OverlayPlane[] {
+  const bigEndian = isBigEndianTransferSyntax(dataSet.string('x00020010'));
+  const bitsAllocated = dataSet.uint16('x00280100') || 16;
+  const samplesPerPixel = dataSet.uint16('x00280002') || 1;
+  const pixelDataElement = dataSet.elements['x7fe00010'];
+
+  return OVERLAY_GROUPS.flatMap((group) => {
+    const rows = dataSet.uint16(`x${group}0010`) || 0;
+    const columns = dataSet.uint16(`x${group}0011`) || 0;
+    if (!rows || !columns) {
+      return [];
+    }
+
+    const count = rows * columns;
+    const bits = new Uint8Array(count);
+    const overlayData = dataSet.elements[`x${group}3000`];
+
+    if (overlayData) {
+      // Packed one bit per pixel, starting with the lowest bit of the first byte.
+      // As OW in a big endian file, the two bytes of each word are swapped.
+      const swap = bigEndian && overlayData.vr !== 'OB' ? 1 : 0;
+      const bytes = dataSet.byteArray.subarray(overlayData.dataOffset, overlayData.dataOffset + overlayData.length);
+      for (let index = 0; index < count && index >> 3 < bytes.length; index++) {
+        bits[index] = (bytes[(index >> 3) ^ swap] >> (index & 7)) & 1;
+      }
+    } else {
+      // Embedded in a bit of each 16-bit pixel word that Bits Stored leaves unused
+      const bitPosition = dataSet.uint16(`x${group}0102`);
+      if (
+        bitPosition === undefined ||
+        bitsAllocated !== 16 ||
+        samplesPerPixel !== 1 ||
+        !pixelDataElement ||
+        pixelDataElement.encapsulatedPixelData
+      ) {
+        return [];
+      }
+      const bytes = dataSet.byteArray.subarray(pixelDataElement.dataOffset);
+      for (let index = 0; index < count && index * 2 + 1 < bytes.length; index++) {
+        const word = bigEndian
+          ? (bytes[index * 2] << 8) | bytes[index * 2 + 1]
+          : bytes[index * 2] | (bytes[index * 2 + 1] << 8);
+        bits[index] = (word >> bitPosition) & 1;
+      }
+    }
+
+    return [
+      {
+        group: group.toUpperCase(),
+        label: dataSet.string(`x${group}1500`) || dataSet.string(`x${group}0022`) || '',
+        rows,
+        columns,
+        x: (dataSet.int16(`x${group}0050`, 1) ?? 1) - 1,
+        y: (dataSet.int16(`x${group}0050`, 0) ?? 1) - 1,
+        bits,
+      },
+    ];
+  });
+}
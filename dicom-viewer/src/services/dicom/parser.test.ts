@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createImageDataset, createPart10Buffer } from '@/test/dicomFixtures';
+import { formatDicomDate, formatDicomTime, parseDicomBuffer, parseDicomFile, validateDicomFile } from './parser';
+
+describe('parseDicomBuffer', () => {
+  it('extracts patient, study and image metadata', () => {
+    const { metadata, dataset } = parseDicomBuffer(createPart10Buffer(createImageDataset()));
+
+    expect(metadata.patientName).toBe('Doe^John');
+    expect(metadata.patientID).toBe('MRN1234567');
+    expect(metadata.studyDate).toBe('20240315');
+    expect(metadata.modality).toBe('CT');
+    expect(metadata.transferSyntaxUID).toBe('1.2.840.10008.1.2.1');
+    expect(metadata.fileMetaAdded).toBeUndefined();
+    expect(dataset.string('x00080080')).toBe('General Hospital');
+  });
+
+  it('captures the attributes of sequence items at any depth', () => {
+    const dataset = createImageDataset();
+    dataset['00081110'] = {
+      vr: 'SQ',
+      Value: [
+        {
+          '00081150': { vr: 'UI', Value: ['1.2.3'] },
+          '00081155': { vr: 'UI', Value: ['1.2.3.4'] },
+        },
+      ],
+    };
+
+    const { metadata } = parseDicomBuffer(createPart10Buffer(dataset));
+
+    expect(metadata.allTags?.x00081110).toEqual([{ x00081150: '1.2.3', x00081155: '1.2.3.4' }]);
+  });
+
+  it('rejects bytes that are not DICOM', () => {
+    expect(() => parseDicomBuffer(new TextEncoder().encode('not a dicom file').buffer)).toThrow(
+      /Failed to parse DICOM file/
+    );
+  });
+});
+
+describe('parseDicomFile', () => {
+  it('reads the file contents', async () => {
+    const file = new File([createPart10Buffer(createImageDataset())], 'image.dcm');
+
+    const { metadata, imageData } = await parseDicomFile(file);
+
+    expect(metadata.sopInstanceUID).toBe('1.2.3.4.5.6.7');
+    expect(imageData.byteLength).toBe(file.size);
+  });
+});
+
+describe('validateDicomFile', () => {
+  it('accepts Part 10 files and rejects other bytes', () => {
+    expect(validateDicomFile(createPart10Buffer(createImageDataset()))).toBe(true);
+    expect(validateDicomFile(new Uint8Array(256).buffer)).toBe(false);
+  });
+});
+
+describe('formatDicomDate and formatDicomTime', () => {
+  it('format DA and TM values for display', () => {
+    expect(formatDicomDate('20240315')).toBe('2024-03-15');
+    expect(formatDicomDate('2024')).toBe('N/A');
+    expect(formatDicomTime('101500.123')).toBe('10:15:00');
+    expect(formatDicomTime(undefined)).toBe('N/A');
+  });
+});
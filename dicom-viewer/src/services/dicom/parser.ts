@@ -6,30 +6,45 @@
 import * as dicomParser from 'dicom-parser';
 import type { DicomMetadata } from '@store/types';
 import { DICOM_TAGS } from '@utils/dicomTags';
+import { detectRawTransferSyntax, hasPart10Header, inflateDataSet, toPart10Buffer } from './transferSyntax';
 
 /**
  * Parse a DICOM file and extract metadata
  */
 export async function parseDicomFile(file: File): Promise<{
   metadata: DicomMetadata;
-  dataset: any;
+  dataset: dicomParser.DataSet;
   imageData: ArrayBuffer;
 }> {
-  try {
-    // Read file as ArrayBuffer
-    const arrayBuffer = await file.arrayBuffer();
+  // Read file as ArrayBuffer
+  const arrayBuffer = await file.arrayBuffer();
+  return parseDicomBuffer(arrayBuffer);
+}
 
+/**
+ * Parse DICOM bytes already held in memory (e.g. a rewritten deidentified buffer).
+ * A raw dataset is given a Part 10 header, and imageData holds the bytes with it.
+ */
+export function parseDicomBuffer(arrayBuffer: ArrayBuffer): {
+  metadata: DicomMetadata;
+  dataset: dicomParser.DataSet;
+  imageData: ArrayBuffer;
+} {
+  try {
     // Parse using dicom-parser
-    const byteArray = new Uint8Array(arrayBuffer);
-    const dataSet = dicomParser.parseDicom(byteArray);
+    const { buffer, fileMetaAdded } = toPart10Buffer(arrayBuffer);
+    const dataSet = parseDicomDataSet(new Uint8Array(buffer));
 
     // Extract metadata directly from dicom-parser dataset
     const metadata = extractMetadataFromDicomParser(dataSet);
+    if (fileMetaAdded) {
+      metadata.fileMetaAdded = true;
+    }
 
     return {
       metadata,
       dataset: dataSet,
-      imageData: arrayBuffer,
+      imageData: buffer,
     };
   } catch (error) {
     console.error('Error parsing DICOM file:', error);
@@ -37,6 +52,13 @@ export async function parseDicomFile(file: File): Promise<{
   }
 }
 
+/**
+ * Parse a Part 10 file with dicom-parser, inflating deflated datasets
+ */
+export function parseDicomDataSet(byteArray: Uint8Array): dicomParser.DataSet {
+  return dicomParser.parseDicom(byteArray, { inflater: inflateDataSet });
+}
+
 /**
  * Extract structured metadata from dicom-parser dataset
  */
@@ -69,6 +91,8 @@ export function extractMetadataFromDicomParser(dataSet: any): DicomMetadata {
     patientBirthDate: getStringFromTag('x00100030'),
     patientSex: getStringFromTag('x00100040'),
     patientAge: getStringFromTag('x00101010'),
+    patientSize: getStringFromTag('x00101020'),
+    patientWeight: getStringFromTag('x00101030'),
 
     // Study Information
     studyInstanceUID: getStringFromTag('x0020000d'),
@@ -89,6 +113,7 @@ export function extractMetadataFromDicomParser(dataSet: any): DicomMetadata {
     rows: getNumberFromTag('x00280010'),
     columns: getNumberFromTag('x00280011'),
     numberOfFrames: getNumberFromTag('x00280008'),
+    transferSyntaxUID: getStringFromTag('x00020010'),
 
     // Additional metadata
     institutionName: getStringFromTag('x00080080'),
@@ -104,6 +129,7 @@ export function extractMetadataFromDicomParser(dataSet: any): DicomMetadata {
 
 /**
  * Extract serializable tag data from DICOM dataset
+ * Sequences become arrays holding the tags of each item
  */
 function extractSerializableTags(dataSet: any): Record<string, any> {
   const tags: Record<string, any> = {};
@@ -116,6 +142,15 @@ function extractSerializableTags(dataSet: any): Record<string, any> {
       const element = dataSet.elements[tag];
       if (!element) continue;
       
+      // Item delimiters carry no value
+      if (tag.startsWith('xfffe')) continue;
+      
+      // Sequences: walk every item so nested attributes are captured at any depth
+      if (element.items) {
+        tags[tag] = element.items.map((item: { dataSet: unknown }) => extractSerializableTags(item.dataSet));
+        continue;
+      }
+      
       try {
         // Try to get string value
         const stringValue = dataSet.string(tag);
@@ -168,6 +203,8 @@ export function extractMetadata(dataset: any): DicomMetadata {
     patientBirthDate: getString(dataset.PatientBirthDate),
     patientSex: getString(dataset.PatientSex),
     patientAge: getString(dataset.PatientAge),
+    patientSize: getString(dataset.PatientSize),
+    patientWeight: getString(dataset.PatientWeight),
 
     // Study Information
     studyInstanceUID: getString(dataset.StudyInstanceUID),
@@ -233,25 +270,13 @@ function getNumber(value: any): number | undefined {
 }
 
 /**
- * Validate if file is a valid DICOM file
+ * Validate if file is a valid DICOM file: a Part 10 file with "DICM" at
+ * offset 128, or a raw dataset without the header
  */
 export function validateDicomFile(arrayBuffer: ArrayBuffer): boolean {
   try {
     const byteArray = new Uint8Array(arrayBuffer);
-
-    // Check for DICOM magic number "DICM" at offset 128
-    if (byteArray.length < 132) {
-      return false;
-    }
-
-    const magic = String.fromCharCode(
-      byteArray[128],
-      byteArray[129],
-      byteArray[130],
-      byteArray[131]
-    );
-
-    return magic === 'DICM';
+    return hasPart10Header(byteArray) || detectRawTransferSyntax(byteArray) !== undefined;
   } catch (error) {
     return false;
   }
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { TRANSFER_SYNTAXES } from '@utils/constants';
+import { createImageDataset, createPart10Buffer } from '@/test/dicomFixtures';
+import { parseDicomDataSet } from './parser';
+import { canDecodeTransferSyntax, decodeFrame, isEncapsulatedTransferSyntax, readEncapsulatedFrame } from './pixelDecoder';
+import type { ImageInfo } from './pixelDecoder';
+import { encodeFrame } from './pixelEncoder';
+
+const monochrome = (rows: number, columns: number, bitsAllocated = 8): ImageInfo => ({
+  rows,
+  columns,
+  bitsAllocated,
+  samplesPerPixel: 1,
+  photometricInterpretation: 'MONOCHROME2',
+});
+
+/**
+ * An RLE Lossless frame: the header with each segment's offset, then the segments
+ */
+function rleFrame(...segments: number[][]): Uint8Array {
+  const header = new DataView(new ArrayBuffer(64));
+  header.setUint32(0, segments.length, true);
+  segments.reduce((offset, segment, index) => {
+    header.setUint32(4 + index * 4, offset, true);
+    return offset + segment.length;
+  }, 64);
+  return new Uint8Array([...new Uint8Array(header.buffer), ...segments.flat()]);
+}
+
+// A 2x3 8-bit JPEG Lossless (Process 14) image with predictor 1 and one
+// Huffman table giving each difference category a 4-bit code. It holds:
+//   100 104  90
+//   101 255   0
+const JPEG_LOSSLESS_FRAME = new Uint8Array([
+  0xff, 0xd8, 0xff, 0xc3, 0x00, 0x0b, 0x08, 0x00, 0x02, 0x00, 0x03, 0x01, 0x01, 0x11, 0x00, 0xff, 0xc4, 0x00, 0x1c,
+  0x00, 0x00, 0x00, 0x00, 0x09, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01,
+  0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x08, 0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x01, 0x00, 0x00, 0x51, 0x9c,
+  0x41, 0x1c, 0x4d, 0x40, 0x07, 0xff, 0xd9,
+]);
+
+describe('transfer syntax support', () => {
+  it('tells encapsulated syntaxes from native ones', () => {
+    expect(isEncapsulatedTransferSyntax(TRANSFER_SYNTAXES.RLE_LOSSLESS)).toBe(true);
+    expect(isEncapsulatedTransferSyntax(TRANSFER_SYNTAXES.DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN)).toBe(false);
+    expect(isEncapsulatedTransferSyntax(undefined)).toBe(false);
+    expect(canDecodeTransferSyntax(`${TRANSFER_SYNTAXES.JPEG_LOSSLESS} `)).toBe(true);
+    expect(canDecodeTransferSyntax('1.2.840.10008.1.2.4.100')).toBe(false);
+  });
+});
+
+describe('RLE Lossless', () => {
+  it('unpacks literal and replicate runs, skipping no-op headers', async () => {
+    // A literal of 2, the -128 no-op, then 4 is repeated twice
+    const encoded = rleFrame([0x01, 7, 9, 0x80, 0xff, 4]);
+
+    const { pixelData } = await decodeFrame(encoded, TRANSFER_SYNTAXES.RLE_LOSSLESS, monochrome(2, 2));
+
+    expect(Array.from(pixelData)).toEqual([7, 9, 4, 4]);
+  });
+
+  it('puts the most significant byte segment last in each little endian sample', async () => {
+    const encoded = rleFrame([0x01, 0x12, 0x34], [0x01, 0x56, 0x78]);
+
+    const { pixelData } = await decodeFrame(encoded, TRANSFER_SYNTAXES.RLE_LOSSLESS, monochrome(1, 2, 16));
+
+    expect(Array.from(new Uint16Array(pixelData.buffer))).toEqual([0x1256, 0x3478]);
+  });
+
+  it('decodes what the encoder wrote, color samples included', async () => {
+    const info = { ...monochrome(3, 5, 16), samplesPerPixel: 3, photometricInterpretation: 'RGB', bitsStored: 16, signed: false };
+    const pixels = new Uint8Array(3 * 5 * 3 * 2).map((_, index) => (index * 37) % 256);
+
+    const { fragment } = await encodeFrame(pixels, TRANSFER_SYNTAXES.RLE_LOSSLESS, info);
+    const { pixelData } = await decodeFrame(fragment, TRANSFER_SYNTAXES.RLE_LOSSLESS, info);
+
+    expect(Array.from(pixelData)).toEqual(Array.from(pixels));
+  });
+
+  it('rejects frames whose segments do not match the image', async () => {
+    await expect(
+      decodeFrame(rleFrame([0x00, 1]), TRANSFER_SYNTAXES.RLE_LOSSLESS, monochrome(1, 1, 16))
+    ).rejects.toThrow('RLE frame has 1 segments, expected 2');
+  });
+});
+
+describe('JPEG Lossless', () => {
+  it('decodes a first-order prediction frame', async () => {
+    const { pixelData, photometricInterpretation } = await decodeFrame(
+      JPEG_LOSSLESS_FRAME,
+      TRANSFER_SYNTAXES.JPEG_LOSSLESS,
+      monochrome(2, 3)
+    );
+
+    expect(Array.from(pixelData)).toEqual([100, 104, 90, 101, 255, 0]);
+    expect(photometricInterpretation).toBe('MONOCHROME2');
+  });
+});
+
+describe('readEncapsulatedFrame', () => {
+  it('reads one fragment per frame', async () => {
+    const info = { ...monochrome(2, 2), bitsStored: 8, signed: false };
+    const frames = await Promise.all(
+      [
+        [1, 2, 3, 4],
+        [5, 6, 7, 8],
+      ].map((frame) => encodeFrame(new Uint8Array(frame), TRANSFER_SYNTAXES.RLE_LOSSLESS, info))
+    );
+    const dataset = {
+      ...createImageDataset(2, 2),
+      '00280008': { vr: 'IS', Value: [2] },
+      '7FE00010': { vr: 'OB', Value: frames.map(({ fragment }) => fragment.buffer as ArrayBuffer) },
+    };
+    const dataSet = parseDicomDataSet(new Uint8Array(createPart10Buffer(dataset, TRANSFER_SYNTAXES.RLE_LOSSLESS)));
+
+    const second = await decodeFrame(readEncapsulatedFrame(dataSet, 1), TRANSFER_SYNTAXES.RLE_LOSSLESS, info);
+
+    expect(Array.from(second.pixelData)).toEqual([5, 6, 7, 8]);
+  });
+
+  it('rejects native pixel data', () => {
+    const dataSet = parseDicomDataSet(new Uint8Array(createPart10Buffer(createImageDataset())));
+
+    expect(() => readEncapsulatedFrame(dataSet, 0)).toThrow('No encapsulated pixel data');
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Pixel Data Decoder
+ * Reads the frames of encapsulated (compressed) Pixel Data and decodes them
+ * with bundled codecs: libjpeg-turbo for JPEG Baseline, a JavaScript decoder
+ * for JPEG Lossless, CharLS for JPEG-LS, OpenJPEG for JPEG 2000, and RLE
+ * Lossless here. The WASM codecs are loaded the first time they are needed.
+ */
+
+import * as dicomParser from 'dicom-parser';
+import libjpegTurboWasm from '@cornerstonejs/codec-libjpeg-turbo-8bit/decodewasm?url';
+import charlsWasm from '@cornerstonejs/codec-charls/decodewasm?url';
+import openjpegWasm from '@cornerstonejs/codec-openjpeg/decodewasm?url';
+import { TRANSFER_SYNTAXES } from '@utils/constants';
+
+export interface ImageInfo {
+  rows: number;
+  columns: number;
+  bitsAllocated: number;
+  samplesPerPixel: number;
+  photometricInterpretation: string;
+}
+
+export interface DecodedFrame {
+  // Samples as a native little endian file stores them, interleaved by pixel
+  pixelData: Uint8Array;
+  // The decoders for JPEG and JPEG 2000 turn YBR color into RGB
+  photometricInterpretation: string;
+}
+
+interface WasmDecoder {
+  getEncodedBuffer(length: number): Uint8Array;
+  decode(): void;
+  getDecodedBuffer(): Uint8Array;
+  delete(): void;
+}
+
+const JPEG_BASELINE_SYNTAXES: string[] = [TRANSFER_SYNTAXES.JPEG_BASELINE, TRANSFER_SYNTAXES.JPEG_EXTENDED];
+const JPEG_LOSSLESS_SYNTAXES: string[] = [TRANSFER_SYNTAXES.JPEG_LOSSLESS_NON_HIERARCHICAL, TRANSFER_SYNTAXES.JPEG_LOSSLESS];
+const JPEG_LS_SYNTAXES: string[] = [TRANSFER_SYNTAXES.JPEG_LS_LOSSLESS, TRANSFER_SYNTAXES.JPEG_LS_NEAR_LOSSLESS];
+const JPEG_2000_SYNTAXES: string[] = [TRANSFER_SYNTAXES.JPEG_2000_LOSSLESS, TRANSFER_SYNTAXES.JPEG_2000];
+
+const DECODABLE_SYNTAXES: string[] = [
+  ...JPEG_BASELINE_SYNTAXES,
+  ...JPEG_LOSSLESS_SYNTAXES,
+  ...JPEG_LS_SYNTAXES,
+  ...JPEG_2000_SYNTAXES,
+  TRANSFER_SYNTAXES.RLE_LOSSLESS,
+];
+
+// The native transfer syntaxes; every other one encapsulates its Pixel Data
+const NATIVE_SYNTAXES: string[] = [
+  TRANSFER_SYNTAXES.IMPLICIT_VR_LITTLE_ENDIAN,
+  TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN,
+  TRANSFER_SYNTAXES.DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN,
+  TRANSFER_SYNTAXES.EXPLICIT_VR_BIG_ENDIAN,
+];
+
+export function isEncapsulatedTransferSyntax(transferSyntaxUID?: string): boolean {
+  const uid = transferSyntaxUID?.trim();
+  return !!uid && !NATIVE_SYNTAXES.includes(uid);
+}
+
+export function canDecodeTransferSyntax(transferSyntaxUID?: string): boolean {
+  return DECODABLE_SYNTAXES.includes(transferSyntaxUID?.trim() ?? '');
+}
+
+/**
+ * Load a WASM codec once, from the file bundled with the app
+ */
+export function loadCodec<T>(load: () => Promise<{ default: (options: object) => Promise<T> }>, wasmUrl: string) {
+  let codecPromise: Promise<T> | undefined;
+  return () => {
+    if (!codecPromise) {
+      codecPromise = load().then(({ default: createCodec }) => createCodec({ locateFile: () => wasmUrl }));
+      // Let a failed load be retried
+      codecPromise.catch(() => {
+        codecPromise = undefined;
+      });
+    }
+    return codecPromise;
+  };
+}
+
+const getLibjpegTurbo = loadCodec(() => import('@cornerstonejs/codec-libjpeg-turbo-8bit/decodewasmjs'), libjpegTurboWasm);
+const getCharls = loadCodec(() => import('@cornerstonejs/codec-charls/decodewasmjs'), charlsWasm);
+const getOpenjpeg = loadCodec(() => import('@cornerstonejs/codec-openjpeg/decodewasmjs'), openjpegWasm);
+
+/**
+ * Run a WASM decoder over one frame and copy the samples out of WASM memory
+ */
+function runWasmDecoder(decoder: WasmDecoder, encoded: Uint8Array): Uint8Array {
+  try {
+    decoder.getEncodedBuffer(encoded.length).set(encoded);
+    decoder.decode();
+    return decoder.getDecodedBuffer().slice();
+  } finally {
+    decoder.delete();
+  }
+}
+
+/**
+ * Decode an RLE Lossless frame (PS3.5 Annex G). Each segment holds one byte of
+ * one sample, most significant first, and is PackBits encoded.
+ */
+function decodeRle(encoded: Uint8Array, info: ImageInfo): Uint8Array {
+  const view = new DataView(encoded.buffer, encoded.byteOffset, encoded.byteLength);
+  const segmentCount = view.getUint32(0, true);
+  const bytesPerSample = info.bitsAllocated / 8;
+  if (segmentCount !== info.samplesPerPixel * bytesPerSample) {
+    throw new Error(`RLE frame has ${segmentCount} segments, expected ${info.samplesPerPixel * bytesPerSample}`);
+  }
+
+  const pixelCount = info.rows * info.columns;
+  const pixelData = new Uint8Array(pixelCount * segmentCount);
+
+  for (let segment = 0; segment < segmentCount; segment++) {
+    const start = view.getUint32(4 + segment * 4, true);
+    const end = segment + 1 < segmentCount ? view.getUint32(8 + segment * 4, true) : encoded.length;
+    const sample = Math.floor(segment / bytesPerSample);
+    // Segments run from the most significant byte; little endian stores it last
+    const byte = bytesPerSample - 1 - (segment % bytesPerSample);
+    const stride = segmentCount;
+    let output = sample * bytesPerSample + byte;
+    const outputEnd = output + pixelCount * stride;
+
+    let position = start;
+    while (position < end && output < outputEnd) {
+      const header = (encoded[position++] << 24) >> 24;
+      if (header >= 0) {
+        for (let count = header + 1; count > 0 && output < outputEnd; count--, output += stride) {
+          pixelData[output] = encoded[position++];
+        }
+      } else if (header !== -128) {
+        const value = encoded[position++];
+        for (let count = 1 - header; count > 0 && output < outputEnd; count--, output += stride) {
+          pixelData[output] = value;
+        }
+      }
+    }
+  }
+
+  return pixelData;
+}
+
+/**
+ * Decode one encoded frame of a transfer syntax to native samples
+ */
+export async function decodeFrame(
+  encoded: Uint8Array,
+  transferSyntaxUID: string,
+  info: ImageInfo
+): Promise<DecodedFrame> {
+  const uid = transferSyntaxUID.trim();
+  const color = info.samplesPerPixel > 1;
+
+  if (JPEG_BASELINE_SYNTAXES.includes(uid)) {
+    if (info.bitsAllocated !== 8) {
+      throw new Error('Only 8-bit JPEG Baseline and Extended images can be decoded');
+    }
+    const codec = await getLibjpegTurbo();
+    return {
+      pixelData: runWasmDecoder(new codec.JPEGDecoder(), encoded),
+      photometricInterpretation: color ? 'RGB' : info.photometricInterpretation,
+    };
+  }
+
+  if (JPEG_LOSSLESS_SYNTAXES.includes(uid)) {
+    const { Decoder } = await import('jpeg-lossless-decoder-js');
+    const samples = new Decoder().decode(
+      encoded.buffer as ArrayBuffer,
+      encoded.byteOffset,
+      encoded.byteLength,
+      info.bitsAllocated <= 8 ? 1 : 2
+    );
+    return {
+      pixelData: new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength),
+      photometricInterpretation: info.photometricInterpretation,
+    };
+  }
+
+  if (JPEG_LS_SYNTAXES.includes(uid)) {
+    const codec = await getCharls();
+    return {
+      pixelData: runWasmDecoder(new codec.JpegLSDecoder(), encoded),
+      photometricInterpretation: info.photometricInterpretation,
+    };
+  }
+
+  if (JPEG_2000_SYNTAXES.includes(uid)) {
+    const codec = await getOpenjpeg();
+    return {
+      pixelData: runWasmDecoder(new codec.J2KDecoder(), encoded),
+      photometricInterpretation: color ? 'RGB' : info.photometricInterpretation,
+    };
+  }
+
+  if (uid === TRANSFER_SYNTAXES.RLE_LOSSLESS) {
+    return { pixelData: decodeRle(encoded, info), photometricInterpretation: info.photometricInterpretation };
+  }
+
+  throw new Error(`Pixel data in transfer syntax ${uid} can't be decoded`);
+}
+
+/**
+ * Read the encoded bytes of one frame of encapsulated Pixel Data, using the
+ * Basic Offset Table when there is one
+ */
+export function readEncapsulatedFrame(dataSet: dicomParser.DataSet, frameIndex: number): Uint8Array {
+  const pixelDataElement = dataSet.elements['x7fe00010'];
+  const fragments = pixelDataElement?.fragments ?? [];
+  if (!pixelDataElement || fragments.length === 0) {
+    throw new Error('No encapsulated pixel data in this file');
+  }
+
+  const frameCount = parseInt(dataSet.string('x00280008') ?? '1', 10) || 1;
+  if (pixelDataElement.basicOffsetTable?.length) {
+    return dicomParser.readEncapsulatedImageFrame(dataSet, pixelDataElement, frameIndex);
+  }
+  // Without an offset table: one fragment per frame, or all fragments in the only frame
+  if (frameCount === fragments.length) {
+    return dicomParser.readEncapsulatedPixelDataFromFragments(dataSet, pixelDataElement, frameIndex);
+  }
+  if (frameCount === 1) {
+    return dicomParser.readEncapsulatedPixelDataFromFragments(dataSet, pixelDataElement, 0, fragments.length);
+  }
+  const offsetTable = dicomParser.createJPEGBasicOffsetTable(dataSet, pixelDataElement);
+  return dicomParser.readEncapsulatedImageFrame(dataSet, pixelDataElement, frameIndex, offsetTable);
+}
@@ -0,0 +1,223 @@
+/**
+ * Pixel Data Encoder
+ * Compresses native frames for export with lossless codecs: CharLS for
+ * JPEG-LS, OpenJPEG for JPEG 2000, and RLE Lossless here. Each frame comes
+ * back as one fragment of encapsulated Pixel Data.
+ */
+
+import charlsWasm from '@cornerstonejs/codec-charls/wasm?url';
+import openjpegWasm from '@cornerstonejs/codec-openjpeg/wasm?url';
+import { TRANSFER_SYNTAXES } from '@utils/constants';
+import { loadCodec } from './pixelDecoder';
+import type { ImageInfo } from './pixelDecoder';
+
+export interface EncoderImageInfo extends ImageInfo {
+  bitsStored: number;
+  // Pixel Representation 1: samples are two's complement
+  signed: boolean;
+}
+
+export interface EncodedFrame {
+  // Padded to an even length, as every fragment must be
+  fragment: Uint8Array;
+  photometricInterpretation: string;
+}
+
+const ENCODABLE_SYNTAXES: string[] = [
+  TRANSFER_SYNTAXES.RLE_LOSSLESS,
+  TRANSFER_SYNTAXES.JPEG_LS_LOSSLESS,
+  TRANSFER_SYNTAXES.JPEG_2000_LOSSLESS,
+];
+
+// RLE Lossless has a header of 16 offsets, so a frame holds at most 15 segments
+const RLE_HEADER_LENGTH = 64;
+const MAX_RLE_SEGMENTS = 15;
+
+// Packbits runs and literals are at most 128 bytes long
+const MAX_RUN_LENGTH = 128;
+
+// OpenJPEG's default; small images need fewer
+const MAX_DECOMPOSITIONS = 5;
+
+// CharLS interleave mode for samples stored pixel by pixel
+const INTERLEAVE_BY_PIXEL = 2;
+
+const getCharls = loadCodec(() => import('@cornerstonejs/codec-charls/wasmjs'), charlsWasm);
+const getOpenjpeg = loadCodec(() => import('@cornerstonejs/codec-openjpeg/wasmjs'), openjpegWasm);
+
+export function canEncodeTransferSyntax(transferSyntaxUID?: string): boolean {
+  return ENCODABLE_SYNTAXES.includes(transferSyntaxUID?.trim() ?? '');
+}
+
+function padToEven(bytes: Uint8Array): Uint8Array {
+  if (bytes.length % 2 === 0) {
+    return bytes;
+  }
+  const padded = new Uint8Array(bytes.length + 1);
+  padded.set(bytes);
+  return padded;
+}
+
+/**
+ * The precision to hand a JPEG codec: Bits Stored when every sample fits in
+ * it, otherwise all of Bits Allocated so nothing is cut off
+ */
+function getPrecision(pixelData: Uint8Array, info: EncoderImageInfo): number {
+  if (info.bitsAllocated === 8 || info.bitsStored >= info.bitsAllocated) {
+    return info.bitsAllocated;
+  }
+  const samples = new Uint16Array(pixelData.buffer, pixelData.byteOffset, pixelData.byteLength / 2);
+  const limit = 1 << info.bitsStored;
+  return samples.every((sample) => sample < limit) ? info.bitsStored : info.bitsAllocated;
+}
+
+/**
+ * Packbits encode one row of one segment
+ */
+function packRow(row: Uint8Array, output: number[]): void {
+  let position = 0;
+  while (position < row.length) {
+    let run = 1;
+    while (position + run < row.length && run < MAX_RUN_LENGTH && row[position + run] === row[position]) {
+      run++;
+    }
+    if (run > 1) {
+      output.push(257 - run, row[position]);
+      position += run;
+      continue;
+    }
+
+    // A literal runs until the next repeated byte
+    const start = position;
+    while (
+      position < row.length &&
+      position - start < MAX_RUN_LENGTH &&
+      !(position + 1 < row.length && row[position] === row[position + 1])
+    ) {
+      position++;
+    }
+    output.push(position - start - 1);
+    for (let index = start; index < position; index++) {
+      output.push(row[index]);
+    }
+  }
+}
+
+/**
+ * Encode a frame as RLE Lossless (PS3.5 Annex G): one segment per byte of
+ * each sample, most significant first, with every row packed on its own
+ */
+function encodeRle(pixelData: Uint8Array, info: EncoderImageInfo): Uint8Array {
+  const bytesPerSample = info.bitsAllocated / 8;
+  const segmentCount = info.samplesPerPixel * bytesPerSample;
+  if (segmentCount > MAX_RLE_SEGMENTS) {
+    throw new Error(`RLE Lossless can't hold ${info.samplesPerPixel} samples of ${info.bitsAllocated} bits`);
+  }
+
+  const segments: Uint8Array[] = [];
+  const row = new Uint8Array(info.columns);
+  for (let segment = 0; segment < segmentCount; segment++) {
+    const sample = Math.floor(segment / bytesPerSample);
+    // Segments run from the most significant byte; little endian stores it last
+    const byte = bytesPerSample - 1 - (segment % bytesPerSample);
+    const output: number[] = [];
+
+    for (let y = 0; y < info.rows; y++) {
+      for (let x = 0; x < info.columns; x++) {
+        row[x] = pixelData[((y * info.columns + x) * info.samplesPerPixel + sample) * bytesPerSample + byte];
+      }
+      packRow(row, output);
+    }
+    segments.push(padToEven(Uint8Array.from(output)));
+  }
+
+  const length = segments.reduce((total, segment) => total + segment.length, RLE_HEADER_LENGTH);
+  const encoded = new Uint8Array(length);
+  const header = new DataView(encoded.buffer);
+  header.setUint32(0, segmentCount, true);
+  let offset = RLE_HEADER_LENGTH;
+  segments.forEach((segment, index) => {
+    header.setUint32(4 + index * 4, offset, true);
+    encoded.set(segment, offset);
+    offset += segment.length;
+  });
+  return encoded;
+}
+
+/**
+ * Run a WASM encoder over one frame and copy the codestream out of WASM memory
+ */
+function runWasmEncoder(
+  encoder: { encode(): void; getEncodedBuffer(): Uint8Array; delete(): void },
+  setSamples: () => void
+): Uint8Array {
+  try {
+    setSamples();
+    encoder.encode();
+    return encoder.getEncodedBuffer().slice();
+  } catch (error) {
+    // Emscripten throws bare numbers for C++ exceptions
+    throw error instanceof Error ? error : new Error('The codec could not encode the frame');
+  } finally {
+    encoder.delete();
+  }
+}
+
+/**
+ * Encode one native frame, interleaved by pixel, in a transfer syntax
+ */
+export async function encodeFrame(
+  pixelData: Uint8Array,
+  transferSyntaxUID: string,
+  info: EncoderImageInfo
+): Promise<EncodedFrame> {
+  const uid = transferSyntaxUID.trim();
+
+  if (uid === TRANSFER_SYNTAXES.RLE_LOSSLESS) {
+    if (info.bitsAllocated % 8 !== 0) {
+      throw new Error(`Only whole-byte samples can be compressed as RLE, not ${info.bitsAllocated} bit`);
+    }
+    return { fragment: encodeRle(pixelData, info), photometricInterpretation: info.photometricInterpretation };
+  }
+
+  if (info.bitsAllocated !== 8 && info.bitsAllocated !== 16) {
+    throw new Error(`Only 8 and 16 bit images can be compressed as JPEG, not ${info.bitsAllocated} bit`);
+  }
+
+  const frameInfo = {
+    width: info.columns,
+    height: info.rows,
+    bitsPerSample: getPrecision(pixelData, info),
+    componentCount: info.samplesPerPixel,
+  };
+
+  if (uid === TRANSFER_SYNTAXES.JPEG_LS_LOSSLESS) {
+    const codec = await getCharls();
+    const encoder = new codec.JpegLSEncoder();
+    const fragment = runWasmEncoder(encoder, () => {
+      encoder.setNearLossless(0);
+      if (info.samplesPerPixel > 1) {
+        encoder.setInterleaveMode(INTERLEAVE_BY_PIXEL);
+      }
+      encoder.getDecodedBuffer(frameInfo).set(pixelData);
+    });
+    return { fragment: padToEven(fragment), photometricInterpretation: info.photometricInterpretation };
+  }
+
+  if (uid === TRANSFER_SYNTAXES.JPEG_2000_LOSSLESS) {
+    const codec = await getOpenjpeg();
+    const encoder = new codec.J2KEncoder();
+    const fragment = runWasmEncoder(encoder, () => {
+      const shortestSide = Math.min(info.rows, info.columns);
+      encoder.setDecompositions(Math.max(0, Math.min(MAX_DECOMPOSITIONS, Math.floor(Math.log2(shortestSide)))));
+      encoder.getDecodedBuffer({ ...frameInfo, isSigned: info.signed }).set(pixelData);
+    });
+    // OpenJPEG applies the reversible color transform to three components
+    return {
+      fragment: padToEven(fragment),
+      photometricInterpretation: info.samplesPerPixel === 3 ? 'YBR_RCT' : info.photometricInterpretation,
+    };
+  }
+
+  throw new Error(`Pixel data can't be encoded in transfer syntax ${uid}`);
+}
@@ -0,0 +1,100 @@
+import dcmjs from 'dcmjs';
+import type { DicomJsonDataset } from 'dcmjs';
+import { describe, expect, it } from 'vitest';
+import { TRANSFER_SYNTAXES } from '@utils/constants';
+import { createDeidentifyOptions, createImageDataset, createPart10Buffer } from '@/test/dicomFixtures';
+import { encodeFrame } from './pixelEncoder';
+import { clearEmbeddedOverlays, redactPixelData } from './pixelRedactor';
+import { createPseudonymizer } from './pseudonymizer';
+import { createUIDMapper } from './uidMapper';
+import { writeDeidentifiedDicom } from './writer';
+
+const { DicomMessage } = dcmjs.data;
+
+const readPixels = (dataset: DicomJsonDataset) => Array.from(new Uint8Array(dataset['7FE00010'].Value?.[0] as ArrayBuffer));
+
+describe('redactPixelData', () => {
+  it('blanks masked pixels in native pixel data', () => {
+    const dataset = createImageDataset();
+
+    const redacted = redactPixelData(
+      dataset,
+      [{ x: 0, y: 0, width: 2, height: 1 }],
+      TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN
+    );
+
+    expect(redacted).toBe(true);
+    expect(readPixels(dataset).slice(0, 4)).toEqual([0, 0, 2, 3]);
+  });
+
+  it('writes the highest value into MONOCHROME1 images', () => {
+    const dataset = createImageDataset();
+    dataset['00280004'] = { vr: 'CS', Value: ['MONOCHROME1'] };
+
+    redactPixelData(dataset, [{ x: 3, y: 3, width: 1, height: 1 }], TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN);
+
+    expect(readPixels(dataset)[15]).toBe(255);
+  });
+
+  it('leaves the dataset unchanged when no mask covers the image', () => {
+    const dataset = createImageDataset();
+
+    const redacted = redactPixelData(
+      dataset,
+      [{ x: 10, y: 10, width: 2, height: 2 }],
+      TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN
+    );
+
+    expect(redacted).toBe(false);
+    expect(readPixels(dataset)).toEqual(Array.from({ length: 16 }, (_, index) => index));
+  });
+});
+
+describe('clearEmbeddedOverlays', () => {
+  it('clears the overlay bits above the high bit', () => {
+    const dataset = createImageDataset(1, 2);
+    dataset['00280100'] = { vr: 'US', Value: [16] };
+    dataset['00280101'] = { vr: 'US', Value: [12] };
+    dataset['00280102'] = { vr: 'US', Value: [11] };
+    dataset['60000010'] = { vr: 'US', Value: [1] };
+    dataset['60000102'] = { vr: 'US', Value: [15] };
+    dataset['7FE00010'] = { vr: 'OW', Value: [new Uint16Array([0x8123, 0x0456]).buffer] };
+
+    expect(clearEmbeddedOverlays(dataset, TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN)).toBe(true);
+    expect(Array.from(new Uint16Array(dataset['7FE00010'].Value?.[0] as ArrayBuffer))).toEqual([0x0123, 0x0456]);
+  });
+});
+
+describe('writeDeidentifiedDicom pixel masks', () => {
+  it('decodes compressed frames before masking them and writes Explicit VR Little Endian', async () => {
+    const dataset = createImageDataset();
+    const { fragment } = await encodeFrame(new Uint8Array(readPixels(dataset)), TRANSFER_SYNTAXES.RLE_LOSSLESS, {
+      rows: 4,
+      columns: 4,
+      bitsAllocated: 8,
+      bitsStored: 8,
+      samplesPerPixel: 1,
+      photometricInterpretation: 'MONOCHROME2',
+      signed: false,
+    });
+    dataset['7FE00010'] = { vr: 'OB', Value: [fragment.buffer as ArrayBuffer] };
+    const pseudonymizer = await createPseudonymizer('test-secret');
+
+    const { buffer } = await writeDeidentifiedDicom(
+      createPart10Buffer(dataset, TRANSFER_SYNTAXES.RLE_LOSSLESS),
+      createDeidentifyOptions(),
+      pseudonymizer,
+      createUIDMapper(pseudonymizer),
+      [{ x: 0, y: 0, width: 4, height: 1 }]
+    );
+    const dicomDict = DicomMessage.readFile(buffer);
+
+    expect(dicomDict.meta['00020010'].Value).toEqual([TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN]);
+    expect(readPixels(dicomDict.dict)).toEqual([0, 0, 0, 0, ...Array.from({ length: 12 }, (_, index) => index + 4)]);
+    expect(dicomDict.dict['00280301'].Value).toEqual(['NO']);
+    expect(dicomDict.dict['00282110']).toBeUndefined();
+    expect(
+      (dicomDict.dict['00120064'].Value as DicomJsonDataset[]).map((item) => item['00080100'].Value?.[0])
+    ).toContain('113101');
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Pixel Redactor
+ * Blanks rectangular regions of native (uncompressed) Pixel Data in every
+ * frame, for patient details burned into the image, and clears overlays kept
+ * in the unused bits of the pixels. The writer decodes compressed frames
+ * before masking them.
+ */
+
+import type { DicomJsonDataset } from 'dcmjs';
+import type { PixelMask } from '@store/types';
+import { TRANSFER_SYNTAXES } from '@utils/constants';
+
+// Recorded in DeidentificationMethod along with the Clean Pixel Data Option code
+export const CLEAN_PIXEL_DATA_METHOD = 'Burned-in text regions blanked';
+
+// Transfer syntaxes whose Pixel Data is stored as plain samples
+const NATIVE_TRANSFER_SYNTAXES: string[] = [
+  TRANSFER_SYNTAXES.IMPLICIT_VR_LITTLE_ENDIAN,
+  TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN,
+  TRANSFER_SYNTAXES.EXPLICIT_VR_BIG_ENDIAN,
+];
+
+const getNumber = (dataset: DicomJsonDataset, key: string, fallback: number) => {
+  const value = Number(dataset[key]?.Value?.[0]);
+  return isNaN(value) ? fallback : value;
+};
+
+/**
+ * The stored sample values that display as black, one per sample
+ */
+function getBlackSamples(
+  photometricInterpretation: string,
+  bitsStored: number,
+  signed: boolean
+): number[] {
+  const min = signed ? -(2 ** (bitsStored - 1)) : 0;
+  const max = signed ? 2 ** (bitsStored - 1) - 1 : 2 ** bitsStored - 1;
+
+  switch (photometricInterpretation) {
+    case 'MONOCHROME1':
+      return [max];
+    case 'MONOCHROME2':
+    case 'PALETTE COLOR':
+      return [min];
+    case 'RGB':
+      return [0, 0, 0];
+    case 'YBR_FULL':
+      // Zero luminance with neutral chroma
+      return [0, 2 ** (bitsStored - 1), 2 ** (bitsStored - 1)];
+    default:
+      throw new Error(`Pixel redaction doesn't support ${photometricInterpretation} images`);
+  }
+}
+
+/**
+ * Clamp masks to the image and round them to whole pixels, dropping empty ones
+ */
+function clampMasks(masks: PixelMask[], rows: number, columns: number): PixelMask[] {
+  return masks
+    .map(({ x, y, width, height }) => {
+      const left = Math.max(0, Math.floor(Math.min(x, x + width)));
+      const top = Math.max(0, Math.floor(Math.min(y, y + height)));
+      const right = Math.min(columns, Math.ceil(Math.max(x, x + width)));
+      const bottom = Math.min(rows, Math.ceil(Math.max(y, y + height)));
+      return { x: left, y: top, width: right - left, height: bottom - top };
+    })
+    .filter(({ width, height }) => width > 0 && height > 0);
+}
+
+/**
+ * Write black into the masked regions of every frame of a dataset's Pixel Data.
+ * Returns false when no mask covers any pixel, so the dataset is unchanged.
+ */
+export function redactPixelData(
+  dataset: DicomJsonDataset,
+  masks: PixelMask[],
+  transferSyntaxUID: string
+): boolean {
+  const pixelData = dataset['7FE00010'];
+  const rows = getNumber(dataset, '00280010', 0);
+  const columns = getNumber(dataset, '00280011', 0);
+  const regions = clampMasks(masks, rows, columns);
+  if (!pixelData?.Value?.length || regions.length === 0) {
+    return false;
+  }
+
+  if (!NATIVE_TRANSFER_SYNTAXES.includes(transferSyntaxUID)) {
+    throw new Error('Compressed pixel data must be decompressed before it can be redacted');
+  }
+
+  const bitsAllocated = getNumber(dataset, '00280100', 16);
+  const bitsStored = getNumber(dataset, '00280101', bitsAllocated);
+  const samplesPerPixel = getNumber(dataset, '00280002', 1);
+  const planar = getNumber(dataset, '00280006', 0) === 1;
+  const signed = getNumber(dataset, '00280103', 0) === 1;
+  const photometricInterpretation = String(dataset['00280004']?.Value?.[0] ?? 'MONOCHROME2').trim();
+  const littleEndian = transferSyntaxUID !== TRANSFER_SYNTAXES.EXPLICIT_VR_BIG_ENDIAN;
+
+  if (![8, 16, 32].includes(bitsAllocated)) {
+    throw new Error(`Pixel redaction doesn't support ${bitsAllocated}-bit pixel data`);
+  }
+
+  const black = getBlackSamples(photometricInterpretation, bitsStored, signed);
+  const bytesPerSample = bitsAllocated / 8;
+  const pixelsPerFrame = rows * columns;
+  const frameLength = pixelsPerFrame * samplesPerPixel * bytesPerSample;
+
+  const writeSample = (view: DataView, offset: number, value: number) => {
+    if (bytesPerSample === 1) {
+      view.setUint8(offset, value & 0xff);
+    } else if (bytesPerSample === 2) {
+      view.setUint16(offset, value & 0xffff, littleEndian);
+    } else {
+      view.setUint32(offset, value >>> 0, littleEndian);
+    }
+  };
+
+  // Native Pixel Data is read as one buffer holding every frame
+  (pixelData.Value as ArrayBuffer[]).forEach((buffer) => {
+    const view = new DataView(buffer);
+    const frameCount = Math.floor(buffer.byteLength / frameLength);
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      const frameOffset = frame * frameLength;
+      regions.forEach(({ x, y, width, height }) => {
+        for (let row = y; row < y + height; row++) {
+          for (let column = x; column < x + width; column++) {
+            const pixel = row * columns + column;
+            for (let sample = 0; sample < samplesPerPixel; sample++) {
+              const index = planar ? sample * pixelsPerFrame + pixel : pixel * samplesPerPixel + sample;
+              writeSample(view, frameOffset + index * bytesPerSample, black[sample] ?? black[0]);
+            }
+          }
+        }
+      });
+    }
+  });
+
+  return true;
+}
+
+// Overlay planes live in the even groups 6000-601E
+const OVERLAY_GROUPS = Array.from({ length: 16 }, (_, index) => (0x6000 + index * 2).toString(16).toUpperCase());
+
+/**
+ * Clear the overlays a dataset keeps in unused high bits of its Pixel Data
+ * (the retired embedded form, with no Overlay Data of their own), which would
+ * otherwise outlive the removal of the overlay groups. Returns false when
+ * there are none.
+ */
+export function clearEmbeddedOverlays(dataset: DicomJsonDataset, transferSyntaxUID: string): boolean {
+  const pixelData = dataset['7FE00010'];
+  const bitsAllocated = getNumber(dataset, '00280100', 16);
+  const bitsStored = getNumber(dataset, '00280101', bitsAllocated);
+  const highBit = getNumber(dataset, '00280102', bitsStored - 1);
+
+  const overlayBits = OVERLAY_GROUPS.filter(
+    (group) => dataset[`${group}0010`] && !dataset[`${group}3000`] && dataset[`${group}0102`]
+  )
+    .map((group) => getNumber(dataset, `${group}0102`, -1))
+    .filter((bit) => bit > highBit && bit < bitsAllocated);
+  if (!pixelData?.Value?.length || overlayBits.length === 0) {
+    return false;
+  }
+
+  if (!NATIVE_TRANSFER_SYNTAXES.includes(transferSyntaxUID)) {
+    throw new Error('Compressed pixel data must be decompressed before its overlays can be cleared');
+  }
+  if (bitsAllocated !== 16) {
+    throw new Error(`Overlay clearing doesn't support ${bitsAllocated}-bit pixel data`);
+  }
+
+  const keepMask = ~overlayBits.reduce((mask, bit) => mask | (1 << bit), 0) & 0xffff;
+  const littleEndian = transferSyntaxUID !== TRANSFER_SYNTAXES.EXPLICIT_VR_BIG_ENDIAN;
+
+  (pixelData.Value as ArrayBuffer[]).forEach((buffer) => {
+    const view = new DataView(buffer);
+    for (let offset = 0; offset + 1 < buffer.byteLength; offset += 2) {
+      view.setUint16(offset, view.getUint16(offset, littleEndian) & keepMask, littleEndian);
+    }
+  });
+
+  return true;
+}
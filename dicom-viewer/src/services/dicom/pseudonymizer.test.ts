@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createPseudonymizer, generateProjectSecret, toDecimal, toHex } from './pseudonymizer';
+
+describe('createPseudonymizer', () => {
+  it('requires a project secret', async () => {
+    await expect(createPseudonymizer('')).rejects.toThrow(/project secret is required/);
+  });
+
+  it('gives the same pseudonym for the same value and secret only', async () => {
+    const pseudonymizer = await createPseudonymizer('secret-a');
+    const other = await createPseudonymizer('secret-b');
+
+    const pseudonym = await pseudonymizer.pseudonymize('MRN1234567', 'LO', 'ANON-');
+
+    expect(pseudonym).toMatch(/^ANON-[0-9A-F]{16}$/);
+    expect(await pseudonymizer.pseudonymize('MRN1234567', 'LO', 'ANON-')).toBe(pseudonym);
+    expect(await pseudonymizer.pseudonymize('MRN7654321', 'LO', 'ANON-')).not.toBe(pseudonym);
+    expect(await other.pseudonymize('MRN1234567', 'LO', 'ANON-')).not.toBe(pseudonym);
+  });
+
+  it('keeps pseudonyms valid for the VR', async () => {
+    const pseudonymizer = await createPseudonymizer('secret-a');
+
+    expect((await pseudonymizer.pseudonymize('ACC123456', 'SH', 'ANON-')).length).toBeLessThanOrEqual(16);
+    expect(await pseudonymizer.pseudonymize('42', 'IS')).toMatch(/^\d{1,12}$/);
+    expect(await pseudonymizer.pseudonymize('42', 'DS')).toMatch(/^\d{1,16}$/);
+  });
+
+  it('derives UIDs in the 2.25 arc from the original UID', async () => {
+    const pseudonymizer = await createPseudonymizer('secret-a');
+
+    const uid = await pseudonymizer.pseudonymizeUID('1.2.3.4');
+
+    expect(uid).toMatch(/^2\.25\.[1-9]\d*$/);
+    expect(uid.length).toBeLessThanOrEqual(64);
+    expect(await pseudonymizer.pseudonymizeUID('1.2.3.4')).toBe(uid);
+  });
+
+  it('draws a non-zero date offset in the range, the same for each patient', async () => {
+    const pseudonymizer = await createPseudonymizer('secret-a');
+
+    for (const patientID of ['P1', 'P2', 'P3', 'P4', 'P5']) {
+      const offset = await pseudonymizer.dateOffset(patientID, -2, 2);
+      expect(offset).not.toBe(0);
+      expect(offset).toBeGreaterThanOrEqual(-2);
+      expect(offset).toBeLessThanOrEqual(2);
+      expect(await pseudonymizer.dateOffset(patientID, -2, 2)).toBe(offset);
+    }
+    await expect(pseudonymizer.dateOffset('P1', 0, 0)).rejects.toThrow(/No non-zero date offset/);
+  });
+});
+
+describe('digest encoding', () => {
+  it('converts bytes to hex and decimal', () => {
+    expect(toHex(new Uint8Array([0x0a, 0xff]))).toBe('0AFF');
+    expect(toDecimal(new Uint8Array([0x01, 0x00]))).toBe('256');
+    expect(generateProjectSecret()).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Pseudonymization Service
+ * Keyed HMAC-SHA-256 pseudonyms, so the same value and project secret always
+ * give the same output and cohorts can be linked without storing a crosswalk
+ */
+
+import { PSEUDONYM_HEX_LENGTH, STORAGE_KEYS, VR_MAX_LENGTHS } from '@utils/constants';
+
+export interface Pseudonymizer {
+  /** Raw HMAC-SHA-256 of a value */
+  digest: (value: string) => Promise<Uint8Array>;
+  /** VR-compliant pseudonym for a value, optionally prefixed */
+  pseudonymize: (value: string, vr: string, prefix?: string) => Promise<string>;
+  /** Replacement UID in the 2.25 arc (PS3.5 B.2), derived from the original UID */
+  pseudonymizeUID: (uid: string) => Promise<string>;
+  /** Non-zero date offset in days for a patient, from a range of days */
+  dateOffset: (patientID: string, minDays: number, maxDays: number) => Promise<number>;
+}
+
+const NUMERIC_VRS = new Set(['IS', 'DS']);
+
+/**
+ * Generate a random project secret (256 bits, hex)
+ */
+export function generateProjectSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Load the project secret kept in this browser, generating one on first use.
+ * The secret lives only in localStorage and is never part of an export.
+ */
+export function loadProjectSecret(): string {
+  const stored = localStorage.getItem(STORAGE_KEYS.PROJECT_SECRET);
+  if (stored) {
+    return stored;
+  }
+
+  const secret = generateProjectSecret();
+  localStorage.setItem(STORAGE_KEYS.PROJECT_SECRET, secret);
+  return secret;
+}
+
+/**
+ * Save the project secret entered by the user
+ */
+export function saveProjectSecret(secret: string): void {
+  localStorage.setItem(STORAGE_KEYS.PROJECT_SECRET, secret);
+}
+
+/**
+ * Convert digest bytes to uppercase hex
+ */
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+/**
+ * Convert digest bytes to an unsigned decimal string
+ */
+export function toDecimal(bytes: Uint8Array): string {
+  return BigInt(`0x${toHex(bytes)}`).toString();
+}
+
+/**
+ * Create a pseudonymizer keyed with the project secret
+ */
+export async function createPseudonymizer(secret: string): Promise<Pseudonymizer> {
+  if (!secret) {
+    throw new Error('A project secret is required for pseudonymization');
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const digest = async (value: string): Promise<Uint8Array> => {
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(value));
+    return new Uint8Array(signature);
+  };
+
+  const pseudonymize = async (value: string, vr: string, prefix = ''): Promise<string> => {
+    const bytes = await digest(value);
+    const maxLength = VR_MAX_LENGTHS[vr] ?? VR_MAX_LENGTHS.LO;
+
+    if (NUMERIC_VRS.has(vr)) {
+      return toDecimal(bytes).substring(0, maxLength);
+    }
+    return `${prefix}${toHex(bytes).substring(0, PSEUDONYM_HEX_LENGTH)}`.substring(0, maxLength);
+  };
+
+  const pseudonymizeUID = async (uid: string): Promise<string> => {
+    // Separate the UID namespace from other values, so a UID and an identifier
+    // that happen to be equal don't share a pseudonym
+    const bytes = (await digest(`uid:${uid}`)).slice(0, 16);
+
+    // Mark the 128 bits as a version 8 (custom) UUID, RFC 9562
+    bytes[6] = (bytes[6] & 0x0f) | 0x80;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+    return `2.25.${toDecimal(bytes)}`;
+  };
+
+  const dateOffset = async (patientID: string, minDays: number, maxDays: number): Promise<number> => {
+    // A zero offset would leave that patient's real dates, so it is skipped
+    // when the range includes it
+    const includesZero = minDays <= 0 && maxDays >= 0;
+    const count = maxDays - minDays + 1 - (includesZero ? 1 : 0);
+    if (count < 1) {
+      throw new Error(`No non-zero date offset between ${minDays} and ${maxDays} days`);
+    }
+
+    const bytes = await digest(`date-offset:${patientID}`);
+    const offset = minDays + Number(BigInt(`0x${toHex(bytes.slice(0, 8))}`) % BigInt(count));
+    return includesZero && offset >= 0 ? offset + 1 : offset;
+  };
+
+  return { digest, pseudonymize, pseudonymizeUID, dateOffset };
+}
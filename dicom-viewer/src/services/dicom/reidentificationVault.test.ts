@@ -0,0 +1,77 @@
+import dcmjs from 'dcmjs';
+import { describe, expect, it } from 'vitest';
+import type { CrosswalkEntry } from '@store/types';
+import { createDeidentifyOptions, createImageDataset, createPart10Buffer } from '@/test/dicomFixtures';
+import { createPseudonymizer } from './pseudonymizer';
+import { decryptCrosswalk, encryptCrosswalk, reidentifyDicom } from './reidentificationVault';
+import { createUIDMapper } from './uidMapper';
+import { writeDeidentifiedDicom } from './writer';
+
+const { DicomMessage } = dcmjs.data;
+
+const PASSPHRASE = 'correct horse battery';
+
+const entry: CrosswalkEntry = {
+  fileName: 'image.dcm',
+  originalPatientID: 'MRN1234567',
+  originalPatientName: 'Doe^John',
+  pseudonymPatientID: 'ANON-0123456789ABCDEF',
+  pseudonymPatientName: 'ANONYMOUS',
+  pseudonymSOPInstanceUID: '2.25.1',
+  dateOffsetDays: -42,
+  timeShiftMinutes: 0,
+  uids: [{ originalUID: '1.2.3', anonymizedUID: '2.25.1' }],
+};
+
+describe('crosswalk encryption', () => {
+  it('decrypts what it encrypted with the same passphrase only', async () => {
+    const vault = await encryptCrosswalk([entry], PASSPHRASE);
+
+    expect(vault).not.toContain('MRN1234567');
+    expect(await decryptCrosswalk(vault, PASSPHRASE)).toEqual([entry]);
+    await expect(decryptCrosswalk(vault, 'wrong passphrase!')).rejects.toThrow(/Wrong passphrase/);
+  });
+
+  it('refuses short passphrases and files that are not vaults', async () => {
+    await expect(encryptCrosswalk([entry], 'short')).rejects.toThrow(/at least 12 characters/);
+    await expect(decryptCrosswalk('{"format":"other"}', PASSPHRASE)).rejects.toThrow(/Not a re-identification vault/);
+  });
+});
+
+describe('reidentifyDicom', () => {
+  it('restores identifiers, UIDs, dates and times of a deidentified file', async () => {
+    const original = createImageDataset();
+    // Shifting this time back by 30 minutes crosses midnight
+    original['00080030'] = { vr: 'TM', Value: ['001000'] };
+    const options = createDeidentifyOptions({ anonymizeUIDs: true, timeHandling: 'shift', timeShiftMinutes: 30 });
+    const pseudonymizer = await createPseudonymizer('test-secret');
+    const uidMapper = createUIDMapper(pseudonymizer);
+
+    const { buffer, dateOffsetDays } = await writeDeidentifiedDicom(
+      createPart10Buffer(original),
+      options,
+      pseudonymizer,
+      uidMapper
+    );
+    const deidentified = DicomMessage.readFile(buffer).dict;
+    const reidentified = DicomMessage.readFile(
+      await reidentifyDicom(buffer, {
+        ...entry,
+        dateOffsetDays,
+        timeShiftMinutes: 30,
+        uids: uidMapper.getNewMappings(),
+      })
+    ).dict;
+
+    expect(deidentified['00080020'].Value).not.toEqual(['20240315']);
+    expect(deidentified['00080030'].Value).toEqual(['234000']);
+    expect(reidentified['00080020'].Value).toEqual(['20240315']);
+    expect(reidentified['00080030'].Value).toEqual(['001000']);
+    expect(reidentified['00100030'].Value).toEqual(['19700101']);
+    expect(reidentified['00100010'].Value).toEqual([{ Alphabetic: 'Doe^John' }]);
+    expect(reidentified['00100020'].Value).toEqual(['MRN1234567']);
+    expect(reidentified['00080018'].Value).toEqual(['1.2.3.4.5.6.7']);
+    expect(reidentified['0020000D'].Value).toEqual(['1.2.3.4.5.6']);
+    expect(reidentified['00120062'].Value).toEqual(['NO']);
+  });
+});
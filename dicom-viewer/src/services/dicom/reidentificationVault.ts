@@ -0,0 +1,192 @@
+/**
+ * Re-identification Vault
+ * Encrypts the crosswalk of original identifiers and their pseudonyms with a
+ * passphrase (PBKDF2 and AES-GCM through WebCrypto), so an authorised user can
+ * later restore the identity of a deidentified file. The vault is only ever
+ * written as its own file, never into a DICOM export.
+ */
+
+import dcmjs from 'dcmjs';
+import type { DicomJsonDataset } from 'dcmjs';
+import type { CrosswalkEntry, DicomMetadata } from '@store/types';
+import { downloadFile } from '@services/export/exportService';
+import { getCarriedDays, shiftDicomDate, shiftDicomDateTime, shiftDicomTime } from './dateShifter';
+import { remapDatasetUIDs } from './uidMapper';
+import type { UIDMapper } from './uidMapper';
+
+const { DicomMessage } = dcmjs.data;
+
+const VAULT_FORMAT = 'dicom-viewer-reidentification-vault';
+const VAULT_VERSION = 1;
+const PBKDF2_ITERATIONS = 600000;
+
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+interface VaultFile {
+  format: string;
+  version: number;
+  createdAt: string;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  ciphertext: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+/**
+ * Derive the AES-GCM key from a passphrase
+ */
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt a crosswalk into the JSON text of a vault file
+ */
+export async function encryptCrosswalk(entries: CrosswalkEntry[], passphrase: string): Promise<string> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const plaintext = new TextEncoder().encode(JSON.stringify(entries));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+  const vault: VaultFile = {
+    format: VAULT_FORMAT,
+    version: VAULT_VERSION,
+    createdAt: new Date().toISOString(),
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(vault, null, 2);
+}
+
+/**
+ * Decrypt the JSON text of a vault file. A wrong passphrase or a modified
+ * file fails AES-GCM's authentication check.
+ */
+export async function decryptCrosswalk(text: string, passphrase: string): Promise<CrosswalkEntry[]> {
+  let vault: VaultFile;
+  try {
+    vault = JSON.parse(text);
+  } catch {
+    throw new Error('Not a re-identification vault file');
+  }
+  if (vault?.format !== VAULT_FORMAT || vault.version !== VAULT_VERSION) {
+    throw new Error('Not a re-identification vault file');
+  }
+
+  const key = await deriveKey(passphrase, fromBase64(vault.kdf.salt), vault.kdf.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(vault.cipher.iv) },
+      key,
+      fromBase64(vault.ciphertext)
+    );
+  } catch {
+    throw new Error('Wrong passphrase, or the vault file has been modified');
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext)) as CrosswalkEntry[];
+}
+
+/**
+ * Download a crosswalk as an encrypted vault file
+ */
+export async function exportCrosswalkVault(
+  entries: CrosswalkEntry[],
+  passphrase: string,
+  filename: string = 'reidentification_vault.json'
+): Promise<void> {
+  const vault = await encryptCrosswalk(entries, passphrase);
+  downloadFile(new Blob([vault], { type: 'application/json' }), filename);
+}
+
+/**
+ * Read and decrypt a vault file written by exportCrosswalkVault
+ */
+export async function importCrosswalkVault(file: File, passphrase: string): Promise<CrosswalkEntry[]> {
+  return decryptCrosswalk(await file.text(), passphrase);
+}
+
+/**
+ * Find the crosswalk entry of a deidentified file by its SOP Instance UID
+ */
+export function findCrosswalkEntry(entries: CrosswalkEntry[], metadata: DicomMetadata): CrosswalkEntry | undefined {
+  const sopInstanceUID = metadata.sopInstanceUID?.trim();
+  return sopInstanceUID ? entries.find((entry) => entry.pseudonymSOPInstanceUID === sopInstanceUID) : undefined;
+}
+
+/**
+ * Move every date and time of a dataset back by the crosswalk's offsets
+ */
+function unshiftDates(dataset: DicomJsonDataset, entry: CrosswalkEntry): DicomJsonDataset {
+  const shift = {
+    days: -entry.dateOffsetDays,
+    timeHandling: entry.timeShiftMinutes ? ('shift' as const) : ('keep' as const),
+    minutes: -entry.timeShiftMinutes,
+  };
+
+  return Object.fromEntries(
+    Object.entries(dataset).map(([key, element]) => {
+      const values = element.Value ?? [];
+      switch (element.vr) {
+        case 'DA': {
+          // The paired time's shift back across midnight carries into the date
+          const days = shift.days + getCarriedDays(dataset, key, shift);
+          return [key, { vr: element.vr, Value: values.map((value) => shiftDicomDate(String(value), days) ?? value) }];
+        }
+        case 'DT':
+          return [key, { vr: element.vr, Value: values.map((value) => shiftDicomDateTime(String(value), shift) ?? value) }];
+        case 'TM':
+          return [key, { vr: element.vr, Value: values.map((value) => shiftDicomTime(String(value), shift) ?? value) }];
+        case 'SQ':
+          return [key, { vr: element.vr, Value: values.map((item) => unshiftDates(item as DicomJsonDataset, entry)) }];
+        default:
+          return [key, element];
+      }
+    })
+  );
+}
+
+/**
+ * Restore a deidentified file's patient name and ID, replaced UIDs and dates
+ * from its crosswalk entry. Attributes the profile removed can't be restored.
+ */
+export async function reidentifyDicom(arrayBuffer: ArrayBuffer, entry: CrosswalkEntry): Promise<ArrayBuffer> {
+  const dicomDict = DicomMessage.readFile(arrayBuffer);
+
+  // The crosswalk read backwards, as a mapper from pseudonymous to original UIDs
+  const originalUIDs = new Map(entry.uids.map(({ originalUID, anonymizedUID }) => [anonymizedUID, originalUID]));
+  const reverseMapper: UIDMapper = {
+    remap: async (uid) => originalUIDs.get(uid) ?? uid,
+    getNewMappings: () => [],
+    lookup: (uid) => originalUIDs.get(uid),
+  };
+
+  const dataset = unshiftDates(await remapDatasetUIDs(dicomDict.dict, reverseMapper), entry);
+  dataset['00100010'] = { vr: 'PN', Value: [{ Alphabetic: entry.originalPatientName }] };
+  dataset['00100020'] = { vr: 'LO', Value: [entry.originalPatientID] };
+  dataset['00120062'] = { vr: 'CS', Value: ['NO'] }; // PatientIdentityRemoved
+  delete dataset['00120063']; // DeidentificationMethod
+  delete dataset['00120064']; // DeidentificationMethodCodeSequence
+  dicomDict.dict = dataset;
+
+  dicomDict.meta = await remapDatasetUIDs(dicomDict.meta, reverseMapper);
+  return dicomDict.write();
+}
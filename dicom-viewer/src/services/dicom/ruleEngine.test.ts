@@ -0,0 +1,88 @@
+import type { DicomJsonDataset } from 'dcmjs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { DicomFile } from '@store/types';
+import { applyCustomRules, getRuleMatches, validateRule } from './ruleEngine';
+import { createPseudonymizer } from './pseudonymizer';
+import type { Pseudonymizer } from './pseudonymizer';
+
+let pseudonymizer: Pseudonymizer;
+
+beforeAll(async () => {
+  pseudonymizer = await createPseudonymizer('test-secret');
+});
+
+const original: DicomJsonDataset = {
+  '00081030': { vr: 'LO', Value: ['CT HEAD'] },
+  '00100020': { vr: 'LO', Value: ['MRN1234567'] },
+  '00100030': { vr: 'DA', Value: ['19700101'] },
+  '00200010': { vr: 'SH', Value: ['STUDY7'] },
+};
+
+const deidentified: DicomJsonDataset = {
+  '00100020': { vr: 'LO', Value: ['ANON-1'] },
+  '00100030': { vr: 'DA', Value: [] },
+  '00200010': { vr: 'SH', Value: [] },
+};
+
+describe('validateRule', () => {
+  it('accepts both tag notations and requires a replacement value', () => {
+    expect(validateRule({ tag: 'x00100010', action: 'remove' })).toBeUndefined();
+    expect(validateRule({ tag: '(0010,0010)', action: 'keep' })).toBeUndefined();
+    expect(validateRule({ tag: 'PatientName', action: 'remove' })).toMatch(/Invalid tag/);
+    expect(validateRule({ tag: 'x00100010', action: 'replace' })).toMatch(/no replacement value/);
+  });
+});
+
+describe('applyCustomRules', () => {
+  it('applies remove, replace and keep after the profile', async () => {
+    const result = await applyCustomRules(
+      original,
+      deidentified,
+      [
+        { tag: 'x00100020', action: 'remove' },
+        { tag: '(0010,0030)', action: 'replace', replacement: '19000101' },
+        { tag: 'x00081030', action: 'keep' },
+      ],
+      pseudonymizer
+    );
+
+    expect(result['00100020']).toBeUndefined();
+    expect(result['00100030']).toEqual({ vr: 'DA', Value: ['19000101'] });
+    expect(result['00081030']).toEqual(original['00081030']);
+    expect(result['00200010']).toEqual(deidentified['00200010']);
+  });
+
+  it('hashes the original value with the keyed pseudonymizer', async () => {
+    const result = await applyCustomRules(original, deidentified, [{ tag: 'x00200010', action: 'hash' }], pseudonymizer);
+
+    expect(result['00200010'].Value).toEqual([await pseudonymizer.pseudonymize('STUDY7', 'SH')]);
+  });
+
+  it('empties values of VRs a hash cannot be written to', async () => {
+    const result = await applyCustomRules(original, deidentified, [{ tag: 'x00100030', action: 'hash' }], pseudonymizer);
+
+    expect(result['00100030'].Value).toEqual([]);
+  });
+
+  it('ignores rules for attributes the original lacks', async () => {
+    const result = await applyCustomRules(
+      original,
+      deidentified,
+      [{ tag: 'x00080080', action: 'replace', replacement: 'Hospital' }],
+      pseudonymizer
+    );
+
+    expect(result['00080080']).toBeUndefined();
+  });
+});
+
+describe('getRuleMatches', () => {
+  it('finds the files holding the rule tag', () => {
+    const files = [
+      { id: '1', metadata: { allTags: { x00100020: 'MRN1' } } },
+      { id: '2', metadata: { allTags: {} } },
+    ] as unknown as DicomFile[];
+
+    expect(getRuleMatches({ tag: '(0010,0020)', action: 'remove' }, files).map((file) => file.id)).toEqual(['1']);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Custom Rule Engine
+ * Applies user-defined deidentification rules by tag after the profile actions
+ */
+
+import type { DicomJsonDataset } from 'dcmjs';
+import type { DeidentificationRule, DicomFile } from '@store/types';
+import { parseTag } from '@utils/dicomTags';
+import type { Pseudonymizer } from './pseudonymizer';
+
+/**
+ * Convert a rule tag to the 8-digit uppercase key dcmjs uses for elements
+ */
+function toDatasetKey(tag: string): string | undefined {
+  return parseTag(tag)?.substring(1).toUpperCase();
+}
+
+/**
+ * Read a value as text, taking the alphabetic group of person names
+ */
+function valueToString(value: unknown): string {
+  if (value && typeof value === 'object' && 'Alphabetic' in value) {
+    return String((value as { Alphabetic?: string }).Alphabetic ?? '');
+  }
+  return String(value ?? '');
+}
+
+// VRs a hash can be written to; other values are emptied by a hash rule
+const HASHABLE_VRS = new Set(['AE', 'CS', 'DS', 'IS', 'LO', 'LT', 'PN', 'SH', 'ST', 'UC', 'UT']);
+
+/**
+ * Validate a single rule, returning an error message or undefined
+ */
+export function validateRule(rule: DeidentificationRule): string | undefined {
+  if (!parseTag(rule.tag)) {
+    return `Invalid tag "${rule.tag}" (use x00100010 or (0010,0010))`;
+  }
+  if (rule.action === 'replace' && rule.replacement === undefined) {
+    return `Replace rule for ${rule.tag} has no replacement value`;
+  }
+  return undefined;
+}
+
+/**
+ * Apply rules in order to a deidentified dataset. Rules only act on attributes
+ * present in the original, and a keep rule restores the original element even
+ * when the profile removed or changed it.
+ */
+export async function applyCustomRules(
+  original: DicomJsonDataset,
+  deidentified: DicomJsonDataset,
+  rules: DeidentificationRule[],
+  pseudonymizer: Pseudonymizer
+): Promise<DicomJsonDataset> {
+  const result: DicomJsonDataset = { ...deidentified };
+
+  for (const rule of rules) {
+    const key = toDatasetKey(rule.tag);
+    const originalElement = key ? original[key] : undefined;
+    if (!key || !originalElement) {
+      continue;
+    }
+
+    switch (rule.action) {
+      case 'remove':
+        delete result[key];
+        break;
+
+      case 'keep':
+        result[key] = originalElement;
+        break;
+
+      case 'replace':
+        result[key] = { vr: originalElement.vr, Value: [rule.replacement ?? ''] };
+        break;
+
+      case 'hash':
+        result[key] = {
+          vr: originalElement.vr,
+          Value: HASHABLE_VRS.has(originalElement.vr)
+            ? await Promise.all(
+                (originalElement.Value ?? []).map((value) =>
+                  pseudonymizer.pseudonymize(valueToString(value), originalElement.vr)
+                )
+              )
+            : [],
+        };
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find the loaded files that contain the attribute a rule targets
+ */
+export function getRuleMatches(rule: DeidentificationRule, files: DicomFile[]): DicomFile[] {
+  const tag = parseTag(rule.tag);
+  if (!tag) {
+    return [];
+  }
+  return files.filter((file) => file.metadata?.allTags?.[tag] !== undefined);
+}
@@ -0,0 +1,66 @@
+import type { DicomJsonDataset } from 'dcmjs';
+import { describe, expect, it } from 'vitest';
+import { applySafeHarbor } from './safeHarbor';
+
+function patient(birthDate: string, studyDate: string, extra: DicomJsonDataset = {}): DicomJsonDataset {
+  return {
+    '00100030': { vr: 'DA', Value: [birthDate] },
+    '00080020': { vr: 'DA', Value: [studyDate] },
+    ...extra,
+  };
+}
+
+describe('applySafeHarbor', () => {
+  it('keeps only the birth year and computes the age at the study', () => {
+    const original = patient('19700615', '20240315');
+
+    const result = applySafeHarbor(original, {}, 'year');
+
+    expect(result['00100030'].Value).toEqual(['19700101']);
+    expect(result['00101010'].Value).toEqual(['053Y']);
+  });
+
+  it('takes the birth year from the shifted birth date', () => {
+    const original = patient('19700105', '20240315');
+    const shifted = { '00100030': { vr: 'DA', Value: ['19691220'] } };
+
+    expect(applySafeHarbor(original, shifted, 'year')['00100030'].Value).toEqual(['19690101']);
+  });
+
+  it('removes the birth date when asked to', () => {
+    expect(applySafeHarbor(patient('19700615', '20240315'), {}, 'remove')['00100030'].Value).toEqual([]);
+  });
+
+  it('aggregates ages over 89 and drops their birth year', () => {
+    const result = applySafeHarbor(patient('19300101', '20240315'), {}, 'year');
+
+    expect(result['00101010'].Value).toEqual(['090Y']);
+    expect(result['00100030'].Value).toEqual([]);
+  });
+
+  it('aggregates a recorded age over 89 when there are no dates to compute one', () => {
+    const original = { '00101010': { vr: 'AS', Value: ['093Y'] } };
+
+    expect(applySafeHarbor(original, {}, 'year')['00101010'].Value).toEqual(['090Y']);
+    expect(applySafeHarbor({ '00101010': { vr: 'AS', Value: ['045Y'] } }, {}, 'year')['00101010'].Value).toEqual([
+      '045Y',
+    ]);
+  });
+
+  it('gives infants their age in months or days', () => {
+    expect(applySafeHarbor(patient('20240101', '20240315'), {}, 'year')['00101010'].Value).toEqual(['002M']);
+    expect(applySafeHarbor(patient('20240301', '20240315'), {}, 'year')['00101010'].Value).toEqual(['014D']);
+  });
+
+  it('puts size and weight in bands', () => {
+    const original = {
+      '00101020': { vr: 'DS', Value: ['1.83'] },
+      '00101030': { vr: 'DS', Value: ['73.4'] },
+    };
+
+    const result = applySafeHarbor(original, {}, 'year');
+
+    expect(result['00101020'].Value).toEqual(['1.85']);
+    expect(result['00101030'].Value).toEqual(['75']);
+  });
+});
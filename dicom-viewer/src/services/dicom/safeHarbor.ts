@@ -0,0 +1,153 @@
+/**
+ * HIPAA Safe Harbor Generalization
+ * Reduces birth date, age, size and weight to the precision Safe Harbor allows
+ * (45 CFR 164.514(b)(2)): birth year only, ages over 89 aggregated as 90
+ */
+
+import type { DicomJsonDataset } from 'dcmjs';
+import type { BirthDateHandling } from '@store/types';
+
+// Recorded in DeidentificationMethod, so viewers can tell generalized values from modified ones
+export const SAFE_HARBOR_METHOD = 'HIPAA Safe Harbor';
+
+const MAX_REPORTED_AGE_YEARS = 89;
+const AGGREGATED_AGE = '090Y';
+
+// Dates an age can be measured at, in order of preference
+const REFERENCE_DATE_KEYS = ['00080020', '00080021', '00080022', '00080023'];
+
+// Band widths: 10 kg for weight, 10 cm for size (PatientSize is in meters)
+const WEIGHT_BAND_KG = 10;
+const SIZE_BAND_M = 0.1;
+
+const AGE_UNITS_IN_DAYS: Record<string, number> = { D: 1, W: 7, M: 30.4375, Y: 365.25 };
+
+/**
+ * Read the first value of an element as a string
+ */
+function getValue(dataset: DicomJsonDataset, key: string): string | undefined {
+  const value = dataset[key]?.Value?.[0];
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+/**
+ * Parse a full DA value (YYYYMMDD) as a UTC date
+ */
+function parseDate(value: string | undefined): Date | undefined {
+  const match = value && /^(\d{4})(\d{2})(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  return new Date(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])));
+}
+
+/**
+ * Format an age as an AS value: days under a month, months under a year, then years
+ */
+function formatAge(years: number, months: number, days: number): string {
+  if (years >= 1) {
+    return `${Math.min(years, 999).toString().padStart(3, '0')}Y`;
+  }
+  if (months >= 1) {
+    return `${months.toString().padStart(3, '0')}M`;
+  }
+  return `${days.toString().padStart(3, '0')}D`;
+}
+
+/**
+ * Age in whole years of an AS value (nnnD, nnnW, nnnM or nnnY)
+ */
+function parseAgeYears(age: string | undefined): number | undefined {
+  const match = age && /^(\d{3})([DWMY])$/.exec(age.trim());
+  if (!match) {
+    return undefined;
+  }
+  return Math.floor((parseInt(match[1]) * AGE_UNITS_IN_DAYS[match[2]]) / AGE_UNITS_IN_DAYS.Y);
+}
+
+/**
+ * Compute the patient's age at the study from the original dates, falling
+ * back to the recorded PatientAge. Ages over 89 are aggregated as 090Y.
+ */
+function computePatientAge(dataset: DicomJsonDataset): { age?: string; over89: boolean } {
+  const birthDate = parseDate(getValue(dataset, '00100030'));
+  const referenceDate = REFERENCE_DATE_KEYS.map((key) => parseDate(getValue(dataset, key))).find(Boolean);
+
+  if (!birthDate || !referenceDate) {
+    const recordedAge = getValue(dataset, '00101010');
+    const years = parseAgeYears(recordedAge);
+    if (years === undefined) {
+      return { over89: false };
+    }
+    return years > MAX_REPORTED_AGE_YEARS ? { age: AGGREGATED_AGE, over89: true } : { age: recordedAge, over89: false };
+  }
+
+  if (referenceDate < birthDate) {
+    return { over89: false };
+  }
+
+  // Calendar months between the dates, less one when the day of month isn't reached yet
+  const totalMonths =
+    (referenceDate.getUTCFullYear() - birthDate.getUTCFullYear()) * 12 +
+    referenceDate.getUTCMonth() -
+    birthDate.getUTCMonth() -
+    (referenceDate.getUTCDate() < birthDate.getUTCDate() ? 1 : 0);
+  const years = Math.floor(totalMonths / 12);
+  const days = Math.round((referenceDate.getTime() - birthDate.getTime()) / (24 * 60 * 60 * 1000));
+
+  if (years > MAX_REPORTED_AGE_YEARS) {
+    return { age: AGGREGATED_AGE, over89: true };
+  }
+  return { age: formatAge(years, totalMonths, days), over89: false };
+}
+
+/**
+ * Replace a measurement with the middle of its band, e.g. 73 kg becomes 75
+ */
+function toBand(value: string | undefined, width: number, decimals: number): string | undefined {
+  const number = value === undefined ? NaN : parseFloat(value);
+  if (isNaN(number)) {
+    return undefined;
+  }
+  return ((Math.floor(number / width) + 0.5) * width).toFixed(decimals);
+}
+
+/**
+ * Generalize birth date, age, size and weight of a deidentified dataset from
+ * the original values. The birth year comes from the deidentified birth date
+ * when there is one, so shifted dates stay consistent.
+ */
+export function applySafeHarbor(
+  original: DicomJsonDataset,
+  deidentified: DicomJsonDataset,
+  birthDateHandling: BirthDateHandling
+): DicomJsonDataset {
+  const result: DicomJsonDataset = { ...deidentified };
+  const { age, over89 } = computePatientAge(original);
+
+  if (original['00100030']) {
+    const year = (getValue(deidentified, '00100030') ?? getValue(original, '00100030'))?.substring(0, 4);
+    // DA has no year-only form, so the year is kept as January 1st;
+    // over 89 even the year is identifying
+    result['00100030'] = {
+      vr: 'DA',
+      Value: birthDateHandling === 'year' && year && !over89 ? [`${year}0101`] : [],
+    };
+  }
+
+  if (age) {
+    result['00101010'] = { vr: 'AS', Value: [age] };
+  }
+
+  const size = toBand(getValue(original, '00101020'), SIZE_BAND_M, 2);
+  if (size) {
+    result['00101020'] = { vr: 'DS', Value: [size] };
+  }
+
+  const weight = toBand(getValue(original, '00101030'), WEIGHT_BAND_KG, 0);
+  if (weight) {
+    result['00101030'] = { vr: 'DS', Value: [weight] };
+  }
+
+  return result;
+}
@@ -0,0 +1,113 @@
+/**
+ * Burned-in Text Detector
+ * Finds text in a rendered image with Tesseract running in a web worker and
+ * proposes redaction boxes. The worker, engine and English model are bundled
+ * with the app, so images never leave the browser and nothing is downloaded.
+ */
+
+import { createWorker, OEM, PSM } from 'tesseract.js';
+import type { Worker } from 'tesseract.js';
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+import corePath from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishModelPath from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import type { DicomMetadata, TextRegion } from '@store/types';
+
+// Words Tesseract is less sure of than this are mostly noise in the image
+const MIN_WORD_CONFIDENCE = 40;
+
+// Margin around each box, in pixels, so anti-aliased glyph edges are covered too
+const BOX_MARGIN = 2;
+
+// Tesseract fetches <langPath>/eng.traineddata.gz; the build keeps the model's file name
+const langPath = new URL('.', new URL(englishModelPath, window.location.href)).href;
+
+let workerPromise: Promise<Worker> | undefined;
+
+/**
+ * Start the OCR worker once and reuse it. A failed start is forgotten, so the
+ * next detection tries again.
+ */
+function getWorker(): Promise<Worker> {
+  workerPromise ??= (async () => {
+    let worker: Worker | undefined;
+    try {
+      worker = await createWorker('eng', OEM.LSTM_ONLY, {
+        langPath,
+        gzip: true,
+        workerPath,
+        corePath,
+        cacheMethod: 'none',
+      });
+      // Burned-in text is scattered labels rather than paragraphs
+      await worker.setParameters({ tessedit_pageseg_mode: PSM.SPARSE_TEXT });
+      return worker;
+    } catch (error) {
+      workerPromise = undefined;
+      await worker?.terminate();
+      throw new Error(`The text detector could not start: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  })();
+  return workerPromise;
+}
+
+const normalizeToken = (token: string) => token.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+
+/**
+ * The tokens that would confirm a leak: the patient's name components and ID
+ */
+function getPatientTokens(metadata: DicomMetadata): Set<string> {
+  const tokens = new Set<string>();
+  (metadata.patientName ?? '')
+    .split(/[\^=\s]+/)
+    .map(normalizeToken)
+    .filter((token) => token.length > 1)
+    .forEach((token) => tokens.add(token));
+  const patientID = normalizeToken(metadata.patientID ?? '');
+  if (patientID) {
+    tokens.add(patientID);
+  }
+  return tokens;
+}
+
+/**
+ * Find lines of text in an image and propose a redaction box for each,
+ * marking the words that match the patient's name or ID
+ */
+export async function detectTextRegions(image: ImageData, metadata: DicomMetadata): Promise<TextRegion[]> {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')?.putImageData(image, 0, 0);
+
+  const worker = await getWorker();
+  const { data } = await worker.recognize(canvas, {}, { blocks: true });
+  const patientTokens = getPatientTokens(metadata);
+
+  const lines = (data.blocks ?? []).flatMap((block) => block.paragraphs.flatMap((paragraph) => paragraph.lines));
+
+  return lines.flatMap((line, index) => {
+    const words = line.words.filter((word) => word.confidence >= MIN_WORD_CONFIDENCE && word.text.trim());
+    if (words.length === 0) {
+      return [];
+    }
+
+    const x0 = Math.max(0, Math.min(...words.map((word) => word.bbox.x0)) - BOX_MARGIN);
+    const y0 = Math.max(0, Math.min(...words.map((word) => word.bbox.y0)) - BOX_MARGIN);
+    const x1 = Math.min(image.width, Math.max(...words.map((word) => word.bbox.x1)) + BOX_MARGIN);
+    const y1 = Math.min(image.height, Math.max(...words.map((word) => word.bbox.y1)) + BOX_MARGIN);
+
+    return [
+      {
+        id: `${index}-${x0}-${y0}`,
+        x: x0,
+        y: y0,
+        width: x1 - x0,
+        height: y1 - y0,
+        text: words.map((word) => word.text).join(' '),
+        leakedTokens: words
+          .map((word) => word.text)
+          .filter((text) => patientTokens.has(normalizeToken(text))),
+      },
+    ];
+  });
+}
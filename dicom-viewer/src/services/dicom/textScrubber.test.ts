@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createImageDataset } from '@/test/dicomFixtures';
+import { collectIdentifiers, scrubText } from './textScrubber';
+
+const identifiers = collectIdentifiers(createImageDataset());
+
+describe('collectIdentifiers', () => {
+  it('collects name components, identifiers and dates in common layouts', () => {
+    expect(identifiers.names).toEqual(['Doe', 'John']);
+    expect(identifiers.ids).toEqual(expect.arrayContaining(['ACC123456', 'MRN1234567']));
+    expect(identifiers.dates).toEqual(expect.arrayContaining(['19700101', '1970-01-01', '01/01/1970', '15.03.2024']));
+  });
+});
+
+describe('scrubText', () => {
+  it("redacts the patient's own identifiers and keeps the rest", () => {
+    const { text, matches } = scrubText('CT head for John Doe, MRN1234567', 'LO', identifiers);
+
+    expect(text).toBe('CT head for *** ***, ***');
+    expect(matches.map(({ reason }) => reason)).toEqual(['name', 'name', 'identifier']);
+  });
+
+  it('matches whole words only', () => {
+    expect(scrubText('Doenitz protocol', 'LO', identifiers).text).toBe('Doenitz protocol');
+  });
+
+  it('redacts dates, phone numbers and MRN-like runs in free text', () => {
+    const { text, matches } = scrubText('Seen 2023-11-02, call (555) 123-4567, MRN: A12345', 'LT', identifiers);
+
+    expect(text).toBe('Seen ***, call ***, ***');
+    expect(matches.map(({ reason }) => reason)).toEqual(['date', 'phone', 'mrn']);
+  });
+
+  it('checks short strings for the patient identifiers only', () => {
+    expect(scrubText('1234567', 'SH', identifiers).text).toBe('1234567');
+    expect(scrubText('MRN1234567', 'SH', identifiers).text).toBe('***');
+  });
+
+  it('cuts the result to the maximum length of the VR', () => {
+    const { text } = scrubText(`${'A'.repeat(70)} Doe`, 'LO', identifiers);
+
+    expect(text).toHaveLength(64);
+  });
+});
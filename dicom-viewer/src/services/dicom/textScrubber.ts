@@ -0,0 +1,157 @@
+/**
+ * Free-Text Scrubber
+ * Finds PHI in descriptions and comments (the patient's own names, IDs and
+ * dates, plus phone-like and MRN-like patterns in free text) and redacts only
+ * those spans
+ */
+
+import type { DicomJsonDataset } from 'dcmjs';
+import type { RedactionReason, TextRedactionMatch } from '@store/types';
+import { VR_MAX_LENGTHS } from '@utils/constants';
+
+export interface KnownIdentifiers {
+  names: string[];
+  ids: string[];
+  dates: string[];
+}
+
+// Names and identifiers of the patient that cleaning strips from free text
+const IDENTIFYING_NAME_KEYS = ['00100010', '00101001', '00101005', '00101060'];
+const IDENTIFYING_ID_KEYS = ['00080050', '00100020', '00101000', '00380010'];
+const IDENTIFYING_DATE_KEYS = ['00100030', '00080020', '00080021', '00080022', '00080023'];
+
+const REDACTION_MARK = '***';
+
+// VRs of free text, where PHI of anyone can turn up. Short strings such as
+// codes and labels are only checked for the patient's own identifiers.
+const FREE_TEXT_VRS = new Set(['LO', 'LT', 'ST', 'UT', 'UC']);
+
+// Patterns that look like PHI whoever's it is
+const PHI_PATTERNS: { reason: RedactionReason; pattern: RegExp }[] = [
+  // 2020-01-31, 2020/1/31, 31.01.2020, 1/31/20, 20200131
+  { reason: 'date', pattern: /\b\d{4}[-/.]\d{1,2}[-/.]\d{1,2}\b/g },
+  { reason: 'date', pattern: /\b\d{1,2}[-/.]\d{1,2}[-/.](?:\d{4}|\d{2})\b/g },
+  { reason: 'date', pattern: /\b(?:19|20)\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])\b/g },
+  // (555) 123-4567, +1 555 123 4567, 555.123.4567
+  { reason: 'phone', pattern: /(?:\+\d{1,3}[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]\d{4}\b/g },
+  // MRN: 12345, MR# A1234, or long digit runs with an optional letter prefix
+  { reason: 'mrn', pattern: /\b(?:MRN|MR#|PID)\s*[:#]?\s*(?=[A-Z-]*\d)[A-Z0-9-]{3,}\b/gi },
+  { reason: 'mrn', pattern: /\b[A-Z]{0,3}\d{6,}\b/g },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Collect the patient's name components, identifiers and dates from a dataset
+ */
+export function collectIdentifiers(dataset: DicomJsonDataset): KnownIdentifiers {
+  const names = new Set<string>();
+  const ids = new Set<string>();
+  const dates = new Set<string>();
+
+  IDENTIFYING_NAME_KEYS.forEach((key) => {
+    (dataset[key]?.Value ?? []).forEach((value) => {
+      const name = typeof value === 'string' ? value : (value as { Alphabetic?: string } | null)?.Alphabetic;
+      name
+        ?.split(/[\^=\s]+/)
+        .filter((component) => component.length > 1)
+        .forEach((component) => names.add(component));
+    });
+  });
+
+  IDENTIFYING_ID_KEYS.forEach((key) => {
+    (dataset[key]?.Value ?? []).forEach((value) => {
+      if (typeof value === 'string' && value.trim()) {
+        ids.add(value.trim());
+      }
+    });
+  });
+
+  // The patient's dates as typed in other layouts too: 20200131, 2020-01-31, 31/01/2020, 01/31/2020
+  IDENTIFYING_DATE_KEYS.forEach((key) => {
+    (dataset[key]?.Value ?? []).forEach((value) => {
+      const match = typeof value === 'string' && /^(\d{4})(\d{2})(\d{2})$/.exec(value.trim());
+      if (match) {
+        const [date, year, month, day] = match;
+        [
+          date,
+          `${year}-${month}-${day}`,
+          `${day}/${month}/${year}`,
+          `${month}/${day}/${year}`,
+          `${day}.${month}.${year}`,
+        ].forEach((layout) => dates.add(layout));
+      }
+    });
+  });
+
+  return { names: [...names], ids: [...ids], dates: [...dates] };
+}
+
+/**
+ * Find the spans of a value that hold PHI, the patient's own identifiers first.
+ * A match overlapping an earlier one is left to that one.
+ */
+function findPhiSpans(
+  value: string,
+  vr: string,
+  identifiers: KnownIdentifiers
+): { start: number; end: number; reason: RedactionReason }[] {
+  const spans: { start: number; end: number; reason: RedactionReason }[] = [];
+
+  const known: { reason: RedactionReason; values: string[] }[] = [
+    { reason: 'name', values: identifiers.names },
+    { reason: 'identifier', values: identifiers.ids },
+    { reason: 'date', values: identifiers.dates },
+  ];
+  const patterns = [
+    ...known.flatMap(({ reason, values }) =>
+      values.map((knownValue) => ({
+        reason,
+        // Whole words only, so a short name doesn't blank out parts of other words
+        pattern: new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(knownValue)}(?![A-Za-z0-9])`, 'gi'),
+      }))
+    ),
+    ...(FREE_TEXT_VRS.has(vr) ? PHI_PATTERNS : []),
+  ];
+
+  patterns.forEach(({ reason, pattern }) => {
+    for (const match of value.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (match[0].length > 0 && !spans.some((span) => start < span.end && end > span.start)) {
+        spans.push({ start, end, reason });
+      }
+    }
+  });
+
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Redact the PHI spans of a text value, keeping the rest of the text. Values
+ * of free-text VRs are also checked for PHI patterns. The result is cut to the
+ * VR's maximum length.
+ */
+export function scrubText(
+  value: string,
+  vr: string,
+  identifiers: KnownIdentifiers
+): { text: string; matches: TextRedactionMatch[] } {
+  const spans = findPhiSpans(value, vr, identifiers);
+  if (spans.length === 0) {
+    return { text: value, matches: [] };
+  }
+
+  let text = '';
+  let position = 0;
+  spans.forEach(({ start, end }) => {
+    text += `${value.substring(position, start)}${REDACTION_MARK}`;
+    position = end;
+  });
+  text += value.substring(position);
+
+  return {
+    text: text.substring(0, VR_MAX_LENGTHS[vr] ?? text.length),
+    matches: spans.map(({ start, end, reason }) => ({ text: value.substring(start, end), reason })),
+  };
+}
@@ -0,0 +1,118 @@
+import type { DicomJsonDataset } from 'dcmjs';
+import * as dicomParser from 'dicom-parser';
+import { deflateSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { TRANSFER_SYNTAXES } from '@utils/constants';
+import { createImageDataset, createPart10Buffer } from '@/test/dicomFixtures';
+import {
+  detectRawTransferSyntax,
+  getTransferSyntaxName,
+  hasPart10Header,
+  inflateDataSet,
+  swapToLittleEndian,
+  toPart10Buffer,
+} from './transferSyntax';
+
+/**
+ * The dataset of a Part 10 file without its preamble and File Meta Information
+ */
+function toRawDataset(buffer: ArrayBuffer): Uint8Array {
+  const groupLength = new DataView(buffer).getUint32(140, true);
+  return new Uint8Array(buffer.slice(144 + groupLength));
+}
+
+describe('transfer syntax names', () => {
+  it('names known syntaxes and falls back to the UID', () => {
+    expect(getTransferSyntaxName(TRANSFER_SYNTAXES.RLE_LOSSLESS)).not.toBe(TRANSFER_SYNTAXES.RLE_LOSSLESS);
+    expect(getTransferSyntaxName('1.2.3.4')).toBe('1.2.3.4');
+    expect(getTransferSyntaxName()).toBe('Unknown');
+  });
+});
+
+describe('detectRawTransferSyntax', () => {
+  it('tells explicit from implicit VR little endian datasets', () => {
+    const explicit = toRawDataset(createPart10Buffer(createImageDataset()));
+    const implicit = toRawDataset(
+      createPart10Buffer(createImageDataset(), TRANSFER_SYNTAXES.IMPLICIT_VR_LITTLE_ENDIAN)
+    );
+
+    expect(detectRawTransferSyntax(explicit)).toBe(TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN);
+    expect(detectRawTransferSyntax(implicit)).toBe(TRANSFER_SYNTAXES.IMPLICIT_VR_LITTLE_ENDIAN);
+  });
+
+  it('recognizes big endian datasets by their group number', () => {
+    const bigEndian = new Uint8Array([0x00, 0x08, 0x00, 0x16, 0x55, 0x49, 0x00, 0x02, 0x31, 0x00]);
+
+    expect(detectRawTransferSyntax(bigEndian)).toBe(TRANSFER_SYNTAXES.EXPLICIT_VR_BIG_ENDIAN);
+  });
+
+  it('rejects data that does not start with a low group', () => {
+    expect(detectRawTransferSyntax(new TextEncoder().encode('Not a DICOM file'))).toBeUndefined();
+    expect(detectRawTransferSyntax(new Uint8Array(4))).toBeUndefined();
+  });
+});
+
+describe('toPart10Buffer', () => {
+  it('returns Part 10 files as they are', () => {
+    const buffer = createPart10Buffer(createImageDataset());
+
+    expect(toPart10Buffer(buffer)).toEqual({ buffer, fileMetaAdded: false });
+  });
+
+  it('gives a raw dataset File Meta Information naming its detected syntax', () => {
+    const raw = toRawDataset(createPart10Buffer(createImageDataset()));
+
+    const { buffer, fileMetaAdded } = toPart10Buffer(raw.slice().buffer);
+    const dataSet = dicomParser.parseDicom(new Uint8Array(buffer));
+
+    expect(fileMetaAdded).toBe(true);
+    expect(hasPart10Header(new Uint8Array(buffer))).toBe(true);
+    expect(dataSet.string('x00020010')).toBe(TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN);
+    expect(dataSet.string('x00020003')).toBe('1.2.3.4.5.6.7');
+    expect(dataSet.string('x00100020')).toBe('MRN1234567');
+  });
+
+  it('adds only the preamble when the File Meta Information is there', () => {
+    const withoutPreamble = createPart10Buffer(createImageDataset()).slice(132);
+
+    const { buffer, fileMetaAdded } = toPart10Buffer(withoutPreamble);
+
+    expect(fileMetaAdded).toBe(true);
+    expect(buffer.byteLength).toBe(withoutPreamble.byteLength + 132);
+    expect(dicomParser.parseDicom(new Uint8Array(buffer)).string('x00100020')).toBe('MRN1234567');
+  });
+
+  it('rejects files that are not DICOM', () => {
+    expect(() => toPart10Buffer(new TextEncoder().encode('Not a DICOM file').buffer)).toThrow('Not a DICOM file');
+  });
+});
+
+describe('inflateDataSet', () => {
+  it('keeps the header bytes and inflates the dataset after them', () => {
+    const header = new Uint8Array([1, 2, 3, 4]);
+    const dataset = new TextEncoder().encode('deflated dataset bytes');
+    const deflated = new Uint8Array([...header, ...deflateSync(dataset)]);
+
+    expect(Array.from(inflateDataSet(deflated, header.length))).toEqual([...header, ...dataset]);
+  });
+});
+
+describe('swapToLittleEndian', () => {
+  it('swaps the words of binary values at any depth and leaves bytes alone', () => {
+    const dataset: DicomJsonDataset = {
+      '7FE00010': { vr: 'OW', Value: [new Uint8Array([0x01, 0x02, 0x03, 0x04]).buffer] },
+      '00091001': { vr: 'OB', Value: [new Uint8Array([0x01, 0x02]).buffer] },
+      '00540016': {
+        vr: 'SQ',
+        Value: [{ '00189219': { vr: 'OF', Value: [new Uint8Array([0x01, 0x02, 0x03, 0x04]).buffer] } }],
+      },
+    };
+
+    swapToLittleEndian(dataset);
+
+    const bytes = (element: DicomJsonDataset[string]) => Array.from(new Uint8Array(element.Value?.[0] as ArrayBuffer));
+    expect(bytes(dataset['7FE00010'])).toEqual([0x02, 0x01, 0x04, 0x03]);
+    expect(bytes(dataset['00091001'])).toEqual([0x01, 0x02]);
+    expect(bytes((dataset['00540016'].Value?.[0] as DicomJsonDataset)['00189219'])).toEqual([0x04, 0x03, 0x02, 0x01]);
+  });
+});
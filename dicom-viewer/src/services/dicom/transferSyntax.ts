@@ -0,0 +1,145 @@
+/**
+ * Transfer Syntax Handling
+ * Loads datasets the parsers can't take as they are: raw datasets with no
+ * Part 10 header, Deflated Explicit VR Little Endian, and Explicit VR Big
+ * Endian, whose binary values are turned to little endian before rewriting
+ */
+
+import dcmjs from 'dcmjs';
+import type { DicomJsonDataset } from 'dcmjs';
+import * as dicomParser from 'dicom-parser';
+import { inflateSync } from 'fflate';
+import { TRANSFER_SYNTAXES, TRANSFER_SYNTAX_NAMES } from '@utils/constants';
+
+const { DicomDict } = dcmjs.data;
+
+const PREAMBLE_LENGTH = 128;
+
+// A raw dataset starts with a low group: 0008, or 0002 when only the preamble is missing
+const MAX_FIRST_GROUP = 0x0010;
+
+const VALUE_REPRESENTATIONS = new Set([
+  'AE', 'AS', 'AT', 'CS', 'DA', 'DS', 'DT', 'FD', 'FL', 'IS', 'LO', 'LT', 'OB', 'OD', 'OF', 'OL', 'OV', 'OW',
+  'PN', 'SH', 'SL', 'SQ', 'SS', 'ST', 'SV', 'TM', 'UC', 'UI', 'UL', 'UN', 'UR', 'US', 'UT', 'UV',
+]);
+
+// Bytes per word of the binary VRs dcmjs keeps as they were read
+const WORD_SIZES: Record<string, number> = { OW: 2, OF: 4, OL: 4, OD: 8, OV: 8 };
+
+/**
+ * Name a transfer syntax, falling back to its UID
+ */
+export function getTransferSyntaxName(transferSyntaxUID?: string): string {
+  const uid = transferSyntaxUID?.trim() ?? '';
+  return TRANSFER_SYNTAX_NAMES[uid] ?? (uid || 'Unknown');
+}
+
+export function isBigEndianTransferSyntax(transferSyntaxUID?: string): boolean {
+  return transferSyntaxUID?.trim() === TRANSFER_SYNTAXES.EXPLICIT_VR_BIG_ENDIAN;
+}
+
+/**
+ * Check for the DICM prefix after the 128-byte preamble
+ */
+export function hasPart10Header(byteArray: Uint8Array): boolean {
+  return (
+    byteArray.length >= PREAMBLE_LENGTH + 4 &&
+    String.fromCharCode(...byteArray.subarray(PREAMBLE_LENGTH, PREAMBLE_LENGTH + 4)) === 'DICM'
+  );
+}
+
+/**
+ * Work out the transfer syntax of a raw dataset from its first element: the
+ * byte order of the group number, and whether a VR follows the tag
+ */
+export function detectRawTransferSyntax(byteArray: Uint8Array): string | undefined {
+  if (byteArray.length < 8) {
+    return undefined;
+  }
+
+  const littleEndianGroup = byteArray[0] | (byteArray[1] << 8);
+  const bigEndianGroup = (byteArray[0] << 8) | byteArray[1];
+  const hasVR = VALUE_REPRESENTATIONS.has(String.fromCharCode(byteArray[4], byteArray[5]));
+  const isFirstGroup = (group: number) => group > 0 && group <= MAX_FIRST_GROUP && group % 2 === 0;
+
+  if (isFirstGroup(littleEndianGroup)) {
+    return hasVR ? TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN : TRANSFER_SYNTAXES.IMPLICIT_VR_LITTLE_ENDIAN;
+  }
+  // Big endian is always explicit VR
+  if (isFirstGroup(bigEndianGroup) && hasVR) {
+    return TRANSFER_SYNTAXES.EXPLICIT_VR_BIG_ENDIAN;
+  }
+  return undefined;
+}
+
+/**
+ * Inflate the dataset of a Deflated Explicit VR Little Endian file, for
+ * dicom-parser: the header bytes are kept and the inflated dataset follows
+ */
+export function inflateDataSet(byteArray: Uint8Array, position: number): Uint8Array {
+  const inflated = inflateSync(byteArray.subarray(position));
+  const fullByteArray = new Uint8Array(position + inflated.length);
+  fullByteArray.set(byteArray.subarray(0, position));
+  fullByteArray.set(inflated, position);
+  return fullByteArray;
+}
+
+/**
+ * Give a raw dataset a Part 10 header so every reader can take it. Part 10
+ * files are returned as they are.
+ */
+export function toPart10Buffer(arrayBuffer: ArrayBuffer): { buffer: ArrayBuffer; fileMetaAdded: boolean } {
+  const byteArray = new Uint8Array(arrayBuffer);
+  if (hasPart10Header(byteArray)) {
+    return { buffer: arrayBuffer, fileMetaAdded: false };
+  }
+
+  const transferSyntaxUID = detectRawTransferSyntax(byteArray);
+  if (!transferSyntaxUID) {
+    throw new Error('Not a DICOM file: no Part 10 header and no recognizable dataset');
+  }
+
+  let header: Uint8Array;
+  if ((byteArray[0] | (byteArray[1] << 8)) === 0x0002) {
+    // The File Meta Information is there and only the preamble is missing
+    header = new Uint8Array(PREAMBLE_LENGTH + 4);
+    header.set([0x44, 0x49, 0x43, 0x4d], PREAMBLE_LENGTH);
+  } else {
+    const dataSet = dicomParser.parseDicom(byteArray, { TransferSyntaxUID: transferSyntaxUID, untilTag: 'x00080018' });
+    const part10 = new DicomDict({
+      '00020001': { vr: 'OB', Value: [new Uint8Array([0, 1]).buffer] },
+      '00020002': { vr: 'UI', Value: [dataSet.string('x00080016') ?? ''] },
+      '00020003': { vr: 'UI', Value: [dataSet.string('x00080018') ?? ''] },
+      '00020010': { vr: 'UI', Value: [transferSyntaxUID] },
+    });
+    header = new Uint8Array(part10.write());
+  }
+
+  const buffer = new Uint8Array(header.length + byteArray.length);
+  buffer.set(header);
+  buffer.set(byteArray, header.length);
+  return { buffer: buffer.buffer, fileMetaAdded: true };
+}
+
+/**
+ * Swap the bytes of every word of the binary values dcmjs read from a big
+ * endian file, in place, so the dataset can be written as little endian
+ */
+export function swapToLittleEndian(dataset: DicomJsonDataset): void {
+  Object.values(dataset).forEach((element) => {
+    if (element.vr === 'SQ') {
+      (element.Value ?? []).forEach((item) => swapToLittleEndian(item as DicomJsonDataset));
+      return;
+    }
+
+    const wordSize = WORD_SIZES[element.vr];
+    if (!wordSize) return;
+    (element.Value ?? []).forEach((value) => {
+      if (!(value instanceof ArrayBuffer)) return;
+      const bytes = new Uint8Array(value);
+      for (let offset = 0; offset + wordSize <= bytes.length; offset += wordSize) {
+        bytes.subarray(offset, offset + wordSize).reverse();
+      }
+    });
+  });
+}
@@ -0,0 +1,83 @@
+import type { DicomJsonDataset } from 'dcmjs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createPseudonymizer } from './pseudonymizer';
+import type { Pseudonymizer } from './pseudonymizer';
+import { createUIDMapper, remapDatasetUIDs } from './uidMapper';
+
+let pseudonymizer: Pseudonymizer;
+
+beforeAll(async () => {
+  pseudonymizer = await createPseudonymizer('test-secret');
+});
+
+describe('createUIDMapper', () => {
+  it('maps each UID to one replacement, the same across mappers with the same secret', async () => {
+    const uidMapper = createUIDMapper(pseudonymizer);
+
+    const first = await uidMapper.remap('1.2.3.4');
+    const second = await uidMapper.remap('1.2.3.5');
+
+    expect(first).not.toBe(second);
+    expect(await uidMapper.remap('1.2.3.4\0')).toBe(first);
+    expect(await createUIDMapper(pseudonymizer).remap('1.2.3.4')).toBe(first);
+    expect(uidMapper.lookup('1.2.3.4')).toBe(first);
+    expect(uidMapper.lookup('9.9.9')).toBeUndefined();
+  });
+
+  it('lists only the mappings it created', async () => {
+    const uidMapper = createUIDMapper(pseudonymizer, new Map([['1.2.3.4', '2.25.1']]));
+
+    await uidMapper.remap('1.2.3.4');
+    const created = await uidMapper.remap('1.2.3.5');
+
+    expect(uidMapper.getNewMappings()).toEqual([{ originalUID: '1.2.3.5', anonymizedUID: created }]);
+  });
+
+  it('keeps the assignments of stored mappings', async () => {
+    const uidMapper = createUIDMapper(pseudonymizer, new Map([['1.2.3.4', '2.25.1']]));
+
+    expect(await uidMapper.remap('1.2.3.4')).toBe('2.25.1');
+  });
+});
+
+describe('remapDatasetUIDs', () => {
+  it('remaps instance UIDs at any depth and keeps class and standard UIDs', async () => {
+    const uidMapper = createUIDMapper(pseudonymizer);
+    const dataset: DicomJsonDataset = {
+      '00080016': { vr: 'UI', Value: ['1.2.840.10008.5.1.4.1.1.2'] },
+      '00080018': { vr: 'UI', Value: ['1.2.3.4.5'] },
+      '00081115': {
+        vr: 'SQ',
+        Value: [
+          {
+            '0020000E': { vr: 'UI', Value: ['1.2.3.4'] },
+            '00081140': {
+              vr: 'SQ',
+              Value: [
+                {
+                  '00081150': { vr: 'UI', Value: ['1.2.3.99'] },
+                  '00081155': { vr: 'UI', Value: ['1.2.3.4.5'] },
+                },
+              ],
+            },
+          },
+        ],
+      },
+      '00089215': { vr: 'UI', Value: ['1.2.840.10008.1.2.1'] },
+    };
+
+    const remapped = await remapDatasetUIDs(dataset, uidMapper);
+
+    const sopInstanceUID = await uidMapper.remap('1.2.3.4.5');
+    const series = (remapped['00081115'].Value as DicomJsonDataset[])[0];
+    const image = (series['00081140'].Value as DicomJsonDataset[])[0];
+    expect(remapped['00080016'].Value).toEqual(['1.2.840.10008.5.1.4.1.1.2']);
+    expect(remapped['00080018'].Value).toEqual([sopInstanceUID]);
+    expect(series['0020000E'].Value).toEqual([await uidMapper.remap('1.2.3.4')]);
+    // References resolve to the same new UID as the instance they point to
+    expect(image['00081155'].Value).toEqual([sopInstanceUID]);
+    // Class UID attributes are kept whatever root they use
+    expect(image['00081150'].Value).toEqual(['1.2.3.99']);
+    expect(remapped['00089215'].Value).toEqual(['1.2.840.10008.1.2.1']);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * UID Mapping Service
+ * Remaps UIDs through the keyed pseudonymizer and optionally keeps the
+ * original-to-new table in IndexedDB, where it survives reloads
+ */
+
+import type { DicomJsonDataset } from 'dcmjs';
+import type { Pseudonymizer } from './pseudonymizer';
+import { downloadFile } from '@services/export/exportService';
+import { DICOM_UID_ROOT } from '@utils/constants';
+
+export interface UIDMapping {
+  originalUID: string;
+  anonymizedUID: string;
+}
+
+export interface UIDMapper {
+  /** Replacement for an original UID, stable for the same UID and secret */
+  remap: (uid: string) => Promise<string>;
+  /** Mappings created since the mapper was made, not yet in the stored table */
+  getNewMappings: () => UIDMapping[];
+  /** Replacement already assigned to an original UID, if any */
+  lookup: (uid: string) => string | undefined;
+}
+
+const DB_NAME = 'dicom-viewer';
+const DB_VERSION = 1;
+const STORE_NAME = 'uid-mappings';
+
+/**
+ * Create a UID mapper. Stored mappings take precedence over derived UIDs,
+ * so a table imported from an earlier project keeps its assignments.
+ */
+export function createUIDMapper(
+  pseudonymizer: Pseudonymizer,
+  storedMappings: Map<string, string> = new Map()
+): UIDMapper {
+  const cache = new Map<string, string>(storedMappings);
+  const newMappings = new Map<string, string>();
+
+  const remap = async (uid: string): Promise<string> => {
+    const originalUID = uid.replace(/\0/g, '').trim();
+    const cached = cache.get(originalUID);
+    if (cached) {
+      return cached;
+    }
+
+    const anonymizedUID = await pseudonymizer.pseudonymizeUID(originalUID);
+    cache.set(originalUID, anonymizedUID);
+    newMappings.set(originalUID, anonymizedUID);
+    return anonymizedUID;
+  };
+
+  const getNewMappings = (): UIDMapping[] =>
+    Array.from(newMappings, ([originalUID, anonymizedUID]) => ({ originalUID, anonymizedUID }));
+
+  const lookup = (uid: string): string | undefined => cache.get(uid.replace(/\0/g, '').trim());
+
+  return { remap, getNewMappings, lookup };
+}
+
+// Attributes holding class UIDs (SOP Classes, Transfer Syntaxes, implementations
+// and coding resources), which identify a kind of object rather than an instance
+const CLASS_UID_KEYS = new Set([
+  '00020002', // MediaStorageSOPClassUID
+  '00020010', // TransferSyntaxUID
+  '00020012', // ImplementationClassUID
+  '00041510', // ReferencedSOPClassUIDInFile
+  '00041512', // ReferencedTransferSyntaxUIDInFile
+  '00080016', // SOPClassUID
+  '0008001A', // RelatedGeneralSOPClassUID
+  '0008001B', // OriginalSpecializedSOPClassUID
+  '00080062', // SOPClassesInStudy
+  '0008010C', // CodingSchemeUID
+  '00080117', // ContextUID
+  '00080118', // MappingResourceUID
+  '00081150', // ReferencedSOPClassUID
+  '0008115A', // SOPClassesSupported
+]);
+
+/**
+ * Check if a UID is defined by the standard or held by a class UID attribute
+ */
+function isWellKnownUID(key: string, uid: string): boolean {
+  return CLASS_UID_KEYS.has(key.toUpperCase()) || uid.startsWith(DICOM_UID_ROOT);
+}
+
+/**
+ * Remap every instance UID at any depth, including inside sequence items,
+ * leaving SOP Class, Transfer Syntax and other well-known UIDs alone
+ */
+export async function remapDatasetUIDs(dataset: DicomJsonDataset, uidMapper: UIDMapper): Promise<DicomJsonDataset> {
+  const remapped: DicomJsonDataset = {};
+
+  for (const [key, element] of Object.entries(dataset)) {
+    if (element.vr === 'UI' && element.Value) {
+      remapped[key] = {
+        vr: element.vr,
+        Value: await Promise.all(
+          element.Value.map((value) => {
+            const uid = String(value ?? '').replace(/\0/g, '').trim();
+            return uid && !isWellKnownUID(key, uid) ? uidMapper.remap(uid) : value;
+          })
+        ),
+      };
+    } else if (element.vr === 'SQ' && element.Value) {
+      remapped[key] = {
+        vr: element.vr,
+        Value: await Promise.all(
+          element.Value.map((item) => remapDatasetUIDs(item as DicomJsonDataset, uidMapper))
+        ),
+      };
+    } else {
+      remapped[key] = element;
+    }
+  }
+
+  return remapped;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open the mapping database, creating the store on first use
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'originalUID' });
+    }
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * Run one operation against the mapping store and close the database afterwards
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    const result = request ? await requestToPromise(request) : undefined;
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load every stored mapping
+ */
+export async function loadUIDMappings(): Promise<Map<string, string>> {
+  const mappings = (await withStore('readonly', (store) => store.getAll() as IDBRequest<UIDMapping[]>)) ?? [];
+  return new Map(mappings.map(({ originalUID, anonymizedUID }) => [originalUID, anonymizedUID]));
+}
+
+/**
+ * Add mappings to the store, replacing entries for the same original UID
+ */
+export async function saveUIDMappings(mappings: UIDMapping[]): Promise<void> {
+  if (mappings.length === 0) {
+    return;
+  }
+  await withStore('readwrite', (store) => {
+    mappings.forEach((mapping) => store.put(mapping));
+  });
+}
+
+/**
+ * Count the stored mappings
+ */
+export async function countUIDMappings(): Promise<number> {
+  return (await withStore('readonly', (store) => store.count())) ?? 0;
+}
+
+/**
+ * Delete every stored mapping
+ */
+export async function clearUIDMappings(): Promise<void> {
+  await withStore('readwrite', (store) => store.clear());
+}
+
+/**
+ * Download the stored mappings as JSON
+ */
+export async function exportUIDMappings(filename: string = 'uid_mappings.json'): Promise<number> {
+  const mappings = await loadUIDMappings();
+  const data = {
+    exportDate: new Date().toISOString(),
+    mappings: Array.from(mappings, ([originalUID, anonymizedUID]) => ({ originalUID, anonymizedUID })),
+  };
+
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  downloadFile(blob, filename);
+  return data.mappings.length;
+}
+
+/**
+ * Import mappings from a JSON file written by exportUIDMappings
+ */
+export async function importUIDMappings(file: File): Promise<number> {
+  const data = JSON.parse(await file.text());
+  const entries: unknown[] = Array.isArray(data?.mappings) ? data.mappings : [];
+
+  const mappings = entries.filter(
+    (entry): entry is UIDMapping =>
+      typeof (entry as UIDMapping)?.originalUID === 'string' &&
+      typeof (entry as UIDMapping)?.anonymizedUID === 'string'
+  );
+  if (mappings.length === 0) {
+    throw new Error('No UID mappings found in file');
+  }
+
+  await saveUIDMappings(mappings.map(({ originalUID, anonymizedUID }) => ({ originalUID, anonymizedUID })));
+  return mappings.length;
+}
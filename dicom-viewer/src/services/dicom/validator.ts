@@ -4,7 +4,6 @@
 
 import {
   MAX_FILE_SIZE,
-  ACCEPTED_FILE_TYPES,
   ERROR_MESSAGES,
 } from '@utils/constants';
 import { validateDicomFile } from './parser';
@@ -15,7 +14,8 @@ export interface ValidationResult {
 }
 
 /**
- * Validate a file before upload
+ * Validate a file before upload. Files are recognized by their content, so
+ * extensionless files from PACS exports and media are accepted.
  */
 export async function validateFile(file: File): Promise<ValidationResult> {
   // Check file size
@@ -26,15 +26,6 @@ export async function validateFile(file: File): Promise<ValidationResult> {
     };
   }
 
-  // Check file extension
-  const fileExtension = getFileExtension(file.name);
-  if (!isAcceptedFileType(fileExtension)) {
-    return {
-      valid: false,
-      error: ERROR_MESSAGES.INVALID_FILE_TYPE,
-    };
-  }
-
   // Validate DICOM structure
   try {
     const arrayBuffer = await file.arrayBuffer();
@@ -43,7 +34,7 @@ export async function validateFile(file: File): Promise<ValidationResult> {
     if (!isDicom) {
       return {
         valid: false,
-        error: 'File is not a valid DICOM file',
+        error: ERROR_MESSAGES.INVALID_FILE_TYPE,
       };
     }
 
@@ -82,23 +73,6 @@ export async function validateFiles(files: File[]): Promise<{
   return { validFiles, invalidFiles };
 }
 
-/**
- * Check if file extension is accepted
- */
-function isAcceptedFileType(extension: string): boolean {
-  return ACCEPTED_FILE_TYPES.some(
-    (type) => type.toLowerCase() === extension.toLowerCase()
-  );
-}
-
-/**
- * Get file extension from filename
- */
-function getFileExtension(filename: string): string {
-  const parts = filename.split('.');
-  return parts.length > 1 ? `.${parts[parts.length - 1]}` : '';
-}
-
 /**
  * Format file size for display
  */
@@ -127,10 +101,5 @@ export function getFileValidationError(file: File): string | null {
     return ERROR_MESSAGES.FILE_TOO_LARGE;
   }
 
-  const extension = getFileExtension(file.name);
-  if (!isAcceptedFileType(extension)) {
-    return ERROR_MESSAGES.INVALID_FILE_TYPE;
-  }
-
   return null;
 }
@@ -0,0 +1,66 @@
+import dcmjs from 'dcmjs';
+import type { DicomJsonDataset } from 'dcmjs';
+import { describe, expect, it } from 'vitest';
+import type { PixelMask } from '@store/types';
+import { createDeidentifyOptions, createImageDataset, createPart10Buffer } from '@/test/dicomFixtures';
+import { CLEAN_PIXEL_DATA_METHOD } from './pixelRedactor';
+import { createPseudonymizer } from './pseudonymizer';
+import { createUIDMapper } from './uidMapper';
+import { writeDeidentifiedDicom } from './writer';
+
+const { DicomMessage } = dcmjs.data;
+
+const codeValues = (dataset: DicomJsonDataset) =>
+  (dataset['00120064'].Value as DicomJsonDataset[]).map((item) => item['00080100'].Value?.[0]);
+
+async function writeImage(options = createDeidentifyOptions(), pixelMasks: PixelMask[] = []) {
+  const pseudonymizer = await createPseudonymizer('test-secret');
+  const result = await writeDeidentifiedDicom(
+    createPart10Buffer(createImageDataset()),
+    options,
+    pseudonymizer,
+    createUIDMapper(pseudonymizer),
+    pixelMasks
+  );
+  return { ...result, dicomDict: DicomMessage.readFile(result.buffer) };
+}
+
+describe('writeDeidentifiedDicom', () => {
+  it('writes the deidentified attributes into the file bytes', async () => {
+    const { dicomDict, dateOffsetDays } = await writeImage();
+
+    expect(dicomDict.dict['00100010'].Value).toEqual([{ Alphabetic: 'ANONYMOUS' }]);
+    expect(dicomDict.dict['00100020'].Value?.[0]).toMatch(/^ANON-[0-9A-F]{16}$/);
+    expect(dicomDict.dict['00080080'].Value).toEqual(['ANONYMIZED']);
+    expect(dicomDict.dict['00120062'].Value).toEqual(['YES']);
+    expect(dateOffsetDays).toBeLessThan(0);
+    expect(dicomDict.dict['00080020'].Value?.[0]).not.toBe('20240315');
+  });
+
+  it('keeps the file meta header in step with remapped UIDs', async () => {
+    const { dicomDict } = await writeImage(createDeidentifyOptions({ anonymizeUIDs: true }));
+
+    const sopInstanceUID = dicomDict.dict['00080018'].Value?.[0];
+    expect(sopInstanceUID).toMatch(/^2\.25\./);
+    expect(dicomDict.meta['00020003'].Value).toEqual([sopInstanceUID]);
+  });
+
+  it('blanks masked pixels and clears Burned In Annotation', async () => {
+    const { dicomDict } = await writeImage(createDeidentifyOptions(), [{ x: 0, y: 0, width: 2, height: 1 }]);
+
+    const pixels = new Uint8Array(dicomDict.dict['7FE00010'].Value?.[0] as ArrayBuffer);
+    expect(Array.from(pixels.subarray(0, 4))).toEqual([0, 0, 2, 3]);
+    expect(dicomDict.dict['00280301'].Value).toEqual(['NO']);
+    expect(dicomDict.dict['00120063'].Value).toContain(CLEAN_PIXEL_DATA_METHOD);
+    expect(codeValues(dicomDict.dict)).toContain('113101');
+  });
+
+  it('leaves the pixels alone without masks', async () => {
+    const { dicomDict } = await writeImage();
+
+    const pixels = new Uint8Array(dicomDict.dict['7FE00010'].Value?.[0] as ArrayBuffer);
+    expect(Array.from(pixels.subarray(0, 4))).toEqual([0, 1, 2, 3]);
+    expect(dicomDict.dict['00280301']).toBeUndefined();
+    expect(codeValues(dicomDict.dict)).not.toContain('113101');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * DICOM Writer Service
+ * Rewrites Part 10 files so deidentification reaches the exported bytes,
+ * not just the metadata summary shown in the UI
+ */
+
+import dcmjs from 'dcmjs';
+import type { DeidentifyOptions, PixelMask, TextRedaction } from '@store/types';
+import { TRANSFER_SYNTAXES } from '@utils/constants';
+import { transcodeDicom } from '@services/export/exportService';
+import { deidentifyDataset, getDateOffsetDays, recordCleanPixelData } from './deidentifier';
+import { clearEmbeddedOverlays, redactPixelData } from './pixelRedactor';
+import { getNonImageObjectKind, stripNonImageObject } from './nonImageObjects';
+import { isEncapsulatedTransferSyntax } from './pixelDecoder';
+import { swapToLittleEndian } from './transferSyntax';
+import type { Pseudonymizer } from './pseudonymizer';
+import { remapDatasetUIDs } from './uidMapper';
+import type { UIDMapper } from './uidMapper';
+
+const { DicomMessage } = dcmjs.data;
+
+export interface DeidentifiedDicom {
+  buffer: ArrayBuffer;
+  redactions: TextRedaction[];
+  // Days the dates were moved by, for the re-identification crosswalk
+  dateOffsetDays: number;
+}
+
+/**
+ * Apply deidentification options to a Part 10 file and return the rewritten
+ * bytes, with the free-text redactions made along the way. Pixel masks are
+ * blanked in every frame, and Clean Graphics clears overlays in the pixel bits.
+ * Non-image objects under the strip policy lose their embedded document.
+ * Big endian and deflated files are written as Explicit VR Little Endian, and
+ * so are compressed files with pixel masks, whose frames are decoded first.
+ */
+export async function writeDeidentifiedDicom(
+  arrayBuffer: ArrayBuffer,
+  options: DeidentifyOptions,
+  pseudonymizer: Pseudonymizer,
+  uidMapper: UIDMapper,
+  pixelMasks: PixelMask[] = []
+): Promise<DeidentifiedDicom> {
+  let dicomDict = DicomMessage.readFile(arrayBuffer);
+  // Masks can only blank decoded samples; transcoding marks lossy sources as such
+  if (
+    pixelMasks.length > 0 &&
+    dicomDict.dict['7FE00010'] &&
+    isEncapsulatedTransferSyntax(String(dicomDict.meta['00020010']?.Value?.[0] ?? ''))
+  ) {
+    const decoded = await transcodeDicom(arrayBuffer, TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN);
+    dicomDict = DicomMessage.readFile(decoded.buffer);
+  }
+  const redactions: TextRedaction[] = [];
+  const dateOffsetDays = await getDateOffsetDays(
+    String(dicomDict.dict['00100020']?.Value?.[0] ?? ''),
+    options,
+    pseudonymizer
+  );
+
+  // dcmjs reads both but writes neither: big endian binary values keep their
+  // byte order, and a deflated dataset would be written uncompressed
+  const sourceTransferSyntaxUID = String(dicomDict.meta['00020010']?.Value?.[0] ?? '');
+  if (sourceTransferSyntaxUID === TRANSFER_SYNTAXES.EXPLICIT_VR_BIG_ENDIAN) {
+    swapToLittleEndian(dicomDict.dict);
+  }
+  if (
+    sourceTransferSyntaxUID === TRANSFER_SYNTAXES.EXPLICIT_VR_BIG_ENDIAN ||
+    sourceTransferSyntaxUID === TRANSFER_SYNTAXES.DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN
+  ) {
+    dicomDict.meta['00020010'] = { vr: 'UI', Value: [TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN] };
+  }
+  const transferSyntaxUID = String(dicomDict.meta['00020010']?.Value?.[0] ?? '');
+
+  // Read before deidentification removes the overlay groups that say which bits they use
+  if (options.cleanGraphics) {
+    clearEmbeddedOverlays(dicomDict.dict, transferSyntaxUID);
+  }
+
+  // Actions are applied by tag number, so private and unlisted attributes are reached too
+  dicomDict.dict = await deidentifyDataset(dicomDict.dict, options, pseudonymizer, uidMapper, redactions);
+
+  // The meta header's MediaStorageSOPInstanceUID goes through the same mapping
+  if (options.anonymizeUIDs) {
+    dicomDict.meta = await remapDatasetUIDs(dicomDict.meta, uidMapper);
+  }
+
+  // Keep the file meta header in step with the (possibly remapped) SOP Instance UID
+  const sopInstanceUID = dicomDict.dict['00080018']?.Value?.[0];
+  if (sopInstanceUID && dicomDict.meta['00020003']) {
+    dicomDict.meta['00020003'].Value = [sopInstanceUID];
+  }
+
+  // Once the masked text is gone the image no longer has burned-in annotation
+  if (redactPixelData(dicomDict.dict, pixelMasks, transferSyntaxUID)) {
+    dicomDict.dict['00280301'] = { vr: 'CS', Value: ['NO'] };
+    recordCleanPixelData(dicomDict.dict);
+  }
+
+  const nonImageObjectKind = getNonImageObjectKind(String(dicomDict.dict['00080016']?.Value?.[0] ?? ''));
+  if (nonImageObjectKind && options.nonImageObjectPolicies[nonImageObjectKind] === 'strip') {
+    stripNonImageObject(dicomDict.dict, nonImageObjectKind);
+  }
+
+  return { buffer: dicomDict.write(), redactions, dateOffsetDays };
+}
@@ -0,0 +1,133 @@
+import dcmjs from 'dcmjs';
+import type { DicomJsonDataset } from 'dcmjs';
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { describe, expect, it, vi } from 'vitest';
+import type { DicomFile } from '@store/types';
+import { TRANSFER_SYNTAXES } from '@utils/constants';
+import { createImageDataset, createPart10Buffer } from '@/test/dicomFixtures';
+import { exportDicomFilesAsZip, transcodeDicom } from './exportService';
+
+vi.mock('file-saver', () => ({ saveAs: vi.fn() }));
+
+// Vite serves codec WASM by URL; under Node the codecs read it from disk
+vi.mock('@cornerstonejs/codec-openjpeg/wasm?url', () => ({
+  default: `${process.cwd()}/node_modules/@cornerstonejs/codec-openjpeg/dist/openjpegwasm.wasm`,
+}));
+vi.mock('@cornerstonejs/codec-openjpeg/decodewasm?url', () => ({
+  default: `${process.cwd()}/node_modules/@cornerstonejs/codec-openjpeg/dist/openjpegwasm_decode.wasm`,
+}));
+
+const { DicomMessage } = dcmjs.data;
+
+const readPixels = (dataset: DicomJsonDataset) =>
+  Array.from(new Uint8Array(dataset['7FE00010'].Value?.[0] as ArrayBuffer));
+
+describe('transcodeDicom', () => {
+  it('compresses native pixel data as RLE Lossless and decodes it back unchanged', async () => {
+    const source = createPart10Buffer(createImageDataset());
+
+    const rle = await transcodeDicom(source, TRANSFER_SYNTAXES.RLE_LOSSLESS);
+    const compressed = DicomMessage.readFile(rle.buffer);
+    const native = await transcodeDicom(rle.buffer, TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN);
+    const decoded = DicomMessage.readFile(native.buffer);
+
+    expect(rle.transferSyntaxUID).toBe(TRANSFER_SYNTAXES.RLE_LOSSLESS);
+    expect(compressed.meta['00020010'].Value).toEqual([TRANSFER_SYNTAXES.RLE_LOSSLESS]);
+    expect(native.transferSyntaxUID).toBe(TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN);
+    expect(readPixels(decoded.dict)).toEqual(readPixels(createImageDataset()));
+    expect(decoded.dict['00100020'].Value).toEqual(['MRN1234567']);
+    expect(decoded.dict['00282110']).toBeUndefined();
+  });
+
+  it('interleaves color planes while transcoding', async () => {
+    const dataset: DicomJsonDataset = {
+      ...createImageDataset(1, 2),
+      '00280002': { vr: 'US', Value: [3] },
+      '00280004': { vr: 'CS', Value: ['RGB'] },
+      '00280006': { vr: 'US', Value: [1] },
+      // Red, green and blue planes of two pixels
+      '7FE00010': { vr: 'OB', Value: [new Uint8Array([1, 2, 3, 4, 5, 6]).buffer] },
+    };
+
+    const rle = await transcodeDicom(createPart10Buffer(dataset), TRANSFER_SYNTAXES.RLE_LOSSLESS);
+    const native = await transcodeDicom(rle.buffer, TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN);
+    const decoded = DicomMessage.readFile(native.buffer);
+
+    expect(readPixels(decoded.dict)).toEqual([1, 3, 5, 2, 4, 6]);
+    expect(decoded.dict['00280006'].Value).toEqual([0]);
+  });
+
+  it('keeps negative samples of signed 16-bit images through JPEG 2000 Lossless', async () => {
+    const samples = new Int16Array([-1024, -1, 0, 1, 2047, -2048, 300, -300]);
+    const dataset: DicomJsonDataset = {
+      ...createImageDataset(2, 4),
+      '00280100': { vr: 'US', Value: [16] },
+      '00280101': { vr: 'US', Value: [16] },
+      '00280102': { vr: 'US', Value: [15] },
+      '00280103': { vr: 'US', Value: [1] },
+      '7FE00010': { vr: 'OW', Value: [samples.buffer] },
+    };
+
+    const j2k = await transcodeDicom(createPart10Buffer(dataset), TRANSFER_SYNTAXES.JPEG_2000_LOSSLESS);
+    const native = await transcodeDicom(j2k.buffer, TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN);
+    const decoded = DicomMessage.readFile(native.buffer);
+
+    expect(j2k.transferSyntaxUID).toBe(TRANSFER_SYNTAXES.JPEG_2000_LOSSLESS);
+    // The SIZ marker segment declares the component signed, with 16 bits
+    const codestream = readPixels(DicomMessage.readFile(j2k.buffer).dict);
+    const siz = codestream.findIndex((byte, index) => byte === 0xff && codestream[index + 1] === 0x51);
+    expect(codestream[siz + 40]).toBe(0x8f);
+    expect(Array.from(new Int16Array(decoded.dict['7FE00010'].Value?.[0] as ArrayBuffer))).toEqual(Array.from(samples));
+  });
+
+  it('returns files already in the requested syntax as they are', async () => {
+    const source = createPart10Buffer(createImageDataset());
+
+    const transcoded = await transcodeDicom(source, TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN);
+
+    expect(transcoded.buffer).toBe(source);
+  });
+
+  it('writes objects without pixel data as Explicit VR Little Endian', async () => {
+    const dataset = createImageDataset();
+    delete dataset['7FE00010'];
+
+    const transcoded = await transcodeDicom(
+      createPart10Buffer(dataset, TRANSFER_SYNTAXES.IMPLICIT_VR_LITTLE_ENDIAN),
+      TRANSFER_SYNTAXES.RLE_LOSSLESS
+    );
+
+    expect(transcoded.transferSyntaxUID).toBe(TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN);
+    expect(DicomMessage.readFile(transcoded.buffer).dict['00100020'].Value).toEqual(['MRN1234567']);
+  });
+});
+
+describe('exportDicomFilesAsZip', () => {
+  it('lists where leaks were found in metadata.json without the identifiers', async () => {
+    const file: DicomFile = {
+      id: 'file-1',
+      file: new File([], 'image.dcm'),
+      fileName: 'image.dcm',
+      status: 'complete',
+      progress: 100,
+      imageData: createPart10Buffer(createImageDataset()),
+      leakFindings: [
+        { tag: 'x00081030', vr: 'LO', value: 'Scan for Doe^John', phi: 'Doe^John', kind: 'name', match: 'exact' },
+        { tag: 'x00321060', vr: 'LO', value: 'MRN1234567 follow-up', phi: 'MRN1234567', kind: 'identifier' },
+      ],
+    };
+
+    await exportDicomFilesAsZip([file]);
+
+    const zipBlob = vi.mocked(saveAs).mock.calls[0][0] as Blob;
+    const zip = await JSZip.loadAsync(await zipBlob.arrayBuffer());
+    const metadataJson = (await zip.file('metadata.json')?.async('string')) ?? '';
+    expect(metadataJson).not.toContain('Doe^John');
+    expect(metadataJson).not.toContain('MRN1234567');
+    expect(JSON.parse(metadataJson)[0].leakFindings).toEqual([
+      { tag: 'x00081030', vr: 'LO', kind: 'name', match: 'exact' },
+      { tag: 'x00321060', vr: 'LO', kind: 'identifier' },
+    ]);
+  });
+});
@@ -5,7 +5,58 @@
 
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
-import type { DicomFile } from '@store/types';
+import dcmjs from 'dcmjs';
+import type { DicomJsonDataset, DicomJsonElement } from 'dcmjs';
+import type { BurnedInAnnotationPolicy, DicomFile } from '@store/types';
+import { TRANSFER_SYNTAXES } from '@utils/constants';
+import { parseDicomDataSet } from '@services/dicom/parser';
+import {
+  canDecodeTransferSyntax,
+  decodeFrame,
+  isEncapsulatedTransferSyntax,
+  readEncapsulatedFrame,
+} from '@services/dicom/pixelDecoder';
+import { encodeFrame } from '@services/dicom/pixelEncoder';
+import type { EncoderImageInfo } from '@services/dicom/pixelEncoder';
+import { getTransferSyntaxName } from '@services/dicom/transferSyntax';
+
+const { DicomMessage } = dcmjs.data;
+
+// Transfer syntaxes files can be written in on export
+export const OUTPUT_TRANSFER_SYNTAXES: string[] = [
+  TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN,
+  TRANSFER_SYNTAXES.RLE_LOSSLESS,
+  TRANSFER_SYNTAXES.JPEG_LS_LOSSLESS,
+  TRANSFER_SYNTAXES.JPEG_2000_LOSSLESS,
+];
+
+// Pixel data decoded from these has already lost information
+const LOSSY_SYNTAXES: string[] = [
+  TRANSFER_SYNTAXES.JPEG_BASELINE,
+  TRANSFER_SYNTAXES.JPEG_EXTENDED,
+  TRANSFER_SYNTAXES.JPEG_LS_NEAR_LOSSLESS,
+  TRANSFER_SYNTAXES.JPEG_2000,
+];
+
+// Chroma subsampled native pixel data isn't laid out one pixel after another
+const SUBSAMPLED_PHOTOMETRICS = ['YBR_FULL_422', 'YBR_PARTIAL_422', 'YBR_PARTIAL_420'];
+
+interface PixelModule extends EncoderImageInfo {
+  numberOfFrames: number;
+  planarConfiguration: number;
+}
+
+export interface TranscodedDicom {
+  buffer: ArrayBuffer;
+  transferSyntaxUID: string;
+}
+
+/**
+ * Name a deidentified file after its original, keeping its folder path
+ */
+function getExportFileName(fileName: string): string {
+  return `${fileName.replace(/\.(dcm|dicom)$/i, '')}_deidentified.dcm`;
+}
 
 /**
  * Download a single file
@@ -14,47 +65,228 @@ export function downloadFile(blob: Blob, filename: string): void {
   saveAs(blob, filename);
 }
 
+function readPixelModule(dataset: DicomJsonDataset): PixelModule {
+  const value = (tag: string) => dataset[tag]?.Value?.[0];
+  const bitsAllocated = Number(value('00280100') ?? 16);
+  return {
+    rows: Number(value('00280010') ?? 0),
+    columns: Number(value('00280011') ?? 0),
+    bitsAllocated,
+    bitsStored: Number(value('00280101') ?? bitsAllocated),
+    signed: Number(value('00280103') ?? 0) === 1,
+    samplesPerPixel: Number(value('00280002') ?? 1),
+    photometricInterpretation: String(value('00280004') ?? 'MONOCHROME2').trim(),
+    numberOfFrames: parseInt(String(value('00280008') ?? '1'), 10) || 1,
+    planarConfiguration: Number(value('00280006') ?? 0),
+  };
+}
+
+/**
+ * Reorder a frame stored color plane by color plane to pixel by pixel
+ */
+function interleaveFrame(frame: Uint8Array, image: PixelModule): Uint8Array {
+  const bytesPerSample = image.bitsAllocated / 8;
+  const planeLength = image.rows * image.columns * bytesPerSample;
+  const interleaved = new Uint8Array(frame.length);
+  for (let sample = 0; sample < image.samplesPerPixel; sample++) {
+    for (let pixel = 0; pixel < image.rows * image.columns; pixel++) {
+      for (let byte = 0; byte < bytesPerSample; byte++) {
+        interleaved[(pixel * image.samplesPerPixel + sample) * bytesPerSample + byte] =
+          frame[sample * planeLength + pixel * bytesPerSample + byte];
+      }
+    }
+  }
+  return interleaved;
+}
+
+/**
+ * Split native Pixel Data into frames, interleaved by pixel
+ */
+function readNativeFrames(element: DicomJsonElement, image: PixelModule): Uint8Array[] {
+  if (image.bitsAllocated % 8 !== 0) {
+    throw new Error(`${image.bitsAllocated} bit pixel data can't be transcoded`);
+  }
+  if (SUBSAMPLED_PHOTOMETRICS.includes(image.photometricInterpretation)) {
+    throw new Error(`${image.photometricInterpretation} pixel data can't be transcoded`);
+  }
+
+  const chunks = (element.Value ?? []).map((value) => new Uint8Array(value as ArrayBuffer));
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  chunks.reduce((offset, chunk) => {
+    bytes.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+
+  const frameLength = (image.rows * image.columns * image.samplesPerPixel * image.bitsAllocated) / 8;
+  if (bytes.length < frameLength * image.numberOfFrames) {
+    throw new Error('The pixel data is shorter than its frames');
+  }
+  return Array.from({ length: image.numberOfFrames }, (_, index) => {
+    const frame = bytes.subarray(index * frameLength, (index + 1) * frameLength);
+    return image.planarConfiguration === 1 && image.samplesPerPixel > 1 ? interleaveFrame(frame, image) : frame;
+  });
+}
+
+const toArrayBuffer = (bytes: Uint8Array) =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+/**
+ * Rewrite a Part 10 file in another transfer syntax: compressed pixel data is
+ * decoded, then written natively or encoded again, and the File Meta
+ * Information names the new syntax. Objects without pixel data can't be
+ * compressed and are written as Explicit VR Little Endian.
+ */
+export async function transcodeDicom(arrayBuffer: ArrayBuffer, transferSyntaxUID: string): Promise<TranscodedDicom> {
+  const dicomDict = DicomMessage.readFile(arrayBuffer);
+  const sourceSyntax = String(dicomDict.meta['00020010']?.Value?.[0] ?? '').trim();
+  const pixelData = dicomDict.dict['7FE00010'];
+  const targetSyntax =
+    !pixelData && isEncapsulatedTransferSyntax(transferSyntaxUID)
+      ? TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN
+      : transferSyntaxUID.trim();
+
+  if (sourceSyntax === targetSyntax) {
+    return { buffer: arrayBuffer, transferSyntaxUID: sourceSyntax };
+  }
+
+  const sourceEncapsulated = isEncapsulatedTransferSyntax(sourceSyntax);
+  const targetEncapsulated = isEncapsulatedTransferSyntax(targetSyntax);
+  if (pixelData && (sourceEncapsulated || targetEncapsulated)) {
+    const image = readPixelModule(dicomDict.dict);
+    let frames: Uint8Array[];
+    let photometricInterpretation = image.photometricInterpretation;
+
+    if (sourceEncapsulated) {
+      if (!canDecodeTransferSyntax(sourceSyntax)) {
+        throw new Error(`Pixel data in ${getTransferSyntaxName(sourceSyntax)} can't be decoded`);
+      }
+      const dataSet = parseDicomDataSet(new Uint8Array(arrayBuffer));
+      frames = [];
+      for (let index = 0; index < image.numberOfFrames; index++) {
+        const decoded = await decodeFrame(readEncapsulatedFrame(dataSet, index), sourceSyntax, image);
+        frames.push(decoded.pixelData);
+        photometricInterpretation = decoded.photometricInterpretation;
+      }
+    } else {
+      frames = readNativeFrames(pixelData, image);
+    }
+
+    if (targetEncapsulated) {
+      const fragments: ArrayBuffer[] = [];
+      for (const frame of frames) {
+        const encoded = await encodeFrame(frame, targetSyntax, { ...image, photometricInterpretation });
+        fragments.push(toArrayBuffer(encoded.fragment));
+        photometricInterpretation = encoded.photometricInterpretation;
+      }
+      dicomDict.dict['7FE00010'] = { vr: 'OB', Value: fragments };
+    } else {
+      const native = new Uint8Array(frames.reduce((total, frame) => total + frame.length, 0));
+      frames.forEach((frame, index) => native.set(frame, index * frame.length));
+      dicomDict.dict['7FE00010'] = { vr: image.bitsAllocated > 8 ? 'OW' : 'OB', Value: [native.buffer] };
+    }
+
+    dicomDict.dict['00280004'] = { vr: 'CS', Value: [photometricInterpretation] };
+    if (image.samplesPerPixel > 1) {
+      dicomDict.dict['00280006'] = { vr: 'US', Value: [0] };
+    }
+    if (LOSSY_SYNTAXES.includes(sourceSyntax)) {
+      dicomDict.dict['00282110'] = { vr: 'CS', Value: ['01'] }; // LossyImageCompression
+    }
+  }
+
+  dicomDict.meta['00020010'] = { vr: 'UI', Value: [targetSyntax] };
+  return { buffer: dicomDict.write(), transferSyntaxUID: targetSyntax };
+}
+
 /**
- * Export deidentified DICOM file
+ * Export deidentified DICOM file, optionally in another transfer syntax
  */
-export async function exportDicomFile(file: DicomFile): Promise<void> {
+export async function exportDicomFile(file: DicomFile, transferSyntaxUID?: string): Promise<void> {
   if (!file.imageData) {
     throw new Error('No image data available for export');
   }
 
-  const blob = new Blob([file.imageData], { type: 'application/dicom' });
-  const filename = file.fileName.replace(/\.dcm$/i, '_deidentified.dcm');
+  const output = transferSyntaxUID
+    ? (await transcodeDicom(file.imageData, transferSyntaxUID)).buffer
+    : file.imageData;
+  const blob = new Blob([output], { type: 'application/dicom' });
+  const filename = getExportFileName(file.fileName.split('/').pop() ?? file.fileName);
 
   downloadFile(blob, filename);
 }
 
 /**
- * Export multiple DICOM files as ZIP
+ * Where a file goes in a ZIP export: files flagged for burned-in annotation
+ * are quarantined in their own folder or left out, as the profile says, and
+ * objects rejected by their SOP Class policy have no output at all
+ */
+function getZipDisposition(
+  file: DicomFile,
+  policy: BurnedInAnnotationPolicy
+): 'included' | 'quarantined' | 'blocked' | 'rejected' {
+  if (!file.imageData) {
+    return 'rejected';
+  }
+  if (!file.burnedInAnnotation?.length || policy === 'include') {
+    return 'included';
+  }
+  return policy === 'quarantine' ? 'quarantined' : 'blocked';
+}
+
+/**
+ * Export multiple DICOM files as ZIP, optionally in another transfer syntax
  */
 export async function exportDicomFilesAsZip(
   files: DicomFile[],
+  burnedInAnnotationPolicy: BurnedInAnnotationPolicy = 'include',
+  transferSyntaxUID?: string,
   zipFilename: string = 'deidentified_dicoms.zip'
 ): Promise<void> {
   if (files.length === 0) {
     throw new Error('No files to export');
   }
 
+  const dispositions = files.map((file) => getZipDisposition(file, burnedInAnnotationPolicy));
+  if (dispositions.every((disposition) => disposition === 'rejected')) {
+    throw new Error('Every file was rejected by its SOP Class policy');
+  }
+  if (dispositions.every((disposition) => disposition === 'blocked' || disposition === 'rejected')) {
+    throw new Error('Every file is flagged for burned-in annotation and blocked from export');
+  }
+
   const zip = new JSZip();
 
   // Add each DICOM file to the ZIP
-  files.forEach((file, _index) => {
-    if (file.imageData) {
-      const filename = file.fileName.replace(/\.dcm$/i, '_deidentified.dcm');
-      zip.file(filename, file.imageData);
+  const outputSyntaxes: (string | undefined)[] = [];
+  for (const [index, file] of files.entries()) {
+    if (file.imageData && (dispositions[index] === 'included' || dispositions[index] === 'quarantined')) {
+      let output = file.imageData;
+      outputSyntaxes[index] = file.metadata?.transferSyntaxUID;
+      if (transferSyntaxUID) {
+        try {
+          const transcoded = await transcodeDicom(file.imageData, transferSyntaxUID);
+          output = transcoded.buffer;
+          outputSyntaxes[index] = transcoded.transferSyntaxUID;
+        } catch (error) {
+          throw new Error(`${file.fileName}: ${error instanceof Error ? error.message : 'transcoding failed'}`);
+        }
+      }
+      const filename = getExportFileName(file.fileName);
+      zip.file(dispositions[index] === 'quarantined' ? `quarantine/${filename}` : filename, output);
     }
-  });
+  }
 
   // Add metadata JSON file
   const metadataJson = JSON.stringify(
-    files.map((file) => ({
+    files.map((file, index) => ({
       fileName: file.fileName,
       metadata: file.metadata,
       status: file.status,
+      // Where the leaks are, never the identifiers found
+      leakFindings: (file.leakFindings ?? []).map(({ tag, vr, kind, match }) => ({ tag, vr, kind, match })),
+      burnedInAnnotation: file.burnedInAnnotation ?? [],
+      exported: dispositions[index],
+      transferSyntaxUID: outputSyntaxes[index],
     })),
     null,
     2
@@ -85,6 +317,7 @@ export function exportComparisonReport(
         original: originalFile.metadata,
         deidentified: deidentifiedFile?.metadata,
         changes: getMetadataChanges(originalFile.metadata, deidentifiedFile?.metadata),
+        redactions: deidentifiedFile?.redactions ?? [],
       };
     }),
   };
@@ -1,6 +1,19 @@
 import { createSlice } from '@reduxjs/toolkit';
 import type { PayloadAction } from '@reduxjs/toolkit';
-import type { DicomState, DicomFile, DicomMetadata, DeidentifyOptions } from '../types';
+import type {
+  DicomState,
+  DicomFile,
+  IngestedFile,
+  DicomMetadata,
+  CrosswalkEntry,
+  DeidentifyOptions,
+  LeakFinding,
+  MaskTemplate,
+  PixelMask,
+  TextRegion,
+} from '../types';
+import { loadMaskTemplates } from '@services/dicom/maskTemplates';
+import { DEFAULT_DATE_SHIFT_MAX_DAYS, DEFAULT_DATE_SHIFT_MIN_DAYS } from '@utils/constants';
 
 const initialState: DicomState = {
   originalFiles: [],
@@ -15,13 +28,38 @@ const initialState: DicomState = {
     removePatientID: true,
     removeDates: false,
     shiftDates: true,
-    dateShiftDays: 365,
+    dateShiftMinDays: DEFAULT_DATE_SHIFT_MIN_DAYS,
+    dateShiftMaxDays: DEFAULT_DATE_SHIFT_MAX_DAYS,
+    timeHandling: 'keep',
     removeInstitution: true,
     removePhysicians: true,
     anonymizeUIDs: false,
     keepSeriesInfo: true,
+    safeHarbor: false,
+    safeHarborBirthDate: 'year',
+    retainPatientCharacteristics: false,
+    retainDeviceIdentity: false,
+    cleanDescriptors: false,
+    cleanStructuredContent: false,
+    cleanGraphics: false,
+    privateTagPolicy: 'removeAll',
+    keptPrivateCreators: [],
+    burnedInAnnotationPolicy: 'quarantine',
+    nonImageObjectPolicies: {
+      pdf: 'strip',
+      cda: 'strip',
+      rawData: 'reject',
+      video: 'reject',
+    },
+    persistUIDMappings: false,
+    recordCrosswalk: false,
   },
   isProcessing: false,
+  leakFindingsAcknowledged: false,
+  pixelMasks: {},
+  maskTemplates: loadMaskTemplates(),
+  textRegions: {},
+  crosswalk: [],
 };
 
 const dicomSlice = createSlice({
@@ -29,12 +67,12 @@ const dicomSlice = createSlice({
   initialState,
   reducers: {
     // File management
-    addFiles: (state, action: PayloadAction<File[]>) => {
+    addFiles: (state, action: PayloadAction<IngestedFile[]>) => {
       const timestamp = Date.now();
-      const newFiles: DicomFile[] = action.payload.map((file, index) => ({
+      const newFiles: DicomFile[] = action.payload.map(({ file, fileName }, index) => ({
         id: `${timestamp}-${index}-${Math.random().toString(36).substring(2, 9)}`,
         file,
-        fileName: file.name,
+        fileName,
         status: 'pending',
         progress: 0,
       }));
@@ -57,12 +95,18 @@ const dicomSlice = createSlice({
 
     updateFileMetadata: (
       state,
-      action: PayloadAction<{ id: string; metadata: DicomMetadata; imageData?: ArrayBuffer }>
+      action: PayloadAction<{
+        id: string;
+        metadata: DicomMetadata;
+        imageData?: ArrayBuffer;
+        burnedInAnnotation?: string[];
+      }>
     ) => {
       const file = state.originalFiles.find((f) => f.id === action.payload.id);
       if (file) {
         file.metadata = action.payload.metadata;
         file.imageData = action.payload.imageData;
+        file.burnedInAnnotation = action.payload.burnedInAnnotation;
         file.status = 'complete';
         file.progress = 100;
       }
@@ -80,6 +124,8 @@ const dicomSlice = createSlice({
     removeFile: (state, action: PayloadAction<string>) => {
       state.originalFiles = state.originalFiles.filter((f) => f.id !== action.payload);
       state.deidentifiedFiles = state.deidentifiedFiles.filter((f) => f.id !== action.payload);
+      delete state.pixelMasks[action.payload];
+      delete state.textRegions[action.payload];
     },
 
     clearFiles: (state) => {
@@ -87,11 +133,31 @@ const dicomSlice = createSlice({
       state.deidentifiedFiles = [];
       state.currentFileIndex = 0;
       state.metadata = { original: null, deidentified: null };
+      state.pixelMasks = {};
+      state.textRegions = {};
+      state.crosswalk = [];
     },
 
     // Deidentification
     setDeidentifiedFiles: (state, action: PayloadAction<DicomFile[]>) => {
       state.deidentifiedFiles = action.payload;
+      state.leakFindingsAcknowledged = false;
+    },
+
+    setCrosswalk: (state, action: PayloadAction<CrosswalkEntry[]>) => {
+      state.crosswalk = action.payload;
+    },
+
+    // Verification
+    setLeakFindings: (state, action: PayloadAction<Record<string, LeakFinding[]>>) => {
+      state.deidentifiedFiles.forEach((file) => {
+        file.leakFindings = action.payload[file.id] ?? [];
+      });
+      state.leakFindingsAcknowledged = false;
+    },
+
+    acknowledgeLeakFindings: (state) => {
+      state.leakFindingsAcknowledged = true;
     },
 
     updateDeidentificationOptions: (state, action: PayloadAction<Partial<DeidentifyOptions> | DeidentifyOptions>) => {
@@ -99,45 +165,49 @@ const dicomSlice = createSlice({
       console.log('Redux reducer: updateDeidentificationOptions called with payload:', payload);
       console.log('Redux reducer: Current state before update:', state.deidentificationOptions);
       
-      // Check if payload has all required boolean fields (full object)
-      const hasAllBooleans = 
-        typeof payload.removePatientName === 'boolean' &&
-        typeof payload.removePatientID === 'boolean' &&
-        typeof payload.removeDates === 'boolean' &&
-        typeof payload.shiftDates === 'boolean' &&
-        typeof payload.removeInstitution === 'boolean' &&
-        typeof payload.removePhysicians === 'boolean' &&
-        typeof payload.anonymizeUIDs === 'boolean' &&
-        typeof payload.keepSeriesInfo === 'boolean';
-      
-      console.log('Redux reducer: hasAllBooleans:', hasAllBooleans);
-      
-      if (hasAllBooleans) {
-        // Full object - replace entirely
-        console.log('Redux reducer: Replacing entire deidentificationOptions');
-        state.deidentificationOptions = {
-          removePatientName: payload.removePatientName ?? false,
-          removePatientID: payload.removePatientID ?? false,
-          removeDates: payload.removeDates ?? false,
-          shiftDates: payload.shiftDates ?? false,
-          dateShiftDays: payload.dateShiftDays,
-          removeInstitution: payload.removeInstitution ?? false,
-          removePhysicians: payload.removePhysicians ?? false,
-          anonymizeUIDs: payload.anonymizeUIDs ?? false,
-          keepSeriesInfo: payload.keepSeriesInfo ?? false,
-        };
-      } else {
-        // Partial object - merge with existing
-        console.log('Redux reducer: Merging partial update');
-        state.deidentificationOptions = {
-          ...state.deidentificationOptions,
-          ...payload,
-        };
-      }
+      // Merge so options missing from the payload keep their current values
+      state.deidentificationOptions = {
+        ...state.deidentificationOptions,
+        ...payload,
+      };
       
       console.log('Redux reducer: Updated deidentificationOptions:', JSON.parse(JSON.stringify(state.deidentificationOptions)));
     },
 
+    // Pixel redaction
+    addPixelMask: (state, action: PayloadAction<{ fileId: string; mask: PixelMask }>) => {
+      const { fileId, mask } = action.payload;
+      state.pixelMasks[fileId] = [...(state.pixelMasks[fileId] ?? []), mask];
+    },
+
+    clearPixelMasks: (state, action: PayloadAction<string>) => {
+      delete state.pixelMasks[action.payload];
+    },
+
+    setMaskTemplates: (state, action: PayloadAction<MaskTemplate[]>) => {
+      state.maskTemplates = action.payload;
+    },
+
+    setTextRegions: (state, action: PayloadAction<{ fileId: string; regions: TextRegion[] }>) => {
+      state.textRegions[action.payload.fileId] = action.payload.regions;
+    },
+
+    // Accepted text regions become pixel masks; rejected ones are dropped
+    acceptTextRegions: (state, action: PayloadAction<{ fileId: string; ids: string[] }>) => {
+      const { fileId, ids } = action.payload;
+      const regions = state.textRegions[fileId] ?? [];
+      const accepted = regions
+        .filter((region) => ids.includes(region.id))
+        .map(({ x, y, width, height }) => ({ x, y, width, height }));
+      state.pixelMasks[fileId] = [...(state.pixelMasks[fileId] ?? []), ...accepted];
+      state.textRegions[fileId] = regions.filter((region) => !ids.includes(region.id));
+    },
+
+    rejectTextRegions: (state, action: PayloadAction<{ fileId: string; ids: string[] }>) => {
+      const { fileId, ids } = action.payload;
+      state.textRegions[fileId] = (state.textRegions[fileId] ?? []).filter((region) => !ids.includes(region.id));
+    },
+
     setProcessing: (state, action: PayloadAction<boolean>) => {
       state.isProcessing = action.payload;
     },
@@ -161,7 +231,16 @@ export const {
   removeFile,
   clearFiles,
   setDeidentifiedFiles,
+  setCrosswalk,
+  setLeakFindings,
+  acknowledgeLeakFindings,
   updateDeidentificationOptions,
+  addPixelMask,
+  clearPixelMasks,
+  setMaskTemplates,
+  setTextRegions,
+  acceptTextRegions,
+  rejectTextRegions,
   setProcessing,
   setOriginalMetadata,
   setDeidentifiedMetadata,
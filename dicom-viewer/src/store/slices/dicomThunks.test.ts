@@ -0,0 +1,46 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { describe, expect, it } from 'vitest';
+import type { DicomFile, DicomMetadata } from '@store/types';
+import dicomReducer, { setDeidentifiedFiles } from './dicomSlice';
+import uiReducer from './uiSlice';
+import viewerReducer from './viewerSlice';
+import { verifyDeidentifiedFiles } from './dicomThunks';
+
+const RAW_DATA_STORAGE = '1.2.840.10008.5.1.4.1.1.66';
+const CT_IMAGE_STORAGE = '1.2.840.10008.5.1.4.1.1.2';
+
+const createFile = (id: string, sopClassUID: string): DicomFile => ({
+  id,
+  file: new File([], `${id}.dcm`),
+  fileName: `${id}.dcm`,
+  status: 'complete',
+  progress: 100,
+  metadata: { allTags: { x00080016: sopClassUID } } as unknown as DicomMetadata,
+});
+
+function createStore(originalFiles: DicomFile[]) {
+  const dicom = dicomReducer(undefined, { type: 'init' });
+  return configureStore({
+    reducer: { dicom: dicomReducer, viewer: viewerReducer, ui: uiReducer },
+    preloadedState: { dicom: { ...dicom, originalFiles } },
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware({ serializableCheck: false }),
+  });
+}
+
+describe('verifyDeidentifiedFiles', () => {
+  it('skips objects rejected by their SOP Class policy but flags files whose data is gone', async () => {
+    const store = createStore([createFile('raw', RAW_DATA_STORAGE), createFile('image', CT_IMAGE_STORAGE)]);
+    store.dispatch(
+      setDeidentifiedFiles([
+        { ...createFile('deid-raw', RAW_DATA_STORAGE), metadata: undefined, status: 'error' },
+        { ...createFile('deid-image', CT_IMAGE_STORAGE) },
+      ])
+    );
+
+    await store.dispatch(verifyDeidentifiedFiles());
+
+    const [raw, image] = store.getState().dicom.deidentifiedFiles;
+    expect(raw.leakFindings).toEqual([]);
+    expect(image.leakFindings?.map((finding) => finding.kind)).toEqual(['verification-error']);
+  });
+});
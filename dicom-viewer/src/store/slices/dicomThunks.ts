@@ -3,13 +3,52 @@
  */
 
 import { createAsyncThunk } from '@reduxjs/toolkit';
-import type { DicomFile } from '../types';
-import { parseDicomFile } from '@services/dicom/parser';
+import type { CrosswalkEntry, DicomFile, LeakFinding, PixelMask } from '../types';
+import type { RootState } from '../index';
+import { parseDicomFile, parseDicomBuffer } from '@services/dicom/parser';
 import { validateFile } from '@services/dicom/validator';
-import { deidentifyMetadata, clearUIDCache, validateDeidentificationOptions } from '@services/dicom/deidentifier';
-import { updateFileStatus, updateFileMetadata, setDeidentifiedFiles, setProcessing } from './dicomSlice';
+import { validateDeidentificationOptions } from '@services/dicom/deidentifier';
+import { writeDeidentifiedDicom } from '@services/dicom/writer';
+import { createVerificationErrorFinding, scanForResidualPHI } from '@services/dicom/leakScanner';
+import { detectBurnedInAnnotation } from '@services/dicom/burnedInAnnotation';
+import { findMaskTemplate } from '@services/dicom/maskTemplates';
+import {
+  getNonImageObjectKind,
+  getSOPClassUID,
+  isRejectedNonImageObject,
+  NON_IMAGE_OBJECT_LABELS,
+} from '@services/dicom/nonImageObjects';
+import { createPseudonymizer, loadProjectSecret } from '@services/dicom/pseudonymizer';
+import { createUIDMapper, loadUIDMappings, saveUIDMappings } from '@services/dicom/uidMapper';
+import type { UIDMapper } from '@services/dicom/uidMapper';
+import {
+  updateFileStatus,
+  updateFileMetadata,
+  setCrosswalk,
+  setDeidentifiedFiles,
+  setLeakFindings,
+  setProcessing,
+} from './dicomSlice';
 import { addNotification, setLoading } from './uiSlice';
 import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@utils/constants';
+import { flattenTagPaths } from '@utils/dicomTags';
+
+/**
+ * List the UIDs of a file that the mapper replaced, with their replacements
+ */
+function getReplacedUIDs(tags: Record<string, unknown>, uidMapper: UIDMapper): CrosswalkEntry['uids'] {
+  const uids = new Map<string, string>();
+  Object.values(flattenTagPaths(tags)).forEach((value) => {
+    if (typeof value !== 'string') return;
+    value.split('\\').forEach((uid) => {
+      const anonymizedUID = uidMapper.lookup(uid);
+      if (anonymizedUID) {
+        uids.set(uid.trim(), anonymizedUID);
+      }
+    });
+  });
+  return Array.from(uids, ([originalUID, anonymizedUID]) => ({ originalUID, anonymizedUID }));
+}
 
 /**
  * Process a single DICOM file
@@ -44,6 +83,7 @@ export const processDicomFile = createAsyncThunk(
           id,
           metadata,
           imageData,
+          burnedInAnnotation: detectBurnedInAnnotation(metadata),
         })
       );
 
@@ -118,23 +158,8 @@ export const deidentifyAllFiles = createAsyncThunk(
   'dicom/deidentifyAllFiles',
   async (_, { getState, dispatch }) => {
     try {
-      const state = getState() as any;
-      const { originalFiles, deidentificationOptions } = state.dicom;
-
-      // Log current options for debugging
-      console.log('=== deidentifyAllFiles called ===');
-      console.log('Redux state deidentificationOptions:', JSON.parse(JSON.stringify(deidentificationOptions)));
-      console.log('Options type check:', {
-        removePatientName: typeof deidentificationOptions.removePatientName,
-        removePatientID: typeof deidentificationOptions.removePatientID,
-        removeDates: typeof deidentificationOptions.removeDates,
-        shiftDates: typeof deidentificationOptions.shiftDates,
-        dateShiftDays: deidentificationOptions.dateShiftDays,
-        removeInstitution: typeof deidentificationOptions.removeInstitution,
-        removePhysicians: typeof deidentificationOptions.removePhysicians,
-        anonymizeUIDs: typeof deidentificationOptions.anonymizeUIDs,
-        keepSeriesInfo: typeof deidentificationOptions.keepSeriesInfo,
-      });
+      const state = getState() as RootState;
+      const { originalFiles, deidentificationOptions, pixelMasks, maskTemplates } = state.dicom;
 
       if (originalFiles.length === 0) {
         dispatch(
@@ -160,8 +185,12 @@ export const deidentifyAllFiles = createAsyncThunk(
         return;
       }
 
-      // Clear UID cache to ensure fresh mappings for this deidentification run
-      clearUIDCache();
+      // Pseudonyms and UIDs are keyed with the project secret so they stay stable across runs
+      const pseudonymizer = await createPseudonymizer(loadProjectSecret());
+      const uidMapper = createUIDMapper(
+        pseudonymizer,
+        deidentificationOptions.persistUIDMappings ? await loadUIDMappings() : undefined
+      );
 
       // Set processing state
       dispatch(setProcessing(true));
@@ -169,18 +198,46 @@ export const deidentifyAllFiles = createAsyncThunk(
 
       // Deidentify each file
       const deidentifiedFiles: DicomFile[] = [];
+      const crosswalk: CrosswalkEntry[] = [];
 
       for (const originalFile of originalFiles) {
-        if (!originalFile.metadata) {
+        if (!originalFile.metadata || !originalFile.imageData) {
+          continue;
+        }
+
+        // Rejected objects keep their place, so deidentified files still line up with the originals
+        const nonImageObjectKind = getNonImageObjectKind(getSOPClassUID(originalFile.metadata));
+        if (nonImageObjectKind && deidentificationOptions.nonImageObjectPolicies[nonImageObjectKind] === 'reject') {
+          deidentifiedFiles.push({
+            ...originalFile,
+            id: `deid-${originalFile.id}`,
+            fileName: `DEID_${originalFile.fileName}`,
+            metadata: undefined,
+            imageData: undefined,
+            burnedInAnnotation: undefined,
+            status: 'error',
+            error: `${NON_IMAGE_OBJECT_LABELS[nonImageObjectKind]} objects are rejected by the deidentification settings`,
+          });
           continue;
         }
 
         try {
-          // Deidentify metadata
-          const deidentifiedMetadata = deidentifyMetadata(
-            originalFile.metadata,
-            deidentificationOptions
+          // Masks drawn on this file plus the template saved for its device and size
+          const masks: PixelMask[] = [
+            ...(pixelMasks[originalFile.id] ?? []),
+            ...(findMaskTemplate(maskTemplates, originalFile.metadata)?.masks ?? []),
+          ];
+
+          // Rewrite the dataset itself, then read the summary back from the new bytes
+          // so the comparison shows exactly what an export will contain
+          const { buffer: deidentifiedBuffer, redactions, dateOffsetDays } = await writeDeidentifiedDicom(
+            originalFile.imageData,
+            deidentificationOptions,
+            pseudonymizer,
+            uidMapper,
+            masks
           );
+          const { metadata: deidentifiedMetadata } = parseDicomBuffer(deidentifiedBuffer);
 
           // Create deidentified file object
           const deidentifiedFile: DicomFile = {
@@ -188,11 +245,31 @@ export const deidentifyAllFiles = createAsyncThunk(
             id: `deid-${originalFile.id}`,
             fileName: `DEID_${originalFile.fileName}`,
             metadata: deidentifiedMetadata,
+            imageData: deidentifiedBuffer,
+            redactions,
+            burnedInAnnotation: detectBurnedInAnnotation(deidentifiedMetadata),
             status: 'complete',
             progress: 100,
           };
 
           deidentifiedFiles.push(deidentifiedFile);
+
+          if (deidentificationOptions.recordCrosswalk) {
+            crosswalk.push({
+              fileName: originalFile.fileName,
+              originalPatientID: originalFile.metadata.patientID ?? '',
+              originalPatientName: originalFile.metadata.patientName ?? '',
+              pseudonymPatientID: deidentifiedMetadata.patientID ?? '',
+              pseudonymPatientName: deidentifiedMetadata.patientName ?? '',
+              pseudonymSOPInstanceUID: deidentifiedMetadata.sopInstanceUID ?? '',
+              dateOffsetDays,
+              timeShiftMinutes:
+                deidentificationOptions.shiftDates && deidentificationOptions.timeHandling === 'shift'
+                  ? (deidentificationOptions.timeShiftMinutes ?? 0)
+                  : 0,
+              uids: getReplacedUIDs(originalFile.metadata.allTags ?? {}, uidMapper),
+            });
+          }
         } catch (error) {
           console.error(`Error deidentifying file ${originalFile.fileName}:`, error);
           dispatch(
@@ -205,15 +282,23 @@ export const deidentifyAllFiles = createAsyncThunk(
         }
       }
 
+      if (deidentificationOptions.persistUIDMappings) {
+        await saveUIDMappings(uidMapper.getNewMappings());
+      }
+
       // Update Redux with deidentified files
       dispatch(setDeidentifiedFiles(deidentifiedFiles));
+      dispatch(setCrosswalk(crosswalk));
+
+      // Check the output for anything the profile missed before it can be exported
+      await dispatch(verifyDeidentifiedFiles());
 
       // Success notification
       dispatch(
         addNotification({
           type: 'success',
           message: SUCCESS_MESSAGES.DEIDENTIFICATION_COMPLETE,
-          description: `${deidentifiedFiles.length} file(s) deidentified successfully`,
+          description: `${deidentifiedFiles.filter((file) => file.status === 'complete').length} file(s) deidentified successfully`,
         })
       );
 
@@ -236,3 +321,73 @@ export const deidentifyAllFiles = createAsyncThunk(
     }
   }
 );
+
+/**
+ * Verify deidentified files: re-read each output and search it for the PHI
+ * of its original file
+ */
+export const verifyDeidentifiedFiles = createAsyncThunk(
+  'dicom/verifyDeidentifiedFiles',
+  async (_, { getState, dispatch }) => {
+    const { originalFiles, deidentifiedFiles, deidentificationOptions } = (getState() as RootState).dicom;
+
+    dispatch(setLoading({ loading: true, message: 'Verifying deidentified files...' }));
+
+    try {
+      const findings: Record<string, LeakFinding[]> = {};
+
+      for (const deidentifiedFile of deidentifiedFiles) {
+        const originalFile = originalFiles.find(
+          (file) => `deid-${file.id}` === deidentifiedFile.id
+        );
+        // Objects rejected by their SOP Class policy have no output to check
+        if (
+          originalFile?.metadata &&
+          isRejectedNonImageObject(originalFile.metadata, deidentificationOptions.nonImageObjectPolicies)
+        ) {
+          continue;
+        }
+        if (!originalFile?.imageData || !deidentifiedFile.imageData) {
+          findings[deidentifiedFile.id] = [createVerificationErrorFinding('The file data is no longer loaded')];
+          continue;
+        }
+
+        try {
+          findings[deidentifiedFile.id] = scanForResidualPHI(
+            originalFile.imageData,
+            deidentifiedFile.imageData,
+            deidentificationOptions
+          );
+        } catch (error) {
+          console.error(`Error verifying file ${deidentifiedFile.fileName}:`, error);
+          findings[deidentifiedFile.id] = [createVerificationErrorFinding(error)];
+          dispatch(
+            addNotification({
+              type: 'error',
+              message: 'Verification failed',
+              description: `Failed to verify ${deidentifiedFile.fileName}`,
+            })
+          );
+        }
+      }
+
+      dispatch(setLeakFindings(findings));
+
+      const findingCount = Object.values(findings).reduce((count, fileFindings) => count + fileFindings.length, 0);
+      const fileCount = Object.values(findings).filter((fileFindings) => fileFindings.length > 0).length;
+      if (findingCount > 0) {
+        dispatch(
+          addNotification({
+            type: 'warning',
+            message: 'Residual PHI found',
+            description: `${findingCount} finding(s) in ${fileCount} file(s). Review them before exporting.`,
+          })
+        );
+      }
+
+      return { findingCount, fileCount };
+    } finally {
+      dispatch(setLoading({ loading: false }));
+    }
+  }
+);
@@ -8,6 +8,8 @@ const initialState: UIState = {
   settingsDrawerOpen: false,
   exportDrawerOpen: false,
   notificationDrawerOpen: false,
+  verificationDrawerOpen: false,
+  vaultDrawerOpen: false,
   loading: false,
   loadingMessage: '',
   errors: [],
@@ -69,6 +71,26 @@ const uiSlice = createSlice({
       state.notificationDrawerOpen = !state.notificationDrawerOpen;
     },
 
+    openVerificationDrawer: (state) => {
+      state.verificationDrawerOpen = true;
+    },
+    closeVerificationDrawer: (state) => {
+      state.verificationDrawerOpen = false;
+    },
+    toggleVerificationDrawer: (state) => {
+      state.verificationDrawerOpen = !state.verificationDrawerOpen;
+    },
+
+    openVaultDrawer: (state) => {
+      state.vaultDrawerOpen = true;
+    },
+    closeVaultDrawer: (state) => {
+      state.vaultDrawerOpen = false;
+    },
+    toggleVaultDrawer: (state) => {
+      state.vaultDrawerOpen = !state.vaultDrawerOpen;
+    },
+
     // Loading State
     setLoading: (state, action: PayloadAction<{ loading: boolean; message?: string }>) => {
       state.loading = action.payload.loading;
@@ -119,6 +141,12 @@ export const {
   openNotificationDrawer,
   closeNotificationDrawer,
   toggleNotificationDrawer,
+  openVerificationDrawer,
+  closeVerificationDrawer,
+  toggleVerificationDrawer,
+  openVaultDrawer,
+  closeVaultDrawer,
+  toggleVaultDrawer,
   setLoading,
   addError,
   removeError,
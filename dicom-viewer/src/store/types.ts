@@ -9,6 +9,71 @@ export interface DicomFile {
   metadata?: DicomMetadata;
   imageData?: ArrayBuffer;
   error?: string;
+  // Spans of free text redacted during deidentification
+  redactions?: TextRedaction[];
+  // Original PHI the verify step still found in the deidentified file
+  leakFindings?: LeakFinding[];
+  // Why the pixels may show patient details; empty when nothing suggests it
+  burnedInAnnotation?: string[];
+}
+
+// A file picked, dropped or extracted for upload, named by its path within
+// the folder or ZIP it came from
+export interface IngestedFile {
+  file: File;
+  fileName: string;
+}
+
+export type RedactionReason = 'name' | 'identifier' | 'date' | 'phone' | 'mrn';
+
+export interface TextRedactionMatch {
+  text: string;
+  reason: RedactionReason;
+}
+
+export interface TextRedaction {
+  tag: string;
+  original: string;
+  redacted: string;
+  matches: TextRedactionMatch[];
+}
+
+export interface LeakFinding {
+  // Tag path, e.g. 'x00400275[0].x00401001' for an element inside a sequence
+  // item; empty when the whole file couldn't be verified
+  tag: string;
+  vr: string;
+  value: string;
+  phi: string;
+  // A file that couldn't be scanned isn't known to be clean, so the failure is a finding too
+  kind: 'name' | 'identifier' | 'date' | 'verification-error';
+  match?: 'exact' | 'case-folded';
+}
+
+// A rectangle of the image in pixels, blanked in every frame on export
+export interface PixelMask {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A box of text found by OCR, proposed as a pixel mask
+export interface TextRegion extends PixelMask {
+  id: string;
+  text: string;
+  // Words matching the patient's name or ID: confirmed leaks
+  leakedTokens: string[];
+}
+
+export interface MaskTemplate {
+  id: string;
+  name: string;
+  manufacturer: string;
+  model: string;
+  rows: number;
+  columns: number;
+  masks: PixelMask[];
 }
 
 export interface DicomMetadata {
@@ -18,6 +83,8 @@ export interface DicomMetadata {
   patientBirthDate?: string;
   patientSex?: string;
   patientAge?: string;
+  patientSize?: string;
+  patientWeight?: string;
 
   // Study Information
   studyInstanceUID?: string;
@@ -39,6 +106,11 @@ export interface DicomMetadata {
   columns?: number;
   numberOfFrames?: number;
 
+  // Transfer Syntax
+  transferSyntaxUID?: string;
+  // True when the file was a raw dataset and a Part 10 header was added on load
+  fileMetaAdded?: boolean;
+
   // Additional metadata
   institutionName?: string;
   referringPhysicianName?: string;
@@ -53,14 +125,73 @@ export interface DeidentifyOptions {
   removePatientID: boolean;
   removeDates: boolean;
   shiftDates: boolean;
-  dateShiftDays?: number;
+  // Each patient's dates move by an offset in this range, keyed by Patient ID
+  dateShiftMinDays?: number;
+  dateShiftMaxDays?: number;
+  // What happens to times of day when dates are shifted
+  timeHandling: TimeHandling;
+  timeShiftMinutes?: number;
   removeInstitution: boolean;
   removePhysicians: boolean;
   anonymizeUIDs: boolean;
   keepSeriesInfo: boolean;
+  // HIPAA Safe Harbor: birth year only or no birth date, computed age with
+  // ages over 89 aggregated, and size and weight in bands
+  safeHarbor: boolean;
+  safeHarborBirthDate: BirthDateHandling;
+  // Annex E options not already covered above (removeInstitution and
+  // anonymizeUIDs off are Retain Institution Identity and Retain UIDs)
+  retainPatientCharacteristics: boolean;
+  retainDeviceIdentity: boolean;
+  cleanDescriptors: boolean;
+  cleanStructuredContent: boolean;
+  cleanGraphics: boolean;
+  // Private groups: remove all, keep the safe list (Retain Safe Private
+  // option) or keep every element of the listed private creators
+  privateTagPolicy: PrivateTagPolicy;
+  keptPrivateCreators?: string[];
+  // What ZIP export does with files flagged for burned-in annotation
+  burnedInAnnotationPolicy: BurnedInAnnotationPolicy;
+  // What happens to encapsulated documents, raw data and video, by kind
+  nonImageObjectPolicies: Record<NonImageObjectKind, NonImageObjectPolicy>;
+  // Keep the original-to-new UID table in IndexedDB across sessions
+  persistUIDMappings: boolean;
+  // Record original identifiers against their pseudonyms for the re-identification vault
+  recordCrosswalk: boolean;
   customRules?: DeidentificationRule[];
 }
 
+export type BirthDateHandling = 'year' | 'remove';
+
+// One deidentified file's pseudonyms against the identifiers they replaced
+export interface CrosswalkEntry {
+  fileName: string;
+  originalPatientID: string;
+  originalPatientName: string;
+  pseudonymPatientID: string;
+  pseudonymPatientName: string;
+  pseudonymSOPInstanceUID: string;
+  // Days added to every date; 0 when dates weren't shifted
+  dateOffsetDays: number;
+  // Minutes added to every time; 0 when times weren't shifted
+  timeShiftMinutes: number;
+  // Every UID of the file that was replaced
+  uids: { originalUID: string; anonymizedUID: string }[];
+}
+
+export type BurnedInAnnotationPolicy = 'include' | 'quarantine' | 'block';
+
+// Objects the viewer can't display, told apart by SOP Class
+export type NonImageObjectKind = 'pdf' | 'cda' | 'rawData' | 'video';
+
+// Allow exports them with the header deidentified, strip also empties the embedded
+// document (or video, or raw data), reject leaves them out of deidentification
+export type NonImageObjectPolicy = 'allow' | 'strip' | 'reject';
+
+export type TimeHandling = 'keep' | 'shift' | 'truncate';
+
+export type PrivateTagPolicy = 'removeAll' | 'retainSafe' | 'keepCreators';
+
 export interface DeidentificationRule {
   tag: string;
   action: 'remove' | 'replace' | 'keep' | 'hash';
@@ -104,6 +235,16 @@ export interface DicomState {
   };
   deidentificationOptions: DeidentifyOptions;
   isProcessing: boolean;
+  // Set once the user has reviewed the verify findings; export is blocked until then
+  leakFindingsAcknowledged: boolean;
+  // Redaction masks drawn on each original file, by file ID
+  pixelMasks: Record<string, PixelMask[]>;
+  // Masks saved per device and image size, applied to every matching file
+  maskTemplates: MaskTemplate[];
+  // Text boxes proposed by OCR and not yet accepted or rejected, by file ID
+  textRegions: Record<string, TextRegion[]>;
+  // Crosswalk of the last deidentification run; only ever exported encrypted
+  crosswalk: CrosswalkEntry[];
 }
 
 export interface ViewerState {
@@ -126,6 +267,8 @@ export interface UIState {
   settingsDrawerOpen: boolean;
   exportDrawerOpen: boolean;
   notificationDrawerOpen: boolean;
+  verificationDrawerOpen: boolean;
+  vaultDrawerOpen: boolean;
   loading: boolean;
   loadingMessage: string;
   errors: string[];
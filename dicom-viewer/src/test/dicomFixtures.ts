@@ -0,0 +1,96 @@
+/**
+ * Test Fixtures
+ * Builds small Part 10 files in memory with dcmjs, so tests don't depend on
+ * sample files
+ */
+
+import dcmjs from 'dcmjs';
+import type { DicomJsonDataset } from 'dcmjs';
+import type { DeidentifyOptions } from '@store/types';
+import { DEFAULT_DATE_SHIFT_MAX_DAYS, DEFAULT_DATE_SHIFT_MIN_DAYS, TRANSFER_SYNTAXES } from '@utils/constants';
+
+const { DicomDict } = dcmjs.data;
+
+export const CT_IMAGE_STORAGE = '1.2.840.10008.5.1.4.1.1.2';
+
+/**
+ * Write a dataset, keyed by 8-digit hex tag, as a Part 10 file
+ */
+export function createPart10Buffer(
+  dataset: DicomJsonDataset,
+  transferSyntaxUID: string = TRANSFER_SYNTAXES.EXPLICIT_VR_LITTLE_ENDIAN
+): ArrayBuffer {
+  const dicomDict = new DicomDict({
+    '00020001': { vr: 'OB', Value: [new Uint8Array([0, 1]).buffer] },
+    '00020002': { vr: 'UI', Value: [String(dataset['00080016']?.Value?.[0] ?? CT_IMAGE_STORAGE)] },
+    '00020003': { vr: 'UI', Value: [String(dataset['00080018']?.Value?.[0] ?? '1.2.3.4.5')] },
+    '00020010': { vr: 'UI', Value: [transferSyntaxUID] },
+  });
+  dicomDict.dict = dataset;
+  return dicomDict.write();
+}
+
+/**
+ * A small CT image with patient, study and series identifiers and 8-bit
+ * monochrome pixels counting up from 0
+ */
+export function createImageDataset(rows = 4, columns = 4): DicomJsonDataset {
+  const pixels = new Uint8Array(rows * columns).map((_, index) => index % 256);
+  return {
+    '00080016': { vr: 'UI', Value: [CT_IMAGE_STORAGE] },
+    '00080018': { vr: 'UI', Value: ['1.2.3.4.5.6.7'] },
+    '00080020': { vr: 'DA', Value: ['20240315'] },
+    '00080030': { vr: 'TM', Value: ['101500'] },
+    '00080050': { vr: 'SH', Value: ['ACC123456'] },
+    '00080060': { vr: 'CS', Value: ['CT'] },
+    '00080080': { vr: 'LO', Value: ['General Hospital'] },
+    '00100010': { vr: 'PN', Value: [{ Alphabetic: 'Doe^John' }] },
+    '00100020': { vr: 'LO', Value: ['MRN1234567'] },
+    '00100030': { vr: 'DA', Value: ['19700101'] },
+    '00100040': { vr: 'CS', Value: ['M'] },
+    '0020000D': { vr: 'UI', Value: ['1.2.3.4.5.6'] },
+    '0020000E': { vr: 'UI', Value: ['1.2.3.4.5.6.1'] },
+    '00280002': { vr: 'US', Value: [1] },
+    '00280004': { vr: 'CS', Value: ['MONOCHROME2'] },
+    '00280010': { vr: 'US', Value: [rows] },
+    '00280011': { vr: 'US', Value: [columns] },
+    '00280100': { vr: 'US', Value: [8] },
+    '00280101': { vr: 'US', Value: [8] },
+    '00280102': { vr: 'US', Value: [7] },
+    '00280103': { vr: 'US', Value: [0] },
+    '7FE00010': { vr: 'OB', Value: [pixels.buffer] },
+  };
+}
+
+/**
+ * The options the app starts with, with overrides
+ */
+export function createDeidentifyOptions(overrides: Partial<DeidentifyOptions> = {}): DeidentifyOptions {
+  return {
+    removePatientName: true,
+    removePatientID: true,
+    removeDates: false,
+    shiftDates: true,
+    dateShiftMinDays: DEFAULT_DATE_SHIFT_MIN_DAYS,
+    dateShiftMaxDays: DEFAULT_DATE_SHIFT_MAX_DAYS,
+    timeHandling: 'keep',
+    removeInstitution: true,
+    removePhysicians: true,
+    anonymizeUIDs: false,
+    keepSeriesInfo: true,
+    safeHarbor: false,
+    safeHarborBirthDate: 'year',
+    retainPatientCharacteristics: false,
+    retainDeviceIdentity: false,
+    cleanDescriptors: false,
+    cleanStructuredContent: false,
+    cleanGraphics: false,
+    privateTagPolicy: 'removeAll',
+    keptPrivateCreators: [],
+    burnedInAnnotationPolicy: 'quarantine',
+    nonImageObjectPolicies: { pdf: 'strip', cda: 'strip', rawData: 'reject', video: 'reject' },
+    persistUIDMappings: false,
+    recordCrosswalk: false,
+    ...overrides,
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Type declarations for the image codecs used to decode and encode compressed
+ * Pixel Data. The cornerstone codecs are Emscripten builds of libjpeg-turbo,
+ * CharLS and OpenJPEG; each decoder is handed the encoded frame in WASM memory,
+ * and each encoder the samples of the frame.
+ */
+
+declare module '@cornerstonejs/codec-libjpeg-turbo-8bit/decodewasmjs' {
+  interface FrameInfo {
+    width: number;
+    height: number;
+    bitsPerSample: number;
+    componentCount: number;
+    isSigned?: boolean;
+  }
+
+  export class JPEGDecoder {
+    getEncodedBuffer(length: number): Uint8Array;
+    decode(): void;
+    getFrameInfo(): FrameInfo;
+    getDecodedBuffer(): Uint8Array;
+    delete(): void;
+  }
+
+  const createCodec: (options?: { locateFile?: (path: string) => string }) => Promise<{
+    JPEGDecoder: typeof JPEGDecoder;
+  }>;
+  export default createCodec;
+}
+
+declare module '@cornerstonejs/codec-charls/decodewasmjs' {
+  interface FrameInfo {
+    width: number;
+    height: number;
+    bitsPerSample: number;
+    componentCount: number;
+  }
+
+  export class JpegLSDecoder {
+    getEncodedBuffer(length: number): Uint8Array;
+    decode(): void;
+    getFrameInfo(): FrameInfo;
+    getDecodedBuffer(): Uint8Array;
+    delete(): void;
+  }
+
+  const createCodec: (options?: { locateFile?: (path: string) => string }) => Promise<{
+    JpegLSDecoder: typeof JpegLSDecoder;
+  }>;
+  export default createCodec;
+}
+
+declare module '@cornerstonejs/codec-openjpeg/decodewasmjs' {
+  interface FrameInfo {
+    width: number;
+    height: number;
+    bitsPerSample: number;
+    componentCount: number;
+    isSigned?: boolean;
+  }
+
+  export class J2KDecoder {
+    getEncodedBuffer(length: number): Uint8Array;
+    decode(): void;
+    getFrameInfo(): FrameInfo;
+    getDecodedBuffer(): Uint8Array;
+    delete(): void;
+  }
+
+  const createCodec: (options?: { locateFile?: (path: string) => string }) => Promise<{
+    J2KDecoder: typeof J2KDecoder;
+  }>;
+  export default createCodec;
+}
+
+declare module '@cornerstonejs/codec-charls/wasmjs' {
+  interface FrameInfo {
+    width: number;
+    height: number;
+    bitsPerSample: number;
+    componentCount: number;
+  }
+
+  export class JpegLSEncoder {
+    getDecodedBuffer(frameInfo: FrameInfo): Uint8Array;
+    /** 0 leaves samples by component, 1 by line and 2 by pixel */
+    setInterleaveMode(mode: number): void;
+    setNearLossless(nearLossless: number): void;
+    encode(): void;
+    getEncodedBuffer(): Uint8Array;
+    delete(): void;
+  }
+
+  const createCodec: (options?: { locateFile?: (path: string) => string }) => Promise<{
+    JpegLSEncoder: typeof JpegLSEncoder;
+  }>;
+  export default createCodec;
+}
+
+declare module '@cornerstonejs/codec-openjpeg/wasmjs' {
+  interface FrameInfo {
+    width: number;
+    height: number;
+    bitsPerSample: number;
+    componentCount: number;
+    isSigned: boolean;
+  }
+
+  export class J2KEncoder {
+    getDecodedBuffer(frameInfo: FrameInfo): Uint8Array;
+    setDecompositions(decompositions: number): void;
+    encode(): void;
+    getEncodedBuffer(): Uint8Array;
+    delete(): void;
+  }
+
+  const createCodec: (options?: { locateFile?: (path: string) => string }) => Promise<{
+    J2KEncoder: typeof J2KEncoder;
+  }>;
+  export default createCodec;
+}
+
+declare module 'jpeg-lossless-decoder-js' {
+  export class Decoder {
+    /** Decode a JPEG Lossless frame to samples of numBytes bytes each */
+    decode(buffer: ArrayBuffer, offset: number, length: number, numBytes?: number): Uint8Array | Uint16Array;
+  }
+}
@@ -4,21 +4,50 @@
  */
 
 declare module 'dcmjs' {
+  /** Element in the DICOM JSON model dcmjs reads into, keyed by 8-digit hex tag */
+  export interface DicomJsonElement {
+    vr: string;
+    Value?: unknown[];
+    _rawValue?: unknown;
+  }
+
+  export type DicomJsonDataset = Record<string, DicomJsonElement>;
+
   export namespace data {
     class DicomMessage {
-      static readFile(arrayBuffer: ArrayBuffer): any;
+      static readFile(arrayBuffer: ArrayBuffer, options?: Record<string, unknown>): DicomDict;
       static readPart10(arrayBuffer: ArrayBuffer): any;
       dict: any;
     }
 
+    class DicomDict {
+      constructor(meta: DicomJsonDataset);
+      meta: DicomJsonDataset;
+      dict: DicomJsonDataset;
+      write(writeOptions?: Record<string, unknown>): ArrayBuffer;
+    }
+
+    interface DictionaryEntry {
+      tag: string;
+      vr: string;
+      name: string;
+      vm: string;
+      version: string;
+    }
+
+    class DicomMetaDictionary {
+      static naturalizeDataset(dataset: DicomJsonDataset): Record<string, unknown>;
+      static denaturalizeDataset(dataset: Record<string, unknown>): DicomJsonDataset;
+      static punctuateTag(rawTag: string): string;
+      static unpunctuateTag(tag: string): string;
+      static dictionary: Record<string, DictionaryEntry>;
+      static nameMap: Record<string, DictionaryEntry>;
+    }
+
     class DicomMetaData {
       static naturalizeDataset(dataset: any): any;
       static denaturalizeDataset(dataset: any): any;
     }
-
-    class DicomDict {
-      static dict: any;
-    }
   }
 
   export namespace normalizers {
@@ -0,0 +1,814 @@
+/**
+ * DICOM PS3.15 Annex E Basic Application Confidentiality Profile
+ * Attribute action table (Table E.1-1), keyed by tag in the same format as DICOM_TAGS
+ */
+
+/**
+ * Action codes from Table E.1-1
+ * - D: replace with a non-zero length dummy value consistent with the VR
+ * - Z: replace with a zero length value (or a dummy value when D is also allowed)
+ * - X: remove
+ * - K: keep (unchanged for non-sequence attributes, cleaned for sequences)
+ * - C: clean, replace with values of similar meaning known not to contain identifying information
+ * - U: replace with a non-zero length UID that is internally consistent within a set of instances
+ */
+export type ProfileAction = 'D' | 'Z' | 'X' | 'K' | 'C' | 'U';
+
+/**
+ * Compound codes as printed in the standard, where the choice depends on the
+ * attribute's Type in the IOD (e.g. X/Z: remove if Type 3, empty if Type 2)
+ */
+export type CompoundProfileAction = 'X/Z' | 'X/D' | 'Z/D' | 'X/Z/D' | 'X/Z/U*';
+
+export const PROFILE_ACTION_LABELS: Record<ProfileAction, string> = {
+  D: 'Replaced with dummy value',
+  Z: 'Emptied',
+  X: 'Removed',
+  K: 'Kept',
+  C: 'Cleaned',
+  U: 'UID remapped',
+};
+
+export interface ProfileAttribute {
+  tag: string;
+  name: string;
+  action: ProfileAction | CompoundProfileAction;
+}
+
+export const BASIC_PROFILE_ATTRIBUTES: readonly ProfileAttribute[] = [
+  // Directory (0004,xxxx)
+  { tag: 'x00041511', name: 'ReferencedSOPInstanceUIDInFile', action: 'U' },
+
+  // Identification (0008,xxxx)
+  { tag: 'x00080012', name: 'InstanceCreationDate', action: 'X/D' },
+  { tag: 'x00080013', name: 'InstanceCreationTime', action: 'X/Z/D' },
+  { tag: 'x00080014', name: 'InstanceCreatorUID', action: 'U' },
+  { tag: 'x00080015', name: 'InstanceCoercionDateTime', action: 'X' },
+  { tag: 'x00080018', name: 'SOPInstanceUID', action: 'U' },
+  { tag: 'x00080020', name: 'StudyDate', action: 'Z' },
+  { tag: 'x00080021', name: 'SeriesDate', action: 'X/D' },
+  { tag: 'x00080022', name: 'AcquisitionDate', action: 'X/Z' },
+  { tag: 'x00080023', name: 'ContentDate', action: 'Z/D' },
+  { tag: 'x00080024', name: 'OverlayDate', action: 'X' },
+  { tag: 'x00080025', name: 'CurveDate', action: 'X' },
+  { tag: 'x0008002a', name: 'AcquisitionDateTime', action: 'X/D' },
+  { tag: 'x00080030', name: 'StudyTime', action: 'Z' },
+  { tag: 'x00080031', name: 'SeriesTime', action: 'X/D' },
+  { tag: 'x00080032', name: 'AcquisitionTime', action: 'X/Z' },
+  { tag: 'x00080033', name: 'ContentTime', action: 'Z/D' },
+  { tag: 'x00080034', name: 'OverlayTime', action: 'X' },
+  { tag: 'x00080035', name: 'CurveTime', action: 'X' },
+  { tag: 'x00080050', name: 'AccessionNumber', action: 'Z' },
+  { tag: 'x00080058', name: 'FailedSOPInstanceUIDList', action: 'U' },
+  { tag: 'x00080080', name: 'InstitutionName', action: 'X/Z/D' },
+  { tag: 'x00080081', name: 'InstitutionAddress', action: 'X' },
+  { tag: 'x00080082', name: 'InstitutionCodeSequence', action: 'X/Z/D' },
+  { tag: 'x00080090', name: 'ReferringPhysicianName', action: 'Z' },
+  { tag: 'x00080092', name: 'ReferringPhysicianAddress', action: 'X' },
+  { tag: 'x00080094', name: 'ReferringPhysicianTelephoneNumbers', action: 'X' },
+  { tag: 'x00080096', name: 'ReferringPhysicianIdentificationSequence', action: 'X' },
+  { tag: 'x0008009c', name: 'ConsultingPhysicianName', action: 'Z' },
+  { tag: 'x0008009d', name: 'ConsultingPhysicianIdentificationSequence', action: 'X' },
+  { tag: 'x0008010d', name: 'ContextGroupExtensionCreatorUID', action: 'U' },
+  { tag: 'x00080201', name: 'TimezoneOffsetFromUTC', action: 'X' },
+  { tag: 'x00081000', name: 'NetworkID', action: 'X' },
+  { tag: 'x00081010', name: 'StationName', action: 'X/Z/D' },
+  { tag: 'x00081030', name: 'StudyDescription', action: 'X' },
+  { tag: 'x00081032', name: 'ProcedureCodeSequence', action: 'X' },
+  { tag: 'x0008103e', name: 'SeriesDescription', action: 'X' },
+  { tag: 'x0008103f', name: 'SeriesDescriptionCodeSequence', action: 'X' },
+  { tag: 'x00081040', name: 'InstitutionalDepartmentName', action: 'X' },
+  { tag: 'x00081041', name: 'InstitutionalDepartmentTypeCodeSequence', action: 'X' },
+  { tag: 'x00081048', name: 'PhysiciansOfRecord', action: 'X' },
+  { tag: 'x00081049', name: 'PhysiciansOfRecordIdentificationSequence', action: 'X' },
+  { tag: 'x00081050', name: 'PerformingPhysicianName', action: 'X' },
+  { tag: 'x00081052', name: 'PerformingPhysicianIdentificationSequence', action: 'X' },
+  { tag: 'x00081060', name: 'NameOfPhysiciansReadingStudy', action: 'X' },
+  { tag: 'x00081062', name: 'PhysiciansReadingStudyIdentificationSequence', action: 'X' },
+  { tag: 'x00081070', name: 'OperatorsName', action: 'X/Z/D' },
+  { tag: 'x00081072', name: 'OperatorIdentificationSequence', action: 'X/D' },
+  { tag: 'x00081080', name: 'AdmittingDiagnosesDescription', action: 'X' },
+  { tag: 'x00081084', name: 'AdmittingDiagnosesCodeSequence', action: 'X' },
+  { tag: 'x00081110', name: 'ReferencedStudySequence', action: 'X/Z' },
+  { tag: 'x00081111', name: 'ReferencedPerformedProcedureStepSequence', action: 'X/Z/D' },
+  { tag: 'x00081120', name: 'ReferencedPatientSequence', action: 'X' },
+  { tag: 'x00081140', name: 'ReferencedImageSequence', action: 'X/Z/U*' },
+  { tag: 'x00081155', name: 'ReferencedSOPInstanceUID', action: 'U' },
+  { tag: 'x00081195', name: 'TransactionUID', action: 'U' },
+  { tag: 'x00082111', name: 'DerivationDescription', action: 'X' },
+  { tag: 'x00082112', name: 'SourceImageSequence', action: 'X/Z/U*' },
+  { tag: 'x00083010', name: 'IrradiationEventUID', action: 'U' },
+  { tag: 'x00084000', name: 'IdentifyingComments', action: 'X' },
+  { tag: 'x00089123', name: 'CreatorVersionUID', action: 'U' },
+
+  // Patient (0010,xxxx)
+  { tag: 'x00100010', name: 'PatientName', action: 'Z' },
+  { tag: 'x00100020', name: 'PatientID', action: 'Z' },
+  { tag: 'x00100021', name: 'IssuerOfPatientID', action: 'X' },
+  { tag: 'x00100030', name: 'PatientBirthDate', action: 'Z' },
+  { tag: 'x00100032', name: 'PatientBirthTime', action: 'X' },
+  { tag: 'x00100033', name: 'PatientBirthDateInAlternativeCalendar', action: 'X' },
+  { tag: 'x00100034', name: 'PatientDeathDateInAlternativeCalendar', action: 'X' },
+  { tag: 'x00100035', name: 'PatientAlternativeCalendar', action: 'X' },
+  { tag: 'x00100040', name: 'PatientSex', action: 'Z' },
+  { tag: 'x00100050', name: 'PatientInsurancePlanCodeSequence', action: 'X' },
+  { tag: 'x00100101', name: 'PatientPrimaryLanguageCodeSequence', action: 'X' },
+  { tag: 'x00100102', name: 'PatientPrimaryLanguageModifierCodeSequence', action: 'X' },
+  { tag: 'x00101000', name: 'OtherPatientIDs', action: 'X' },
+  { tag: 'x00101001', name: 'OtherPatientNames', action: 'X' },
+  { tag: 'x00101002', name: 'OtherPatientIDsSequence', action: 'X' },
+  { tag: 'x00101005', name: 'PatientBirthName', action: 'X' },
+  { tag: 'x00101010', name: 'PatientAge', action: 'X' },
+  { tag: 'x00101020', name: 'PatientSize', action: 'X' },
+  { tag: 'x00101021', name: 'PatientSizeCodeSequence', action: 'X' },
+  { tag: 'x00101022', name: 'PatientBodyMassIndex', action: 'X' },
+  { tag: 'x00101023', name: 'MeasuredAPDimension', action: 'X' },
+  { tag: 'x00101024', name: 'MeasuredLateralDimension', action: 'X' },
+  { tag: 'x00101030', name: 'PatientWeight', action: 'X' },
+  { tag: 'x00101040', name: 'PatientAddress', action: 'X' },
+  { tag: 'x00101050', name: 'InsurancePlanIdentification', action: 'X' },
+  { tag: 'x00101060', name: 'PatientMotherBirthName', action: 'X' },
+  { tag: 'x00101080', name: 'MilitaryRank', action: 'X' },
+  { tag: 'x00101081', name: 'BranchOfService', action: 'X' },
+  { tag: 'x00101090', name: 'MedicalRecordLocator', action: 'X' },
+  { tag: 'x00101100', name: 'ReferencedPatientPhotoSequence', action: 'X' },
+  { tag: 'x00102000', name: 'MedicalAlerts', action: 'X' },
+  { tag: 'x00102110', name: 'Allergies', action: 'X' },
+  { tag: 'x00102150', name: 'CountryOfResidence', action: 'X' },
+  { tag: 'x00102152', name: 'RegionOfResidence', action: 'X' },
+  { tag: 'x00102154', name: 'PatientTelephoneNumbers', action: 'X' },
+  { tag: 'x00102155', name: 'PatientTelecomInformation', action: 'X' },
+  { tag: 'x00102160', name: 'EthnicGroup', action: 'X' },
+  { tag: 'x00102180', name: 'Occupation', action: 'X' },
+  { tag: 'x001021a0', name: 'SmokingStatus', action: 'X' },
+  { tag: 'x001021b0', name: 'AdditionalPatientHistory', action: 'X' },
+  { tag: 'x001021c0', name: 'PregnancyStatus', action: 'X' },
+  { tag: 'x001021d0', name: 'LastMenstrualDate', action: 'X' },
+  { tag: 'x001021f0', name: 'PatientReligiousPreference', action: 'X' },
+  { tag: 'x00102203', name: 'PatientSexNeutered', action: 'X/Z' },
+  { tag: 'x00102297', name: 'ResponsiblePerson', action: 'X' },
+  { tag: 'x00102299', name: 'ResponsibleOrganization', action: 'X' },
+  { tag: 'x00104000', name: 'PatientComments', action: 'X' },
+
+  // Clinical Trial (0012,xxxx)
+  { tag: 'x00120010', name: 'ClinicalTrialSponsorName', action: 'D' },
+  { tag: 'x00120020', name: 'ClinicalTrialProtocolID', action: 'D' },
+  { tag: 'x00120021', name: 'ClinicalTrialProtocolName', action: 'Z' },
+  { tag: 'x00120030', name: 'ClinicalTrialSiteID', action: 'Z' },
+  { tag: 'x00120031', name: 'ClinicalTrialSiteName', action: 'Z' },
+  { tag: 'x00120040', name: 'ClinicalTrialSubjectID', action: 'D' },
+  { tag: 'x00120042', name: 'ClinicalTrialSubjectReadingID', action: 'D' },
+  { tag: 'x00120050', name: 'ClinicalTrialTimePointID', action: 'Z' },
+  { tag: 'x00120051', name: 'ClinicalTrialTimePointDescription', action: 'X' },
+  { tag: 'x00120060', name: 'ClinicalTrialCoordinatingCenterName', action: 'Z' },
+  { tag: 'x00120071', name: 'ClinicalTrialSeriesID', action: 'X' },
+  { tag: 'x00120072', name: 'ClinicalTrialSeriesDescription', action: 'X' },
+  { tag: 'x00120081', name: 'ClinicalTrialProtocolEthicsCommitteeName', action: 'D' },
+  { tag: 'x00120082', name: 'ClinicalTrialProtocolEthicsCommitteeApprovalNumber', action: 'X' },
+
+  // Acquisition & Equipment (0018,xxxx)
+  { tag: 'x00180010', name: 'ContrastBolusAgent', action: 'Z/D' },
+  { tag: 'x00181000', name: 'DeviceSerialNumber', action: 'X/Z/D' },
+  { tag: 'x00181002', name: 'DeviceUID', action: 'U' },
+  { tag: 'x00181004', name: 'PlateID', action: 'X' },
+  { tag: 'x00181005', name: 'GeneratorID', action: 'X' },
+  { tag: 'x00181007', name: 'CassetteID', action: 'X' },
+  { tag: 'x00181008', name: 'GantryID', action: 'X' },
+  { tag: 'x00181009', name: 'UniqueDeviceIdentifier', action: 'X' },
+  { tag: 'x0018100b', name: 'ManufacturerDeviceClassUID', action: 'U' },
+  { tag: 'x00181010', name: 'SecondaryCaptureDeviceID', action: 'X' },
+  { tag: 'x00181012', name: 'DateOfSecondaryCapture', action: 'X' },
+  { tag: 'x00181014', name: 'TimeOfSecondaryCapture', action: 'X' },
+  { tag: 'x00181020', name: 'SoftwareVersions', action: 'X' },
+  { tag: 'x00181030', name: 'ProtocolName', action: 'X/D' },
+  { tag: 'x00181200', name: 'DateOfLastCalibration', action: 'X' },
+  { tag: 'x00181201', name: 'TimeOfLastCalibration', action: 'X' },
+  { tag: 'x00181202', name: 'DateTimeOfLastCalibration', action: 'X' },
+  { tag: 'x00181400', name: 'AcquisitionDeviceProcessingDescription', action: 'X/D' },
+  { tag: 'x00182042', name: 'TargetUID', action: 'U' },
+  { tag: 'x00184000', name: 'AcquisitionComments', action: 'X' },
+  { tag: 'x0018700a', name: 'DetectorID', action: 'X/D' },
+  { tag: 'x0018700c', name: 'DateOfLastDetectorCalibration', action: 'X' },
+  { tag: 'x0018700e', name: 'TimeOfLastDetectorCalibration', action: 'X' },
+  { tag: 'x00189074', name: 'FrameAcquisitionDateTime', action: 'X/D' },
+  { tag: 'x00189151', name: 'FrameReferenceDateTime', action: 'X/D' },
+  { tag: 'x00189185', name: 'RespiratoryMotionCompensationTechniqueDescription', action: 'X' },
+  { tag: 'x00189367', name: 'XRaySourceID', action: 'X' },
+  { tag: 'x00189371', name: 'XRayDetectorID', action: 'X' },
+  { tag: 'x00189373', name: 'XRayDetectorLabel', action: 'X' },
+  { tag: 'x0018937b', name: 'MultienergyAcquisitionDescription', action: 'X' },
+  { tag: 'x0018937f', name: 'DecompositionDescription', action: 'X' },
+  { tag: 'x00189424', name: 'AcquisitionProtocolDescription', action: 'X' },
+  { tag: 'x00189516', name: 'StartAcquisitionDateTime', action: 'X/D' },
+  { tag: 'x00189517', name: 'EndAcquisitionDateTime', action: 'X/D' },
+  { tag: 'x00189701', name: 'DecayCorrectionDateTime', action: 'X/D' },
+  { tag: 'x00189804', name: 'ExclusionStartDateTime', action: 'X' },
+  { tag: 'x00189919', name: 'InstructionPerformedDateTime', action: 'Z' },
+  { tag: 'x0018a002', name: 'ContributionDateTime', action: 'X/D' },
+  { tag: 'x0018a003', name: 'ContributionDescription', action: 'X' },
+
+  // Relationship (0020,xxxx)
+  { tag: 'x0020000d', name: 'StudyInstanceUID', action: 'U' },
+  { tag: 'x0020000e', name: 'SeriesInstanceUID', action: 'U' },
+  { tag: 'x00200010', name: 'StudyID', action: 'Z' },
+  { tag: 'x00200052', name: 'FrameOfReferenceUID', action: 'U' },
+  { tag: 'x00200200', name: 'SynchronizationFrameOfReferenceUID', action: 'U' },
+  { tag: 'x00203401', name: 'ModifyingDeviceID', action: 'X' },
+  { tag: 'x00203404', name: 'ModifyingDeviceManufacturer', action: 'X' },
+  { tag: 'x00203406', name: 'ModifiedImageDescription', action: 'X' },
+  { tag: 'x00204000', name: 'ImageComments', action: 'X' },
+  { tag: 'x00209158', name: 'FrameComments', action: 'X' },
+  { tag: 'x00209161', name: 'ConcatenationUID', action: 'U' },
+  { tag: 'x00209164', name: 'DimensionOrganizationUID', action: 'U' },
+
+  // Image Presentation (0028,xxxx)
+  { tag: 'x00281199', name: 'PaletteColorLookupTableUID', action: 'U' },
+  { tag: 'x00281214', name: 'LargePaletteColorLookupTableUID', action: 'U' },
+  { tag: 'x00284000', name: 'ImagePresentationComments', action: 'X' },
+
+  // Study (0032,xxxx)
+  { tag: 'x00320012', name: 'StudyIDIssuer', action: 'X' },
+  { tag: 'x00320032', name: 'StudyVerifiedDate', action: 'X' },
+  { tag: 'x00320033', name: 'StudyVerifiedTime', action: 'X' },
+  { tag: 'x00320034', name: 'StudyReadDate', action: 'X' },
+  { tag: 'x00320035', name: 'StudyReadTime', action: 'X' },
+  { tag: 'x00321000', name: 'ScheduledStudyStartDate', action: 'X' },
+  { tag: 'x00321001', name: 'ScheduledStudyStartTime', action: 'X' },
+  { tag: 'x00321010', name: 'ScheduledStudyStopDate', action: 'X' },
+  { tag: 'x00321011', name: 'ScheduledStudyStopTime', action: 'X' },
+  { tag: 'x00321020', name: 'ScheduledStudyLocation', action: 'X' },
+  { tag: 'x00321021', name: 'ScheduledStudyLocationAETitle', action: 'X' },
+  { tag: 'x00321030', name: 'ReasonForStudy', action: 'X' },
+  { tag: 'x00321032', name: 'RequestingPhysician', action: 'X' },
+  { tag: 'x00321033', name: 'RequestingService', action: 'X' },
+  { tag: 'x00321040', name: 'StudyArrivalDate', action: 'X' },
+  { tag: 'x00321041', name: 'StudyArrivalTime', action: 'X' },
+  { tag: 'x00321050', name: 'StudyCompletionDate', action: 'X' },
+  { tag: 'x00321051', name: 'StudyCompletionTime', action: 'X' },
+  { tag: 'x00321060', name: 'RequestedProcedureDescription', action: 'X/Z' },
+  { tag: 'x00321066', name: 'ReasonForVisit', action: 'X' },
+  { tag: 'x00321067', name: 'ReasonForVisitCodeSequence', action: 'X' },
+  { tag: 'x00321070', name: 'RequestedContrastAgent', action: 'X' },
+  { tag: 'x00324000', name: 'StudyComments', action: 'X' },
+
+  // Visit (0038,xxxx)
+  { tag: 'x00380004', name: 'ReferencedPatientAliasSequence', action: 'X' },
+  { tag: 'x00380010', name: 'AdmissionID', action: 'X' },
+  { tag: 'x00380011', name: 'IssuerOfAdmissionID', action: 'X' },
+  { tag: 'x00380014', name: 'IssuerOfAdmissionIDSequence', action: 'X' },
+  { tag: 'x0038001a', name: 'ScheduledAdmissionDate', action: 'X' },
+  { tag: 'x0038001b', name: 'ScheduledAdmissionTime', action: 'X' },
+  { tag: 'x0038001c', name: 'ScheduledDischargeDate', action: 'X' },
+  { tag: 'x0038001d', name: 'ScheduledDischargeTime', action: 'X' },
+  { tag: 'x0038001e', name: 'ScheduledPatientInstitutionResidence', action: 'X' },
+  { tag: 'x00380020', name: 'AdmittingDate', action: 'X' },
+  { tag: 'x00380021', name: 'AdmittingTime', action: 'X' },
+  { tag: 'x00380030', name: 'DischargeDate', action: 'X' },
+  { tag: 'x00380032', name: 'DischargeTime', action: 'X' },
+  { tag: 'x00380040', name: 'DischargeDiagnosisDescription', action: 'X' },
+  { tag: 'x00380050', name: 'SpecialNeeds', action: 'X' },
+  { tag: 'x00380060', name: 'ServiceEpisodeID', action: 'X' },
+  { tag: 'x00380061', name: 'IssuerOfServiceEpisodeID', action: 'X' },
+  { tag: 'x00380062', name: 'ServiceEpisodeDescription', action: 'X' },
+  { tag: 'x00380064', name: 'IssuerOfServiceEpisodeIDSequence', action: 'X' },
+  { tag: 'x00380300', name: 'CurrentPatientLocation', action: 'X' },
+  { tag: 'x00380400', name: 'PatientInstitutionResidence', action: 'X' },
+  { tag: 'x00380500', name: 'PatientState', action: 'X' },
+  { tag: 'x00384000', name: 'VisitComments', action: 'X' },
+
+  // Procedure Step, Request & Structured Content (0040,xxxx)
+  { tag: 'x00400001', name: 'ScheduledStationAETitle', action: 'X' },
+  { tag: 'x00400002', name: 'ScheduledProcedureStepStartDate', action: 'X' },
+  { tag: 'x00400003', name: 'ScheduledProcedureStepStartTime', action: 'X' },
+  { tag: 'x00400004', name: 'ScheduledProcedureStepEndDate', action: 'X' },
+  { tag: 'x00400005', name: 'ScheduledProcedureStepEndTime', action: 'X' },
+  { tag: 'x00400006', name: 'ScheduledPerformingPhysicianName', action: 'X' },
+  { tag: 'x00400007', name: 'ScheduledProcedureStepDescription', action: 'X' },
+  { tag: 'x0040000b', name: 'ScheduledPerformingPhysicianIdentificationSequence', action: 'X' },
+  { tag: 'x00400010', name: 'ScheduledStationName', action: 'X' },
+  { tag: 'x00400011', name: 'ScheduledProcedureStepLocation', action: 'X' },
+  { tag: 'x00400012', name: 'PreMedication', action: 'X' },
+  { tag: 'x00400241', name: 'PerformedStationAETitle', action: 'X' },
+  { tag: 'x00400242', name: 'PerformedStationName', action: 'X' },
+  { tag: 'x00400243', name: 'PerformedLocation', action: 'X' },
+  { tag: 'x00400244', name: 'PerformedProcedureStepStartDate', action: 'X' },
+  { tag: 'x00400245', name: 'PerformedProcedureStepStartTime', action: 'X' },
+  { tag: 'x00400250', name: 'PerformedProcedureStepEndDate', action: 'X' },
+  { tag: 'x00400251', name: 'PerformedProcedureStepEndTime', action: 'X' },
+  { tag: 'x00400253', name: 'PerformedProcedureStepID', action: 'X' },
+  { tag: 'x00400254', name: 'PerformedProcedureStepDescription', action: 'X' },
+  { tag: 'x00400260', name: 'PerformedProtocolCodeSequence', action: 'X' },
+  { tag: 'x00400275', name: 'RequestAttributesSequence', action: 'X' },
+  { tag: 'x00400280', name: 'CommentsOnThePerformedProcedureStep', action: 'X' },
+  { tag: 'x00400440', name: 'ProtocolContextSequence', action: 'X' },
+  { tag: 'x00400551', name: 'SpecimenIdentifier', action: 'X' },
+  { tag: 'x00400554', name: 'SpecimenUID', action: 'U' },
+  { tag: 'x00400555', name: 'AcquisitionContextSequence', action: 'X' },
+  { tag: 'x00400562', name: 'IssuerOfTheSpecimenIdentifierSequence', action: 'X' },
+  { tag: 'x00400600', name: 'SpecimenShortDescription', action: 'X' },
+  { tag: 'x00400602', name: 'SpecimenDetailedDescription', action: 'X' },
+  { tag: 'x004006fa', name: 'SlideIdentifier', action: 'X' },
+  { tag: 'x00401001', name: 'RequestedProcedureID', action: 'X' },
+  { tag: 'x00401002', name: 'ReasonForTheRequestedProcedure', action: 'X' },
+  { tag: 'x00401004', name: 'PatientTransportArrangements', action: 'X' },
+  { tag: 'x00401005', name: 'RequestedProcedureLocation', action: 'X' },
+  { tag: 'x00401010', name: 'NamesOfIntendedRecipientsOfResults', action: 'X' },
+  { tag: 'x00401011', name: 'IntendedRecipientsOfResultsIdentificationSequence', action: 'X' },
+  { tag: 'x00401101', name: 'PersonIdentificationCodeSequence', action: 'D' },
+  { tag: 'x00401102', name: 'PersonAddress', action: 'X' },
+  { tag: 'x00401103', name: 'PersonTelephoneNumbers', action: 'X' },
+  { tag: 'x00401104', name: 'PersonTelecomInformation', action: 'X' },
+  { tag: 'x00401400', name: 'RequestedProcedureComments', action: 'X' },
+  { tag: 'x00402001', name: 'ReasonForTheImagingServiceRequest', action: 'X' },
+  { tag: 'x00402004', name: 'IssueDateOfImagingServiceRequest', action: 'X' },
+  { tag: 'x00402005', name: 'IssueTimeOfImagingServiceRequest', action: 'X' },
+  { tag: 'x00402008', name: 'OrderEnteredBy', action: 'X' },
+  { tag: 'x00402009', name: 'OrderEntererLocation', action: 'X' },
+  { tag: 'x00402010', name: 'OrderCallbackPhoneNumber', action: 'X' },
+  { tag: 'x00402011', name: 'OrderCallbackTelecomInformation', action: 'X' },
+  { tag: 'x00402016', name: 'PlacerOrderNumberImagingServiceRequest', action: 'Z' },
+  { tag: 'x00402017', name: 'FillerOrderNumberImagingServiceRequest', action: 'Z' },
+  { tag: 'x00402400', name: 'ImagingServiceRequestComments', action: 'X' },
+  { tag: 'x00403001', name: 'ConfidentialityConstraintOnPatientDataDescription', action: 'X' },
+  { tag: 'x00404005', name: 'ScheduledProcedureStepStartDateTime', action: 'X' },
+  { tag: 'x00404008', name: 'ScheduledProcedureStepExpirationDateTime', action: 'X' },
+  { tag: 'x00404010', name: 'ScheduledProcedureStepModificationDateTime', action: 'X' },
+  { tag: 'x00404011', name: 'ExpectedCompletionDateTime', action: 'X' },
+  { tag: 'x00404023', name: 'ReferencedGeneralPurposeScheduledProcedureStepTransactionUID', action: 'U' },
+  { tag: 'x00404025', name: 'ScheduledStationNameCodeSequence', action: 'X' },
+  { tag: 'x00404027', name: 'ScheduledStationGeographicLocationCodeSequence', action: 'X' },
+  { tag: 'x00404028', name: 'PerformedStationNameCodeSequence', action: 'X' },
+  { tag: 'x00404030', name: 'PerformedStationGeographicLocationCodeSequence', action: 'X' },
+  { tag: 'x00404034', name: 'ScheduledHumanPerformersSequence', action: 'X' },
+  { tag: 'x00404035', name: 'ActualHumanPerformersSequence', action: 'X' },
+  { tag: 'x00404036', name: 'HumanPerformerOrganization', action: 'X' },
+  { tag: 'x00404037', name: 'HumanPerformerName', action: 'X' },
+  { tag: 'x00404050', name: 'PerformedProcedureStepStartDateTime', action: 'X' },
+  { tag: 'x00404051', name: 'PerformedProcedureStepEndDateTime', action: 'X' },
+  { tag: 'x00404052', name: 'ProcedureStepCancellationDateTime', action: 'X' },
+  { tag: 'x0040a027', name: 'VerifyingOrganization', action: 'X' },
+  { tag: 'x0040a030', name: 'VerificationDateTime', action: 'D' },
+  { tag: 'x0040a032', name: 'ObservationDateTime', action: 'X/D' },
+  { tag: 'x0040a073', name: 'VerifyingObserverSequence', action: 'D' },
+  { tag: 'x0040a075', name: 'VerifyingObserverName', action: 'D' },
+  { tag: 'x0040a078', name: 'AuthorObserverSequence', action: 'X' },
+  { tag: 'x0040a07a', name: 'ParticipantSequence', action: 'X' },
+  { tag: 'x0040a07c', name: 'CustodialOrganizationSequence', action: 'X' },
+  { tag: 'x0040a088', name: 'VerifyingObserverIdentificationCodeSequence', action: 'Z' },
+  { tag: 'x0040a120', name: 'DateTime', action: 'D' },
+  { tag: 'x0040a121', name: 'Date', action: 'D' },
+  { tag: 'x0040a122', name: 'Time', action: 'D' },
+  { tag: 'x0040a123', name: 'PersonName', action: 'D' },
+  { tag: 'x0040a124', name: 'UID', action: 'U' },
+  { tag: 'x0040a13a', name: 'ReferencedDateTime', action: 'D' },
+  { tag: 'x0040a171', name: 'ObservationUID', action: 'U' },
+  { tag: 'x0040a172', name: 'ReferencedObservationUIDTrial', action: 'U' },
+  { tag: 'x0040a192', name: 'ObservationDateTrial', action: 'X' },
+  { tag: 'x0040a193', name: 'ObservationTimeTrial', action: 'X' },
+  { tag: 'x0040a307', name: 'CurrentObserverTrial', action: 'X' },
+  { tag: 'x0040a352', name: 'VerbalSourceTrial', action: 'X' },
+  { tag: 'x0040a358', name: 'VerbalSourceIdentifierCodeSequenceTrial', action: 'X' },
+  { tag: 'x0040a402', name: 'ObservationSubjectUIDTrial', action: 'U' },
+  { tag: 'x0040a730', name: 'ContentSequence', action: 'X' },
+  { tag: 'x0040db0c', name: 'TemplateExtensionOrganizationUID', action: 'U' },
+  { tag: 'x0040db0d', name: 'TemplateExtensionCreatorUID', action: 'U' },
+
+  // Device (0050,xxxx)
+  { tag: 'x00500020', name: 'DeviceDescription', action: 'X' },
+
+  // Segmentation (0062,xxxx)
+  { tag: 'x00620020', name: 'TrackingID', action: 'X' },
+  { tag: 'x00620021', name: 'TrackingUID', action: 'U' },
+
+  // Deformable Registration (0064,xxxx)
+  { tag: 'x00640003', name: 'SourceFrameOfReferenceUID', action: 'U' },
+
+  // Presentation State (0070,xxxx)
+  { tag: 'x00700001', name: 'GraphicAnnotationSequence', action: 'D' },
+  { tag: 'x00700084', name: 'ContentCreatorName', action: 'Z' },
+  { tag: 'x00700086', name: 'ContentCreatorIdentificationCodeSequence', action: 'X' },
+  { tag: 'x0070031a', name: 'FiducialUID', action: 'U' },
+  { tag: 'x00701101', name: 'PresentationDisplayCollectionUID', action: 'U' },
+  { tag: 'x00701102', name: 'PresentationSequenceCollectionUID', action: 'U' },
+
+  // Storage & Topic (0088,xxxx)
+  { tag: 'x00880140', name: 'StorageMediaFileSetUID', action: 'U' },
+  { tag: 'x00880200', name: 'IconImageSequence', action: 'X' },
+  { tag: 'x00880904', name: 'TopicTitle', action: 'X' },
+  { tag: 'x00880906', name: 'TopicSubject', action: 'X' },
+  { tag: 'x00880910', name: 'TopicAuthor', action: 'X' },
+  { tag: 'x00880912', name: 'TopicKeywords', action: 'X' },
+
+  // Digital Signatures & Original Attributes (0400,xxxx)
+  { tag: 'x04000100', name: 'DigitalSignatureUID', action: 'X' },
+  { tag: 'x04000105', name: 'DigitalSignatureDateTime', action: 'X' },
+  { tag: 'x04000115', name: 'CertificateOfSigner', action: 'X' },
+  { tag: 'x04000310', name: 'CertifiedTimestamp', action: 'X' },
+  { tag: 'x04000402', name: 'ReferencedDigitalSignatureSequence', action: 'X' },
+  { tag: 'x04000403', name: 'ReferencedSOPInstanceMACSequence', action: 'X' },
+  { tag: 'x04000404', name: 'MAC', action: 'X' },
+  { tag: 'x04000550', name: 'ModifiedAttributesSequence', action: 'X' },
+  { tag: 'x04000561', name: 'OriginalAttributesSequence', action: 'X' },
+
+  // Annotation (2030,xxxx)
+  { tag: 'x20300020', name: 'TextString', action: 'X' },
+
+  // Print Job (2100,xxxx)
+  { tag: 'x21000070', name: 'Originator', action: 'X' },
+  { tag: 'x21000140', name: 'DestinationAE', action: 'X' },
+
+  // Media Creation (2200,xxxx)
+  { tag: 'x22000002', name: 'LabelText', action: 'X' },
+  { tag: 'x22000005', name: 'BarcodeValue', action: 'X' },
+
+  // RT Structure Set (3006,xxxx)
+  { tag: 'x30060002', name: 'StructureSetLabel', action: 'D' },
+  { tag: 'x30060004', name: 'StructureSetName', action: 'X' },
+  { tag: 'x30060006', name: 'StructureSetDescription', action: 'X' },
+  { tag: 'x30060008', name: 'StructureSetDate', action: 'X' },
+  { tag: 'x30060009', name: 'StructureSetTime', action: 'X' },
+  { tag: 'x30060024', name: 'ReferencedFrameOfReferenceUID', action: 'U' },
+  { tag: 'x30060026', name: 'ROIName', action: 'X' },
+  { tag: 'x30060028', name: 'ROIDescription', action: 'X' },
+  { tag: 'x30060038', name: 'ROIGenerationDescription', action: 'X' },
+  { tag: 'x300600a6', name: 'ROIInterpreter', action: 'Z' },
+  { tag: 'x300600c2', name: 'RelatedFrameOfReferenceUID', action: 'U' },
+
+  // RT Plan (300A,xxxx)
+  { tag: 'x300a0002', name: 'RTPlanLabel', action: 'D' },
+  { tag: 'x300a0003', name: 'RTPlanName', action: 'X' },
+  { tag: 'x300a0004', name: 'RTPlanDescription', action: 'X' },
+  { tag: 'x300a0006', name: 'RTPlanDate', action: 'X' },
+  { tag: 'x300a0007', name: 'RTPlanTime', action: 'X' },
+  { tag: 'x300a000e', name: 'PrescriptionDescription', action: 'X' },
+  { tag: 'x300a0013', name: 'DoseReferenceUID', action: 'U' },
+  { tag: 'x300a0016', name: 'DoseReferenceDescription', action: 'X' },
+  { tag: 'x300a0072', name: 'FractionGroupDescription', action: 'X' },
+  { tag: 'x300a00b2', name: 'TreatmentMachineName', action: 'X' },
+  { tag: 'x300a0196', name: 'FixationDeviceDescription', action: 'X' },
+  { tag: 'x300a0650', name: 'PatientSetupUID', action: 'U' },
+
+  // Approval (300E,xxxx)
+  { tag: 'x300e0004', name: 'ReviewDate', action: 'X' },
+  { tag: 'x300e0005', name: 'ReviewTime', action: 'X' },
+  { tag: 'x300e0008', name: 'ReviewerName', action: 'X/Z' },
+
+  // Text (4000,xxxx)
+  { tag: 'x40000010', name: 'Arbitrary', action: 'X' },
+  { tag: 'x40004000', name: 'TextComments', action: 'X' },
+
+  // Results (4008,xxxx)
+  { tag: 'x40080042', name: 'ResultsIDIssuer', action: 'X' },
+  { tag: 'x40080100', name: 'InterpretationRecordedDate', action: 'X' },
+  { tag: 'x40080101', name: 'InterpretationRecordedTime', action: 'X' },
+  { tag: 'x40080102', name: 'InterpretationRecorder', action: 'X' },
+  { tag: 'x40080108', name: 'InterpretationTranscriptionDate', action: 'X' },
+  { tag: 'x40080109', name: 'InterpretationTranscriptionTime', action: 'X' },
+  { tag: 'x4008010a', name: 'InterpretationTranscriber', action: 'X' },
+  { tag: 'x4008010b', name: 'InterpretationText', action: 'X' },
+  { tag: 'x4008010c', name: 'InterpretationAuthor', action: 'X' },
+  { tag: 'x40080111', name: 'InterpretationApproverSequence', action: 'X' },
+  { tag: 'x40080112', name: 'InterpretationApprovalDate', action: 'X' },
+  { tag: 'x40080113', name: 'InterpretationApprovalTime', action: 'X' },
+  { tag: 'x40080114', name: 'PhysicianApprovingInterpretation', action: 'X' },
+  { tag: 'x40080115', name: 'InterpretationDiagnosisDescription', action: 'X' },
+  { tag: 'x40080118', name: 'ResultsDistributionListSequence', action: 'X' },
+  { tag: 'x40080119', name: 'DistributionName', action: 'X' },
+  { tag: 'x4008011a', name: 'DistributionAddress', action: 'X' },
+  { tag: 'x40080202', name: 'InterpretationIDIssuer', action: 'X' },
+  { tag: 'x40080300', name: 'Impressions', action: 'X' },
+  { tag: 'x40084000', name: 'ResultsComments', action: 'X' },
+
+  // Signatures & Padding
+  { tag: 'xfffafffa', name: 'DigitalSignaturesSequence', action: 'X' },
+  { tag: 'xfffcfffc', name: 'DataSetTrailingPadding', action: 'X' },
+];
+
+/**
+ * Rows of Table E.1-1 that cover a whole repeating group or element range;
+ * 'x' in a tag matches any hex digit
+ */
+export const BASIC_PROFILE_REPEATING_ATTRIBUTES: readonly ProfileAttribute[] = [
+  { tag: 'x50xxxxxx', name: 'CurveData', action: 'X' },
+  { tag: 'x60xx3000', name: 'OverlayData', action: 'X' },
+  { tag: 'x60xx4000', name: 'OverlayComments', action: 'X' },
+];
+
+/**
+ * Action for private attributes (odd group numbers) in the Basic Profile
+ */
+export const PRIVATE_ATTRIBUTE_ACTION: ProfileAction = 'X';
+
+/**
+ * Options of Table E.1-1, each identified in DeidentificationMethodCodeSequence
+ * by a code from CID 7050
+ */
+export type ProfileOption =
+  | 'retainLongitudinalFullDates'
+  | 'retainLongitudinalModifiedDates'
+  | 'retainPatientCharacteristics'
+  | 'retainDeviceIdentity'
+  | 'retainInstitutionIdentity'
+  | 'retainUIDs'
+  | 'retainSafePrivate'
+  | 'cleanDescriptors'
+  | 'cleanStructuredContent'
+  | 'cleanGraphics'
+  | 'cleanPixelData';
+
+export interface ProfileCode {
+  codeValue: string;
+  codeMeaning: string;
+}
+
+export const BASIC_PROFILE_CODE: ProfileCode = {
+  codeValue: '113100',
+  codeMeaning: 'Basic Application Confidentiality Profile',
+};
+
+export const PROFILE_OPTION_CODES: Record<ProfileOption, ProfileCode> = {
+  cleanPixelData: { codeValue: '113101', codeMeaning: 'Clean Pixel Data Option' },
+  cleanGraphics: { codeValue: '113103', codeMeaning: 'Clean Graphics Option' },
+  cleanStructuredContent: { codeValue: '113104', codeMeaning: 'Clean Structured Content Option' },
+  cleanDescriptors: { codeValue: '113105', codeMeaning: 'Clean Descriptors Option' },
+  retainLongitudinalFullDates: {
+    codeValue: '113106',
+    codeMeaning: 'Retain Longitudinal Temporal Information Full Dates Option',
+  },
+  retainLongitudinalModifiedDates: {
+    codeValue: '113107',
+    codeMeaning: 'Retain Longitudinal Temporal Information Modified Dates Option',
+  },
+  retainPatientCharacteristics: { codeValue: '113108', codeMeaning: 'Retain Patient Characteristics Option' },
+  retainDeviceIdentity: { codeValue: '113109', codeMeaning: 'Retain Device Identity Option' },
+  retainUIDs: { codeValue: '113110', codeMeaning: 'Retain UIDs Option' },
+  retainSafePrivate: { codeValue: '113111', codeMeaning: 'Retain Safe Private Option' },
+  retainInstitutionIdentity: { codeValue: '113112', codeMeaning: 'Retain Institution Identity Option' },
+};
+
+// Option columns of Table E.1-1: the action replacing the Basic Profile one when
+// the option is selected. Dates, UIDs and private attributes are handled by VR,
+// action code and private creator instead of a tag list.
+
+/**
+ * Retain Patient Characteristics Option
+ */
+export const RETAIN_PATIENT_CHARACTERISTICS_ACTIONS: Readonly<Record<string, ProfileAction>> = {
+  x00100040: 'K', // PatientSex
+  x00101010: 'K', // PatientAge
+  x00101020: 'K', // PatientSize
+  x00101021: 'K', // PatientSizeCodeSequence
+  x00101022: 'K', // PatientBodyMassIndex
+  x00101023: 'K', // MeasuredAPDimension
+  x00101024: 'K', // MeasuredLateralDimension
+  x00101030: 'K', // PatientWeight
+  x00102160: 'K', // EthnicGroup
+  x001021a0: 'K', // SmokingStatus
+  x001021c0: 'K', // PregnancyStatus
+  x00102203: 'K', // PatientSexNeutered
+  x00102000: 'C', // MedicalAlerts
+  x00102110: 'C', // Allergies
+  x001021b0: 'C', // AdditionalPatientHistory
+  x00380050: 'C', // SpecialNeeds
+  x00380500: 'C', // PatientState
+};
+
+/**
+ * Retain Device Identity Option
+ */
+export const RETAIN_DEVICE_IDENTITY_ACTIONS: Readonly<Record<string, ProfileAction>> = {
+  x00081010: 'K', // StationName
+  x00181000: 'K', // DeviceSerialNumber
+  x00181002: 'K', // DeviceUID
+  x00181004: 'K', // PlateID
+  x00181005: 'K', // GeneratorID
+  x00181007: 'K', // CassetteID
+  x00181008: 'K', // GantryID
+  x00181009: 'K', // UniqueDeviceIdentifier
+  x0018100b: 'K', // ManufacturerDeviceClassUID
+  x00181010: 'K', // SecondaryCaptureDeviceID
+  x00181020: 'K', // SoftwareVersions
+  x0018700a: 'K', // DetectorID
+  x00189367: 'K', // XRaySourceID
+  x00189371: 'K', // XRayDetectorID
+  x00189373: 'K', // XRayDetectorLabel
+  x00203401: 'K', // ModifyingDeviceID
+  x00203404: 'K', // ModifyingDeviceManufacturer
+  x00400001: 'K', // ScheduledStationAETitle
+  x00400010: 'K', // ScheduledStationName
+  x00404025: 'K', // ScheduledStationNameCodeSequence
+  x00400241: 'K', // PerformedStationAETitle
+  x00400242: 'K', // PerformedStationName
+  x00404028: 'K', // PerformedStationNameCodeSequence
+  x00500020: 'K', // DeviceDescription
+  x300a00b2: 'K', // TreatmentMachineName
+};
+
+/**
+ * Retain Institution Identity Option
+ */
+export const RETAIN_INSTITUTION_IDENTITY_ACTIONS: Readonly<Record<string, ProfileAction>> = {
+  x00080080: 'K', // InstitutionName
+  x00080081: 'K', // InstitutionAddress
+  x00080082: 'K', // InstitutionCodeSequence
+  x00081040: 'K', // InstitutionalDepartmentName
+  x00081041: 'K', // InstitutionalDepartmentTypeCodeSequence
+};
+
+/**
+ * Clean Descriptors Option
+ */
+export const CLEAN_DESCRIPTORS_ACTIONS: Readonly<Record<string, ProfileAction>> = {
+  x00081030: 'C', // StudyDescription
+  x0008103e: 'C', // SeriesDescription
+  x0008103f: 'C', // SeriesDescriptionCodeSequence
+  x00081032: 'C', // ProcedureCodeSequence
+  x00181030: 'C', // ProtocolName
+  x00082111: 'C', // DerivationDescription
+  x00081080: 'C', // AdmittingDiagnosesDescription
+  x00081084: 'C', // AdmittingDiagnosesCodeSequence
+  x00102180: 'C', // Occupation
+  x001021b0: 'C', // AdditionalPatientHistory
+  x00104000: 'C', // PatientComments
+  x00102000: 'C', // MedicalAlerts
+  x00102110: 'C', // Allergies
+  x00180010: 'C', // ContrastBolusAgent
+  x00181400: 'C', // AcquisitionDeviceProcessingDescription
+  x00184000: 'C', // AcquisitionComments
+  x00189185: 'C', // RespiratoryMotionCompensationTechniqueDescription
+  x0018937b: 'C', // MultienergyAcquisitionDescription
+  x0018937f: 'C', // DecompositionDescription
+  x00189424: 'C', // AcquisitionProtocolDescription
+  x0018a003: 'C', // ContributionDescription
+  x00203406: 'C', // ModifiedImageDescription
+  x00204000: 'C', // ImageComments
+  x00209158: 'C', // FrameComments
+  x00284000: 'C', // ImagePresentationComments
+  x00321030: 'C', // ReasonForStudy
+  x00321060: 'C', // RequestedProcedureDescription
+  x00321070: 'C', // RequestedContrastAgent
+  x00324000: 'C', // StudyComments
+  x00321066: 'C', // ReasonForVisit
+  x00321067: 'C', // ReasonForVisitCodeSequence
+  x00380040: 'C', // DischargeDiagnosisDescription
+  x00380050: 'C', // SpecialNeeds
+  x00380062: 'C', // ServiceEpisodeDescription
+  x00380500: 'C', // PatientState
+  x00384000: 'C', // VisitComments
+  x00400007: 'C', // ScheduledProcedureStepDescription
+  x00400012: 'C', // PreMedication
+  x00400254: 'C', // PerformedProcedureStepDescription
+  x00400260: 'C', // PerformedProtocolCodeSequence
+  x00400280: 'C', // CommentsOnThePerformedProcedureStep
+  x00400600: 'C', // SpecimenShortDescription
+  x00400602: 'C', // SpecimenDetailedDescription
+  x00401002: 'C', // ReasonForTheRequestedProcedure
+  x00401400: 'C', // RequestedProcedureComments
+  x00402001: 'C', // ReasonForTheImagingServiceRequest
+  x00402400: 'C', // ImagingServiceRequestComments
+  x00403001: 'C', // ConfidentialityConstraintOnPatientDataDescription
+  x00120021: 'C', // ClinicalTrialProtocolName
+  x00120051: 'C', // ClinicalTrialTimePointDescription
+  x00120072: 'C', // ClinicalTrialSeriesDescription
+  x00880904: 'C', // TopicTitle
+  x00880906: 'C', // TopicSubject
+  x00880912: 'C', // TopicKeywords
+  x20300020: 'C', // TextString
+  x22000002: 'C', // LabelText
+  x30060002: 'C', // StructureSetLabel
+  x30060004: 'C', // StructureSetName
+  x30060006: 'C', // StructureSetDescription
+  x30060026: 'C', // ROIName
+  x30060028: 'C', // ROIDescription
+  x30060038: 'C', // ROIGenerationDescription
+  x300a0002: 'C', // RTPlanLabel
+  x300a0003: 'C', // RTPlanName
+  x300a0004: 'C', // RTPlanDescription
+  x300a000e: 'C', // PrescriptionDescription
+  x300a0016: 'C', // DoseReferenceDescription
+  x300a0072: 'C', // FractionGroupDescription
+  x300a0196: 'C', // FixationDeviceDescription
+  x40004000: 'C', // TextComments
+  x4008010b: 'C', // InterpretationText
+  x40080115: 'C', // InterpretationDiagnosisDescription
+  x40080300: 'C', // Impressions
+  x40084000: 'C', // ResultsComments
+};
+
+/**
+ * Clean Structured Content Option
+ */
+export const CLEAN_STRUCTURED_CONTENT_ACTIONS: Readonly<Record<string, ProfileAction>> = {
+  x00400555: 'C', // AcquisitionContextSequence
+  x00400440: 'C', // ProtocolContextSequence
+  x0040a730: 'C', // ContentSequence
+};
+
+/**
+ * Clean Graphics Option
+ */
+export const CLEAN_GRAPHICS_ACTIONS: Readonly<Record<string, ProfileAction>> = {
+  x00700001: 'C', // GraphicAnnotationSequence: graphic objects are kept, text objects removed
+  x00700008: 'X', // TextObjectSequence
+  x00700068: 'X', // GraphicLayerDescription
+  x00700081: 'Z', // ContentDescription
+  x50xxxxxx: 'X', // Curve groups
+  x60xxxxxx: 'X', // Overlay groups; overlays in unused Pixel Data bits are blanked by the writer
+};
+
+/**
+ * Attributes the Basic Profile keeps that the Clean Graphics Option removes or
+ * empties, since they can carry text shown on the image
+ */
+export const CLEAN_GRAPHICS_ATTRIBUTES: readonly ProfileAttribute[] = [
+  { tag: 'x00700008', name: 'TextObjectSequence', action: 'K' },
+  { tag: 'x00700068', name: 'GraphicLayerDescription', action: 'K' },
+  { tag: 'x00700081', name: 'ContentDescription', action: 'K' },
+  { tag: 'x60xxxxxx', name: 'OverlayPlane', action: 'K' },
+];
+
+export interface SafePrivateAttribute {
+  creator: string;
+  tag: string;
+  name: string;
+}
+
+/**
+ * Private attributes known not to contain identifying information (after
+ * Table E.3.10-1); 'xx' stands for the private block the creator reserved
+ */
+export const SAFE_PRIVATE_ATTRIBUTES: readonly SafePrivateAttribute[] = [
+  { creator: 'SIEMENS MR HEADER', tag: 'x0019xx08', name: 'ImagingMode' },
+  { creator: 'SIEMENS MR HEADER', tag: 'x0019xx09', name: 'SequenceInfo' },
+  { creator: 'SIEMENS MR HEADER', tag: 'x0019xx0b', name: 'SliceMeasurementDuration' },
+  { creator: 'SIEMENS MR HEADER', tag: 'x0019xx0c', name: 'B_value' },
+  { creator: 'SIEMENS MR HEADER', tag: 'x0019xx0d', name: 'DiffusionDirectionality' },
+  { creator: 'SIEMENS MR HEADER', tag: 'x0019xx0e', name: 'DiffusionGradientDirection' },
+  { creator: 'SIEMENS MR HEADER', tag: 'x0019xx27', name: 'B_matrix' },
+  { creator: 'GEMS_PARM_01', tag: 'x0043xx39', name: 'SlopInteger6To9' },
+  { creator: 'GEMS_ACQU_01', tag: 'x0019xx9e', name: 'InternalPulseSequenceName' },
+  { creator: 'Philips Imaging DD 001', tag: 'x2001xx03', name: 'DiffusionBFactor' },
+  { creator: 'Philips Imaging DD 001', tag: 'x2001xx04', name: 'DiffusionDirection' },
+  { creator: 'Philips MR Imaging DD 001', tag: 'x2005xx13', name: 'NumberOfChemicalShifts' },
+];
+
+const profileAttributesByTag = new Map(
+  BASIC_PROFILE_ATTRIBUTES.map((attribute) => [attribute.tag, attribute])
+);
+
+/**
+ * Check if a tag lies in an odd (private) group
+ */
+export function isPrivateTag(tag: string): boolean {
+  return parseInt(tag.substring(1, 5), 16) % 2 === 1;
+}
+
+/**
+ * Find the Basic Profile row for a tag ('x00100010' format)
+ */
+export function getProfileAttribute(tag: string): ProfileAttribute | undefined {
+  const normalizedTag = tag.toLowerCase();
+  const exactMatch = profileAttributesByTag.get(normalizedTag);
+  if (exactMatch) {
+    return exactMatch;
+  }
+
+  return BASIC_PROFILE_REPEATING_ATTRIBUTES.find((attribute) => matchesTagMask(attribute.tag, normalizedTag));
+}
+
+/**
+ * Check a tag against a mask where 'x' after the leading 'x' matches any hex digit
+ */
+export function matchesTagMask(mask: string, tag: string): boolean {
+  const normalizedTag = tag.toLowerCase();
+  return (
+    mask.length === normalizedTag.length &&
+    mask.split('').every((char, index) => index === 0 || char === 'x' || char === normalizedTag[index])
+  );
+}
+
+/**
+ * Find the action an option column gives a tag, trying exact tags before masks
+ */
+export function getOptionAction(
+  actions: Readonly<Record<string, ProfileAction>>,
+  tag: string
+): ProfileAction | undefined {
+  const normalizedTag = tag.toLowerCase();
+  if (actions[normalizedTag]) {
+    return actions[normalizedTag];
+  }
+  const mask = Object.keys(actions).find((key) => key.substring(1).includes('x') && matchesTagMask(key, normalizedTag));
+  return mask ? actions[mask] : undefined;
+}
+
+/**
+ * Check if a private data element is on the safe list for its creator
+ */
+export function isSafePrivateAttribute(tag: string, creator: string): boolean {
+  const normalizedTag = tag.toLowerCase();
+  const maskedTag = `${normalizedTag.substring(0, 5)}xx${normalizedTag.substring(7)}`;
+  return SAFE_PRIVATE_ATTRIBUTES.some(
+    (attribute) => attribute.creator === creator && attribute.tag === maskedTag
+  );
+}
@@ -4,7 +4,6 @@
 
 // File Upload
 export const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
-export const ACCEPTED_FILE_TYPES = ['.dcm', '.dicom'];
 export const ACCEPTED_MIME_TYPES = [
   'application/dicom',
   'application/octet-stream',
@@ -17,9 +16,30 @@ export const DISPLAY_DATE_FORMAT = 'YYYY-MM-DD';
 export const DISPLAY_TIME_FORMAT = 'HH:mm:ss';
 
 // Deidentification
-export const DEFAULT_DATE_SHIFT_DAYS = 365;
+// Per-patient date offsets are drawn from this range (negative moves dates earlier)
+export const DEFAULT_DATE_SHIFT_MIN_DAYS = -365;
+export const DEFAULT_DATE_SHIFT_MAX_DAYS = -30;
 export const ANONYMOUS_PATIENT_NAME = 'ANONYMOUS';
 export const ANONYMOUS_PATIENT_ID_PREFIX = 'ANON-';
+export const PSEUDONYM_HEX_LENGTH = 16;
+
+// Maximum value lengths by VR (PS3.5 Table 6.2-1), for generated values
+export const VR_MAX_LENGTHS: Record<string, number> = {
+  AE: 16,
+  AS: 4,
+  CS: 16,
+  DA: 8,
+  DS: 16,
+  DT: 26,
+  IS: 12,
+  LO: 64,
+  LT: 10240,
+  PN: 64,
+  SH: 16,
+  ST: 1024,
+  TM: 14,
+  UI: 64,
+};
 
 // Viewer Settings
 export const DEFAULT_VIEWPORT_SCALE = 1.0;
@@ -49,12 +69,14 @@ export const STORAGE_KEYS = {
   DEIDENTIFICATION_OPTIONS: 'dicom-viewer:deidentification-options',
   VIEWER_SYNC_STATE: 'dicom-viewer:viewer-sync-state',
   USER_PREFERENCES: 'dicom-viewer:user-preferences',
+  PROJECT_SECRET: 'dicom-viewer:project-secret',
+  MASK_TEMPLATES: 'dicom-viewer:mask-templates',
 } as const;
 
 // Error Messages
 export const ERROR_MESSAGES = {
   FILE_TOO_LARGE: `File size exceeds maximum allowed size of ${MAX_FILE_SIZE / 1024 / 1024}MB`,
-  INVALID_FILE_TYPE: 'Invalid file type. Please upload DICOM files (.dcm, .dicom)',
+  INVALID_FILE_TYPE: 'Not a DICOM file: no DICM header and no recognizable dataset',
   PARSING_FAILED: 'Failed to parse DICOM file. The file may be corrupted.',
   NO_FILES_UPLOADED: 'No files uploaded. Please upload DICOM files first.',
   DEIDENTIFICATION_FAILED: 'Failed to deidentify DICOM file.',
@@ -69,16 +91,42 @@ export const SUCCESS_MESSAGES = {
 } as const;
 
 // DICOM Transfer Syntaxes
+// Root of the UIDs defined by the standard (SOP Classes, Transfer Syntaxes, ...)
+export const DICOM_UID_ROOT = '1.2.840.10008.';
+
 export const TRANSFER_SYNTAXES = {
   IMPLICIT_VR_LITTLE_ENDIAN: '1.2.840.10008.1.2',
   EXPLICIT_VR_LITTLE_ENDIAN: '1.2.840.10008.1.2.1',
+  DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN: '1.2.840.10008.1.2.1.99',
   EXPLICIT_VR_BIG_ENDIAN: '1.2.840.10008.1.2.2',
   JPEG_BASELINE: '1.2.840.10008.1.2.4.50',
+  JPEG_EXTENDED: '1.2.840.10008.1.2.4.51',
+  JPEG_LOSSLESS_NON_HIERARCHICAL: '1.2.840.10008.1.2.4.57',
   JPEG_LOSSLESS: '1.2.840.10008.1.2.4.70',
+  JPEG_LS_LOSSLESS: '1.2.840.10008.1.2.4.80',
+  JPEG_LS_NEAR_LOSSLESS: '1.2.840.10008.1.2.4.81',
   JPEG_2000_LOSSLESS: '1.2.840.10008.1.2.4.90',
+  JPEG_2000: '1.2.840.10008.1.2.4.91',
   RLE_LOSSLESS: '1.2.840.10008.1.2.5',
 } as const;
 
+// Transfer Syntaxes by UID (PS3.6 Annex A)
+export const TRANSFER_SYNTAX_NAMES: Record<string, string> = {
+  '1.2.840.10008.1.2': 'Implicit VR Little Endian',
+  '1.2.840.10008.1.2.1': 'Explicit VR Little Endian',
+  '1.2.840.10008.1.2.1.99': 'Deflated Explicit VR Little Endian',
+  '1.2.840.10008.1.2.2': 'Explicit VR Big Endian',
+  '1.2.840.10008.1.2.4.50': 'JPEG Baseline',
+  '1.2.840.10008.1.2.4.51': 'JPEG Extended',
+  '1.2.840.10008.1.2.4.57': 'JPEG Lossless',
+  '1.2.840.10008.1.2.4.70': 'JPEG Lossless SV1',
+  '1.2.840.10008.1.2.4.80': 'JPEG-LS Lossless',
+  '1.2.840.10008.1.2.4.81': 'JPEG-LS Near-Lossless',
+  '1.2.840.10008.1.2.4.90': 'JPEG 2000 Lossless',
+  '1.2.840.10008.1.2.4.91': 'JPEG 2000',
+  '1.2.840.10008.1.2.5': 'RLE Lossless',
+};
+
 // DICOM Modalities
 export const MODALITIES = {
   CT: 'CT',
@@ -94,3 +142,64 @@ export const MODALITIES = {
 } as const;
 
 export type Modality = keyof typeof MODALITIES;
+
+// Modalities whose images often have patient details burned into the pixels
+export const BURNED_IN_ANNOTATION_MODALITIES: string[] = [MODALITIES.US, 'SC', MODALITIES.OT, MODALITIES.XA];
+
+// Storage SOP Classes by UID (PS3.4 Annex B)
+export const SOP_CLASSES: Record<string, string> = {
+  '1.2.840.10008.5.1.4.1.1.1': 'Computed Radiography Image Storage',
+  '1.2.840.10008.5.1.4.1.1.1.1': 'Digital X-Ray Image Storage',
+  '1.2.840.10008.5.1.4.1.1.1.2': 'Digital Mammography X-Ray Image Storage',
+  '1.2.840.10008.5.1.4.1.1.2': 'CT Image Storage',
+  '1.2.840.10008.5.1.4.1.1.2.1': 'Enhanced CT Image Storage',
+  '1.2.840.10008.5.1.4.1.1.3.1': 'Ultrasound Multi-frame Image Storage',
+  '1.2.840.10008.5.1.4.1.1.4': 'MR Image Storage',
+  '1.2.840.10008.5.1.4.1.1.4.1': 'Enhanced MR Image Storage',
+  '1.2.840.10008.5.1.4.1.1.6.1': 'Ultrasound Image Storage',
+  '1.2.840.10008.5.1.4.1.1.7': 'Secondary Capture Image Storage',
+  '1.2.840.10008.5.1.4.1.1.7.1': 'Multi-frame Single Bit Secondary Capture Image Storage',
+  '1.2.840.10008.5.1.4.1.1.7.2': 'Multi-frame Grayscale Byte Secondary Capture Image Storage',
+  '1.2.840.10008.5.1.4.1.1.7.3': 'Multi-frame Grayscale Word Secondary Capture Image Storage',
+  '1.2.840.10008.5.1.4.1.1.7.4': 'Multi-frame True Color Secondary Capture Image Storage',
+  '1.2.840.10008.5.1.4.1.1.12.1': 'X-Ray Angiographic Image Storage',
+  '1.2.840.10008.5.1.4.1.1.12.2': 'X-Ray Radiofluoroscopic Image Storage',
+  '1.2.840.10008.5.1.4.1.1.20': 'Nuclear Medicine Image Storage',
+  '1.2.840.10008.5.1.4.1.1.66': 'Raw Data Storage',
+  '1.2.840.10008.5.1.4.1.1.77.1.1': 'VL Endoscopic Image Storage',
+  '1.2.840.10008.5.1.4.1.1.77.1.1.1': 'Video Endoscopic Image Storage',
+  '1.2.840.10008.5.1.4.1.1.77.1.2.1': 'Video Microscopic Image Storage',
+  '1.2.840.10008.5.1.4.1.1.77.1.4': 'VL Photographic Image Storage',
+  '1.2.840.10008.5.1.4.1.1.77.1.4.1': 'Video Photographic Image Storage',
+  '1.2.840.10008.5.1.4.1.1.88.11': 'Basic Text SR Storage',
+  '1.2.840.10008.5.1.4.1.1.88.22': 'Enhanced SR Storage',
+  '1.2.840.10008.5.1.4.1.1.88.33': 'Comprehensive SR Storage',
+  '1.2.840.10008.5.1.4.1.1.88.34': 'Comprehensive 3D SR Storage',
+  '1.2.840.10008.5.1.4.1.1.88.59': 'Key Object Selection Document Storage',
+  '1.2.840.10008.5.1.4.1.1.88.67': 'X-Ray Radiation Dose SR Storage',
+  '1.2.840.10008.5.1.4.1.1.104.1': 'Encapsulated PDF Storage',
+  '1.2.840.10008.5.1.4.1.1.104.2': 'Encapsulated CDA Storage',
+  '1.2.840.10008.5.1.4.1.1.128': 'Positron Emission Tomography Image Storage',
+};
+
+// Media Storage SOP Class of a DICOMDIR, the index of a folder or disc of files
+export const MEDIA_STORAGE_DIRECTORY_SOP_CLASS = '1.2.840.10008.1.3.10';
+
+// Every Structured Report SOP Class UID starts with this root
+export const STRUCTURED_REPORT_SOP_CLASS_ROOT = '1.2.840.10008.5.1.4.1.1.88.';
+
+// SOP Classes that are mostly screenshots, scanned documents, photos or video
+export const BURNED_IN_ANNOTATION_SOP_CLASSES: string[] = [
+  '1.2.840.10008.5.1.4.1.1.3.1',
+  '1.2.840.10008.5.1.4.1.1.6.1',
+  '1.2.840.10008.5.1.4.1.1.7',
+  '1.2.840.10008.5.1.4.1.1.7.1',
+  '1.2.840.10008.5.1.4.1.1.7.2',
+  '1.2.840.10008.5.1.4.1.1.7.3',
+  '1.2.840.10008.5.1.4.1.1.7.4',
+  '1.2.840.10008.5.1.4.1.1.12.1',
+  '1.2.840.10008.5.1.4.1.1.77.1.1.1',
+  '1.2.840.10008.5.1.4.1.1.77.1.4',
+  '1.2.840.10008.5.1.4.1.1.77.1.4.1',
+  '1.2.840.10008.5.1.4.1.1.104.1',
+];
@@ -10,6 +10,8 @@ export const DICOM_TAGS = {
   PatientBirthDate: 'x00100030',
   PatientSex: 'x00100040',
   PatientAge: 'x00101010',
+  PatientSize: 'x00101020',
+  PatientWeight: 'x00101030',
   PatientAddress: 'x00101040',
   PatientTelephoneNumbers: 'x00102154',
 
@@ -29,8 +31,10 @@ export const DICOM_TAGS = {
   Modality: 'x00080060',
   PerformingPhysicianName: 'x00081050',
   OperatorsName: 'x00081070',
+  ProtocolName: 'x00181030',
 
   // Instance Information (0008,xxxx and 0020,xxxx)
+  SOPClassUID: 'x00080016',
   SOPInstanceUID: 'x00080018',
   InstanceNumber: 'x00200013',
 
@@ -48,6 +52,8 @@ export const DICOM_TAGS = {
   RescaleSlope: 'x00281053',
   PhotometricInterpretation: 'x00280004',
   NumberOfFrames: 'x00280008',
+  BurnedInAnnotation: 'x00280301',
+  RecognizableVisualFeatures: 'x00280302',
 
   // Institution Information
   InstitutionName: 'x00080080',
@@ -124,6 +130,95 @@ export function getTagName(tag: string): string {
   return entry ? entry[0] : tag;
 }
 
+/**
+ * Format a tag ('x00100010') the way the standard prints it: (0010,0010)
+ * Masked tags such as 'x60xx3000' keep their lowercase placeholders
+ */
+export function formatTag(tag: string): string {
+  const digits = tag.startsWith('x') ? tag.substring(1) : tag;
+  const printable = /^[0-9a-f]{8}$/i.test(digits) ? digits.toUpperCase() : digits;
+  return `(${printable.substring(0, 4)},${printable.substring(4, 8)})`;
+}
+
+/**
+ * Parse a tag typed as 'x00100010', '(0010,0010)', '0010,0010' or '00100010'
+ * into the 'x00100010' format, or undefined when it isn't a tag
+ */
+export function parseTag(input: string): string | undefined {
+  const digits = input.trim().replace(/^x/i, '').replace(/[(),\s]/g, '');
+  return /^[0-9a-f]{8}$/i.test(digits) ? `x${digits.toLowerCase()}` : undefined;
+}
+
+/**
+ * Flatten serialized tags into paths that descend into sequence items,
+ * e.g. 'x00400275[0].x00401001'
+ */
+export function flattenTagPaths(tags: Record<string, unknown>, prefix: string = ''): Record<string, unknown> {
+  const paths: Record<string, unknown> = {};
+
+  Object.entries(tags).forEach(([tag, value]) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        Object.assign(paths, flattenTagPaths(item as Record<string, unknown>, `${prefix}${tag}[${index}].`));
+      });
+    } else {
+      paths[`${prefix}${tag}`] = value;
+    }
+  });
+
+  return paths;
+}
+
+/**
+ * Format a tag path the way the standard prints tags: (0040,0275)[0].(0040,1001)
+ */
+export function formatTagPath(path: string): string {
+  return path.replace(/x([0-9a-f]{8})/gi, (tag) => formatTag(tag));
+}
+
+export interface PrivateCreatorBlock {
+  group: string;
+  block: string;
+  creator?: string;
+  tags: string[];
+}
+
+/**
+ * Group the private data elements of serialized tags under the creator block
+ * that reserved them: (gggg,00bb) names the creator of elements (gggg,bbxx).
+ * Elements whose creator element is missing get a block without a creator.
+ */
+export function groupPrivateTags(tags: Record<string, unknown>): PrivateCreatorBlock[] {
+  const blocks = new Map<string, PrivateCreatorBlock>();
+
+  Object.keys(tags)
+    .filter((tag) => /^x[0-9a-f]{8}$/i.test(tag) && parseInt(tag.substring(1, 5), 16) % 2 === 1)
+    .sort()
+    .forEach((tag) => {
+      const group = tag.substring(1, 5).toLowerCase();
+      const element = parseInt(tag.substring(5), 16);
+      // Group lengths and creator elements belong to no block of their own
+      if (element < 0x1000) {
+        return;
+      }
+
+      const block = tag.substring(5, 7).toLowerCase();
+      const key = `${group}${block}`;
+      if (!blocks.has(key)) {
+        const creator = tags[`x${group}00${block}`];
+        blocks.set(key, {
+          group,
+          block,
+          creator: typeof creator === 'string' ? creator.trim() : undefined,
+          tags: [],
+        });
+      }
+      blocks.get(key)!.tags.push(tag);
+    });
+
+  return [...blocks.values()];
+}
+
 /**
  * Check if a tag contains PHI
  */
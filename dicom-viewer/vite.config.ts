@@ -29,6 +29,11 @@ export default defineConfig({
     chunkSizeWarningLimit: 2000,
     rollupOptions: {
       output: {
+        // The OCR model is fetched by name from the folder it is in
+        assetFileNames: (assetInfo) =>
+          assetInfo.names.some((name) => name.endsWith('.traineddata.gz'))
+            ? 'assets/tesseract/[name][extname]'
+            : 'assets/[name]-[hash][extname]',
         manualChunks: {
           // Separate vendor chunks for better caching
           'vendor-react': ['react', 'react-dom', 'react-router-dom'],